@@ -0,0 +1,189 @@
+import type { MultipleComparisonMethod } from "@mobilisers/ab-testing/types/ab-testing";
+import type { SampleSizeResult } from "@mobilisers/ab-testing/types/statistical-results";
+import { guardrailTests } from "@mobilisers/ab-testing/guardrails";
+import { MULTIPLE_COMPARISON_METHODS } from "@mobilisers/ab-testing/multiple-comparisons";
+import {
+	describeSampleRatioMismatch,
+	sampleRatioMismatchTest
+} from "@mobilisers/ab-testing/sample-ratio";
+import { calculateSampleSize } from "@mobilisers/ab-testing/sample-size";
+import {
+	compareTwoProportions,
+	comprehensivePairwiseAnalysis,
+	formatTwoProportionData
+} from "@mobilisers/ab-testing/statistical-tests";
+import {
+	validateABTestInput,
+	validateSampleSizeCalculationInput,
+	validateStatisticalRequirements
+} from "@mobilisers/ab-testing/validation";
+
+/**
+ * Read-only JSON API for the A/B test calculator, for dashboards that want results without the UI
+ *
+ * POST /api/ab-test/analyse
+ *   Body: test results matching abTestInputSchema. Two variants return a TwoProportionResult;
+ *   three or more return a ComprehensiveAnalysisResult, corrected with ?correction= (default
+ *   bonferroni). Both add the calculator's warnings, sample ratio check and guardrail results.
+ *   A sample ratio mismatch returns 422 instead, as the calculator hides results until it's
+ *   acknowledged; add ?allowSampleRatioMismatch=true to analyse anyway
+ *
+ * POST /api/ab-test/sample-size
+ *   Body: plan matching sampleSizeCalculationSchema, with one of sample size, effect and power
+ *   left out. Returns a SampleSizeResult
+ *
+ * Invalid input returns 400 with { errors: string[] }, worded as in the calculator
+ */
+
+const CORS_HEADERS = {
+	"Access-Control-Allow-Origin": "*",
+	"Access-Control-Allow-Methods": "POST, OPTIONS",
+	"Access-Control-Allow-Headers": "Content-Type"
+};
+
+const json = (
+	body: unknown,
+	status: number = 200,
+	headers: Record<string, string> = {}
+): Response =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json", ...CORS_HEADERS, ...headers }
+	});
+
+const errors = (messages: string[], status: number = 400): Response =>
+	json({ errors: messages }, status);
+
+const CORRECTION_METHODS = Object.keys(MULTIPLE_COMPARISON_METHODS) as MultipleComparisonMethod[];
+
+function analyse(
+	body: unknown,
+	correction: string | null,
+	allowSampleRatioMismatch: boolean
+): Response {
+	const correctionMethod = CORRECTION_METHODS.find(
+		(method) => method === (correction ?? "bonferroni")
+	);
+	if (!correctionMethod) {
+		return errors([`correction must be one of ${CORRECTION_METHODS.join(", ")}`]);
+	}
+
+	const validated = validateABTestInput(body);
+	if (!validated.success) {
+		return errors(validated.errors);
+	}
+
+	const input = validated.data;
+	const variations = [input.controlVariation, ...input.variations];
+	const [control, variation] = variations;
+
+	if (variations.length > 2 && input.sidedness === "one-sided") {
+		return errors([
+			"One-sided tests only compare a variant with the control, so they need exactly two variants. Use a two-sided test to compare three or more"
+		]);
+	}
+
+	// A broken traffic split makes any winner untrustworthy, so results wait for acknowledgement
+	const sampleRatioMismatch = sampleRatioMismatchTest(variations, input.allocationRatios);
+	if (sampleRatioMismatch.isSignificant && !allowSampleRatioMismatch) {
+		return json(
+			{ errors: [describeSampleRatioMismatch(sampleRatioMismatch)], sampleRatioMismatch },
+			422
+		);
+	}
+
+	const guardrailResults = input.guardrails
+		? guardrailTests(variations, input.guardrails, input.confidenceLevel)
+		: [];
+	const checks = { warnings: validateStatisticalRequirements(input), sampleRatioMismatch };
+
+	if (variations.length === 2 && control && variation) {
+		return json({
+			...compareTwoProportions(
+				formatTwoProportionData(control, variation, input.confidenceLevel, input.sidedness),
+				control.name,
+				variation.name
+			),
+			guardrailResults,
+			...checks
+		});
+	}
+
+	return json({
+		...comprehensivePairwiseAnalysis(
+			variations,
+			input.confidenceLevel,
+			correctionMethod,
+			guardrailResults
+		),
+		...checks
+	});
+}
+
+function sampleSize(body: unknown): Response {
+	const validated = validateSampleSizeCalculationInput(body);
+	if (!validated.success) {
+		return errors(validated.errors);
+	}
+
+	let result: SampleSizeResult;
+	try {
+		result = calculateSampleSize(validated.data);
+	} catch (error) {
+		return errors([
+			error instanceof Error
+				? error.message
+				: "There was an error planning your test. Please check your numbers and try again."
+		]);
+	}
+
+	// Extreme settings can overflow; JSON would turn those numbers into null
+	const numbers = [
+		result.controlSampleSize,
+		result.variantSampleSize,
+		result.totalSampleSize,
+		result.minimumDetectableEffect.relative,
+		result.power
+	];
+	if (!numbers.every(Number.isFinite)) {
+		return errors([
+			"These settings need more people than any test could reach. Please aim for a bigger improvement or lower power"
+		]);
+	}
+
+	return json(result);
+}
+
+export default async (request: Request): Promise<Response> => {
+	if (request.method === "OPTIONS") {
+		return new Response(null, { status: 204, headers: CORS_HEADERS });
+	}
+	if (request.method !== "POST") {
+		return json({ errors: ["Please send a POST request with JSON"] }, 405, { Allow: "POST" });
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return errors(["Please send the request body as JSON"]);
+	}
+
+	const url = new URL(request.url);
+	switch (url.pathname.replace(/\/$/, "")) {
+		case "/api/ab-test/analyse":
+			return analyse(
+				body,
+				url.searchParams.get("correction"),
+				url.searchParams.get("allowSampleRatioMismatch") === "true"
+			);
+		case "/api/ab-test/sample-size":
+			return sampleSize(body);
+		default:
+			return errors(["Not found. Use /api/ab-test/analyse or /api/ab-test/sample-size"], 404);
+	}
+};
+
+export const config = {
+	path: ["/api/ab-test/analyse", "/api/ab-test/sample-size"]
+};
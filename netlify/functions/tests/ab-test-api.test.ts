@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import type {
+	ComprehensiveAnalysisResult,
+	GuardrailTestResult,
+	SampleRatioMismatchResult,
+	SampleSizeResult,
+	TwoProportionResult
+} from "@mobilisers/ab-testing/types/statistical-results";
+import handler, { config } from "../ab-test-api";
+
+/**
+ * Handler tests for the A/B test JSON API, called the way Netlify calls it
+ */
+
+const post = (path: string, body: unknown): Promise<Response> =>
+	handler(
+		new Request(`https://example.org${path}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: typeof body === "string" ? body : JSON.stringify(body)
+		})
+	);
+
+const twoVariants = {
+	controlVariation: { name: "Blue Button", visitors: 5000, conversions: 250 },
+	variations: [{ name: "Red Button", visitors: 5000, conversions: 320 }],
+	confidenceLevel: 0.95,
+	sidedness: "two-sided"
+};
+
+type AnalysisChecks = {
+	warnings: string[];
+	sampleRatioMismatch: SampleRatioMismatchResult;
+	guardrailResults: GuardrailTestResult[];
+};
+
+const threeVariants = {
+	...twoVariants,
+	variations: [
+		{ name: "Red Button", visitors: 5000, conversions: 320 },
+		{ name: "Green Button", visitors: 5000, conversions: 255 }
+	]
+};
+
+describe("POST /api/ab-test/analyse", () => {
+	it("returns a two-proportion result for two variants", async () => {
+		const response = await post("/api/ab-test/analyse", twoVariants);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Type")).toBe("application/json");
+		const result = (await response.json()) as TwoProportionResult & AnalysisChecks;
+		expect(result.control.name).toBe("Blue Button");
+		expect(result.variation.name).toBe("Red Button");
+		expect(result.isSignificant).toBe(true);
+		expect(result.warnings).toEqual([]);
+		expect(result.sampleRatioMismatch.isSignificant).toBe(false);
+		expect(result.guardrailResults).toEqual([]);
+	});
+
+	it("includes the calculator's warnings", async () => {
+		const response = await post("/api/ab-test/analyse", {
+			...twoVariants,
+			controlVariation: { name: "Blue Button", visitors: 50, conversions: 2 },
+			variations: [{ name: "Red Button", visitors: 50, conversions: 3 }]
+		});
+
+		expect(response.status).toBe(200);
+		const { warnings } = (await response.json()) as AnalysisChecks;
+		expect(warnings.length).toBeGreaterThan(0);
+	});
+
+	it("checks guardrails when comparing two variants", async () => {
+		const response = await post("/api/ab-test/analyse", {
+			...twoVariants,
+			controlVariation: {
+				...twoVariants.controlVariation,
+				metrics: [{ name: "Unsubscribes", count: 20 }]
+			},
+			variations: [
+				{ ...twoVariants.variations[0], metrics: [{ name: "Unsubscribes", count: 60 }] }
+			],
+			guardrails: [{ name: "Unsubscribes", harmfulDirection: "increase" }]
+		});
+
+		expect(response.status).toBe(200);
+		const { guardrailResults } = (await response.json()) as AnalysisChecks;
+		expect(guardrailResults).toHaveLength(1);
+		expect(guardrailResults[0]?.failed).toBe(true);
+	});
+
+	it("holds back results when traffic wasn't split as intended", async () => {
+		const mismatched = { ...threeVariants, allocationRatios: [1, 1, 8] };
+
+		const blocked = await post("/api/ab-test/analyse", mismatched);
+		expect(blocked.status).toBe(422);
+		const { errors, sampleRatioMismatch } = (await blocked.json()) as {
+			errors: string[];
+			sampleRatioMismatch: SampleRatioMismatchResult;
+		};
+		expect(errors).toHaveLength(1);
+		expect(sampleRatioMismatch.isSignificant).toBe(true);
+
+		const acknowledged = await post(
+			"/api/ab-test/analyse?allowSampleRatioMismatch=true",
+			mismatched
+		);
+		expect(acknowledged.status).toBe(200);
+		const result = (await acknowledged.json()) as ComprehensiveAnalysisResult & AnalysisChecks;
+		expect(result.sampleRatioMismatch.isSignificant).toBe(true);
+		expect(result.allComparisons).toHaveLength(3);
+	});
+
+	it("returns a comprehensive analysis for three variants, with the chosen correction", async () => {
+		const response = await post("/api/ab-test/analyse?correction=holm", threeVariants);
+
+		expect(response.status).toBe(200);
+		const result = (await response.json()) as ComprehensiveAnalysisResult;
+		expect(result.correctionMethod).toBe("holm");
+		expect(result.allComparisons).toHaveLength(3);
+	});
+
+	it("returns the calculator's validation errors", async () => {
+		const response = await post("/api/ab-test/analyse", {
+			...twoVariants,
+			controlVariation: { name: "Blue Button", visitors: 100, conversions: 150 }
+		});
+
+		expect(response.status).toBe(400);
+		const { errors } = (await response.json()) as { errors: string[] };
+		expect(errors.length).toBeGreaterThan(0);
+		expect(errors.every((error) => typeof error === "string")).toBe(true);
+	});
+
+	it("rejects an unknown correction and one-sided tests of three variants", async () => {
+		const unknownCorrection = await post("/api/ab-test/analyse?correction=tukey", threeVariants);
+		expect(unknownCorrection.status).toBe(400);
+		expect(await unknownCorrection.json()).toEqual({
+			errors: ["correction must be one of bonferroni, holm, hochberg, benjamini-hochberg"]
+		});
+
+		const oneSided = await post("/api/ab-test/analyse", {
+			...threeVariants,
+			sidedness: "one-sided"
+		});
+		expect(oneSided.status).toBe(400);
+	});
+});
+
+describe("POST /api/ab-test/sample-size", () => {
+	it("works out the missing sample size", async () => {
+		const response = await post("/api/ab-test/sample-size", {
+			baselineRate: 0.05,
+			minimumDetectableEffect: 0.2,
+			power: 0.8,
+			significanceLevel: 0.05,
+			sidedness: "two-sided",
+			allocationRatio: 1,
+			variantCount: 1,
+			correction: "none"
+		});
+
+		expect(response.status).toBe(200);
+		const result = (await response.json()) as SampleSizeResult;
+		expect(result.controlSampleSize).toBeGreaterThan(7000);
+		expect(result.controlSampleSize).toBeLessThan(9000);
+	});
+
+	it("returns validation errors", async () => {
+		const response = await post("/api/ab-test/sample-size", { baselineRate: 2 });
+
+		expect(response.status).toBe(400);
+		const { errors } = (await response.json()) as { errors: string[] };
+		expect(errors).toContain("baselineRate: Baseline conversion rate must be below 100%");
+	});
+
+	it("rejects plans that can't be met instead of returning empty numbers", async () => {
+		const plan = {
+			baselineRate: 0.05,
+			power: 0.8,
+			significanceLevel: 0.05,
+			sidedness: "two-sided",
+			allocationRatio: 1,
+			variantCount: 1,
+			correction: "none"
+		};
+
+		const tooSmall = await post("/api/ab-test/sample-size", {
+			...plan,
+			baselineRate: 0.9,
+			controlSampleSize: 10
+		});
+		expect(tooSmall.status).toBe(400);
+		expect(((await tooSmall.json()) as { errors: string[] }).errors[0]).toContain(
+			"This sample size is too small"
+		);
+
+		const unreachable = await post("/api/ab-test/sample-size", {
+			...plan,
+			minimumDetectableEffect: 1e-300
+		});
+		expect(unreachable.status).toBe(400);
+		expect(((await unreachable.json()) as { errors: string[] }).errors[0]).toContain(
+			"more people than any test could reach"
+		);
+	});
+});
+
+describe("request handling", () => {
+	it("rejects bodies that aren't JSON", async () => {
+		const response = await post("/api/ab-test/analyse", "controlVariation=A");
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ errors: ["Please send the request body as JSON"] });
+	});
+
+	it("only accepts POST, answering CORS preflight requests", async () => {
+		const get = await handler(new Request("https://example.org/api/ab-test/analyse"));
+		expect(get.status).toBe(405);
+		expect(get.headers.get("Allow")).toBe("POST");
+
+		const preflight = await handler(
+			new Request("https://example.org/api/ab-test/analyse", { method: "OPTIONS" })
+		);
+		expect(preflight.status).toBe(204);
+		expect(preflight.headers.get("Access-Control-Allow-Origin")).toBe("*");
+	});
+
+	it("serves both endpoints", () => {
+		expect(config.path).toEqual(["/api/ab-test/analyse", "/api/ab-test/sample-size"]);
+	});
+});
@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Runs the bundled command line tool, which `prepare` builds on install and before publishing
+import "../dist/mobilisers-ab.js";
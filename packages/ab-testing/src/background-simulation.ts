@@ -0,0 +1,8 @@
+/**
+ * Starts the simulation Web Worker (simulation.worker.ts), so apps can run simulateABTests() off
+ * the main thread without knowing where the worker file lives
+ *
+ * Bundlers such as Vite spot the new URL(..., import.meta.url) pattern and bundle the worker
+ */
+export const createSimulationWorker = (): Worker =>
+	new Worker(new URL("./simulation.worker.ts", import.meta.url), { type: "module" });
@@ -0,0 +1,523 @@
+import jStat from "jstat";
+import type { TestVariation } from "./types/ab-testing";
+import type {
+	ABTestReport,
+	BayesianResult,
+	PerformanceTier,
+	TwoProportionResult
+} from "./types/statistical-results";
+import { intervalLevelFor, wilsonInterval } from "./intervals";
+
+/**
+ * A chart as self-contained SVG markup, with the text alternative screen readers announce
+ * The same markup is shown on the page and embedded in downloaded HTML reports.
+ */
+export type ResultChart = {
+	/** Stable ID, also used to link the SVG to its title and description */
+	id: string;
+	/** Short chart title */
+	title: string;
+	/** Full text alternative: every number the chart shows, in words */
+	description: string;
+	/** SVG markup (role="img", labelled by its <title> and <desc>) */
+	svg: string;
+};
+
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 170;
+const RIGHT_MARGIN = 24;
+const TOP_MARGIN = 16;
+const ROW_HEIGHT = 32;
+const AXIS_HEIGHT = 44;
+const MAX_LABEL_LENGTH = 24;
+
+/** Okabe–Ito colours: distinguishable with the common forms of colour blindness */
+const PALETTE = ["#0072b2", "#d55e00", "#009e73", "#cc79a7", "#e69f00", "#56b4e9"];
+
+/** Dash patterns so posterior curves can be told apart without colour */
+const DASH_PATTERNS = ["", "6 3", "2 3", "8 3 2 3", "4 4", "1 2"];
+
+const colourFor = (index: number): string => PALETTE[index % PALETTE.length] ?? "#0072b2";
+
+const escapeXML = (text: string): string =>
+	text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const truncateLabel = (label: string, maxLength: number = MAX_LABEL_LENGTH): string =>
+	label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+
+const formatPercent = (value: number, digits: number = 2): string =>
+	`${(value * 100).toFixed(digits)}%`;
+
+const formatPoints = (value: number): string => `${value > 0 ? "+" : ""}${value.toFixed(2)} pp`;
+
+/** Rounds x to a sensible number of decimals for SVG coordinates */
+const round = (x: number): number => Math.round(x * 10) / 10;
+
+/**
+ * Axis range widened to round numbers, with evenly spaced ticks (steps of 1, 2 or 5 × 10ⁿ)
+ */
+function niceScale(
+	min: number,
+	max: number,
+	targetTicks: number = 5
+): { min: number; max: number; step: number; ticks: number[] } {
+	if (min === max) {
+		const padding = Math.abs(min) * 0.1 || 0.01;
+		return niceScale(min - padding, max + padding, targetTicks);
+	}
+
+	const rawStep = (max - min) / targetTicks;
+	const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+	const step =
+		[1, 2, 5, 10].map((multiple) => multiple * magnitude).find((size) => size >= rawStep) ??
+		10 * magnitude;
+
+	const niceMin = Math.floor(min / step) * step;
+	const niceMax = Math.ceil(max / step) * step;
+	const ticks: number[] = [];
+	for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+		ticks.push(Number(tick.toPrecision(12)));
+	}
+
+	return { min: niceMin, max: niceMax, step, ticks };
+}
+
+/** Decimals needed to tell ticks apart, given the step between them (in display units) */
+const decimalsForStep = (step: number): number => Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+
+/**
+ * Wraps chart content in an accessible <svg> element
+ */
+function renderSVG(
+	id: string,
+	title: string,
+	description: string,
+	height: number,
+	body: string
+): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${height}" width="${CHART_WIDTH}" height="${height}" style="max-width: 100%; height: auto" role="img" aria-labelledby="${id}-title ${id}-desc" font-family="system-ui, sans-serif" font-size="12" fill="currentColor">
+<title id="${id}-title">${escapeXML(title)}</title>
+<desc id="${id}-desc">${escapeXML(description)}</desc>
+${body}
+</svg>`;
+}
+
+/**
+ * Horizontal axis along the bottom of a chart, with gridlines up to the top margin
+ */
+function renderHorizontalAxis(
+	scale: ReturnType<typeof niceScale>,
+	toX: (value: number) => number,
+	axisY: number,
+	label: string,
+	formatTick: (value: number) => string
+): string {
+	const ticks = scale.ticks
+		.map((tick) => {
+			const x = round(toX(tick));
+			return `<line x1="${x}" x2="${x}" y1="${TOP_MARGIN}" y2="${axisY}" stroke="#e6e6e6" />
+<text x="${x}" y="${axisY + 16}" text-anchor="middle">${escapeXML(formatTick(tick))}</text>`;
+		})
+		.join("\n");
+
+	return `<g aria-hidden="true">
+${ticks}
+<line x1="${LABEL_WIDTH}" x2="${CHART_WIDTH - RIGHT_MARGIN}" y1="${axisY}" y2="${axisY}" stroke="#8a8a8a" />
+<text x="${(LABEL_WIDTH + CHART_WIDTH - RIGHT_MARGIN) / 2}" y="${axisY + 36}" text-anchor="middle">${escapeXML(label)}</text>
+</g>`;
+}
+
+type IntervalRow = {
+	label: string;
+	estimate: number;
+	lower: number;
+	upper: number;
+	/** Filled markers for highlighted rows (e.g. significant results), hollow otherwise */
+	filled: boolean;
+	colour: string;
+};
+
+/**
+ * Rows of point estimates with interval whiskers and a dashed reference line
+ */
+function renderIntervalChart(
+	id: string,
+	title: string,
+	description: string,
+	rows: IntervalRow[],
+	options: {
+		reference: number;
+		referenceLabel: string;
+		axisLabel: string;
+		/** Converts a value to the units shown on the axis (e.g. decimal → %) */
+		displayScale: number;
+		unit: string;
+	}
+): string {
+	const { reference, referenceLabel, axisLabel, displayScale, unit } = options;
+	const values = rows.flatMap((row) => [row.lower, row.upper]);
+	const scale = niceScale(
+		Math.min(reference, ...values) * displayScale,
+		Math.max(reference, ...values) * displayScale
+	);
+	const decimals = decimalsForStep(scale.step);
+
+	const plotWidth = CHART_WIDTH - LABEL_WIDTH - RIGHT_MARGIN;
+	const toX = (value: number): number =>
+		LABEL_WIDTH + ((value * displayScale - scale.min) / (scale.max - scale.min)) * plotWidth;
+	const axisY = TOP_MARGIN + rows.length * ROW_HEIGHT;
+	const height = axisY + AXIS_HEIGHT;
+
+	const referenceX = round(toX(reference));
+	const rowMarkup = rows
+		.map((row, index) => {
+			const y = TOP_MARGIN + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+			const [lowerX, upperX, estimateX] = [row.lower, row.upper, row.estimate].map((value) =>
+				round(toX(value))
+			);
+			return `<g>
+<title>${escapeXML(row.label)}</title>
+<text x="${LABEL_WIDTH - 8}" y="${y + 4}" text-anchor="end">${escapeXML(truncateLabel(row.label))}</text>
+<line x1="${lowerX}" x2="${upperX}" y1="${y}" y2="${y}" stroke="${row.colour}" stroke-width="2" />
+<line x1="${lowerX}" x2="${lowerX}" y1="${y - 6}" y2="${y + 6}" stroke="${row.colour}" stroke-width="2" />
+<line x1="${upperX}" x2="${upperX}" y1="${y - 6}" y2="${y + 6}" stroke="${row.colour}" stroke-width="2" />
+<circle cx="${estimateX}" cy="${y}" r="5" fill="${row.filled ? row.colour : "#fff"}" stroke="${row.colour}" stroke-width="2" />
+</g>`;
+		})
+		.join("\n");
+
+	return renderSVG(
+		id,
+		title,
+		description,
+		height,
+		`${renderHorizontalAxis(
+			scale,
+			(tick) => toX(tick / displayScale),
+			axisY,
+			axisLabel,
+			(tick) => `${tick.toFixed(decimals)}${unit}`
+		)}
+<g aria-hidden="true">
+<line x1="${referenceX}" x2="${referenceX}" y1="${TOP_MARGIN - 4}" y2="${axisY}" stroke="#343433" stroke-dasharray="4 3" />
+<text x="${referenceX + 4}" y="${TOP_MARGIN - 4}" font-size="11">${escapeXML(referenceLabel)}</text>
+</g>
+<g aria-hidden="true">
+${rowMarkup}
+</g>`
+	);
+}
+
+/**
+ * Forest plot of each variation's conversion rate with its confidence interval
+ *
+ * WHAT THIS DOES (for novices):
+ * Each dot is a variation's conversion rate and each line is the range its true rate probably
+ * lies in. Lines that barely overlap suggest a real difference; heavily overlapping lines
+ * suggest the variations may perform the same.
+ *
+ * HOW IT WORKS (for experts):
+ * - Wilson score interval per arm, which stays sensible for rates near 0% or 100%
+ * - Dashed reference line at the control's rate
+ *
+ * @param variations - Control first, then the test variations
+ * @param confidenceLevel - Confidence level for the intervals (e.g. 0.95)
+ * @returns Accessible SVG chart with a text alternative
+ */
+export function rateForestPlot(variations: TestVariation[], confidenceLevel: number): ResultChart {
+	const rows: IntervalRow[] = variations.map((variation, index) => {
+		const interval = wilsonInterval(variation.conversions, variation.visitors, confidenceLevel);
+		return {
+			label: index === 0 ? `${variation.name} (control)` : variation.name,
+			estimate: variation.conversions / variation.visitors,
+			lower: interval.lower,
+			upper: interval.upper,
+			filled: true,
+			colour: colourFor(index)
+		};
+	});
+
+	const level = `${Math.round(confidenceLevel * 100)}%`;
+	const id = "chart-conversion-rates";
+	const title = `Conversion rates with ${level} confidence intervals`;
+	const description = `${title}. ${rows
+		.map(
+			(row) =>
+				`${row.label}: ${formatPercent(row.estimate)}, interval ${formatPercent(row.lower)} to ${formatPercent(row.upper)}.`
+		)
+		.join(" ")}`;
+
+	return {
+		id,
+		title,
+		description,
+		svg: renderIntervalChart(id, title, description, rows, {
+			reference: rows[0]?.estimate ?? 0,
+			referenceLabel: "Control rate",
+			axisLabel: "Conversion rate",
+			displayScale: 100,
+			unit: "%"
+		})
+	};
+}
+
+/**
+ * Difference between each compared pair in percentage points, relative to the "no difference" line
+ *
+ * WHAT THIS DOES (for novices):
+ * Shows how much better or worse each variation did, with the range the true difference
+ * probably lies in. If a line crosses zero, "no difference" is still a plausible explanation.
+ * Filled dots are statistically significant results; hollow dots are not.
+ *
+ * HOW IT WORKS (for experts):
+ * - Newcombe hybrid score intervals for the difference, in percentage points
+ * - Significance is taken from the comparison, so it reflects any multiple comparison
+ *   correction even though the intervals themselves are unadjusted
+ * - One-sided comparisons carry 1 − 2α intervals, whose lower ends are the one-sided bounds
+ *
+ * @param comparisons - Pairwise comparisons (second group minus first group)
+ * @param confidenceLevel - Confidence level used for the intervals
+ * @param correctionMethodName - Display name of the correction applied, if any
+ * @returns Accessible SVG chart with a text alternative
+ */
+export function differencePlot(
+	comparisons: TwoProportionResult[],
+	confidenceLevel: number,
+	correctionMethodName: string | null = null
+): ResultChart {
+	const rows: IntervalRow[] = comparisons.map((comparison) => {
+		const { control, variation, improvement } = comparison;
+		return {
+			label: `${variation.name} vs ${control.name}`,
+			estimate: improvement.absolute * 100,
+			lower: improvement.absoluteInterval.lower * 100,
+			upper: improvement.absoluteInterval.upper * 100,
+			filled: comparison.isSignificant,
+			colour: comparison.isSignificant ? "#0072b2" : "#8a8a8a"
+		};
+	});
+
+	const oneSided = comparisons.some((comparison) => comparison.sidedness === "one-sided");
+	const level = `${Math.round(intervalLevelFor(confidenceLevel, oneSided ? "one-sided" : "two-sided") * 100)}%`;
+	const id = "chart-differences";
+	const title = `Differences in conversion rate with ${level} confidence intervals`;
+	const correctionNote = correctionMethodName
+		? ` Significance uses the ${correctionMethodName} correction; the intervals are not adjusted.`
+		: "";
+	const sidednessNote = oneSided
+		? ` The test was one-sided, so only the lower ends matter: each is the ${Math.round(confidenceLevel * 100)}% bound the test checks.`
+		: "";
+	const description = `${title}, in percentage points. Intervals that cross zero are consistent with no difference.${correctionNote}${sidednessNote} ${rows
+		.map(
+			(row) =>
+				`${row.label}: ${formatPoints(row.estimate)}, interval ${formatPoints(row.lower)} to ${formatPoints(row.upper)}, ${row.filled ? "significant" : "not significant"}.`
+		)
+		.join(" ")}`;
+
+	return {
+		id,
+		title,
+		description,
+		svg: renderIntervalChart(id, title, description, rows, {
+			reference: 0,
+			referenceLabel: "No difference",
+			axisLabel: "Difference (percentage points) · filled dots are significant",
+			displayScale: 1,
+			unit: " pp"
+		})
+	};
+}
+
+/**
+ * Bar chart of conversion rates, grouped and coloured by performance tier
+ *
+ * @param tiers - Performance tiers, best first
+ * @returns Accessible SVG chart with a text alternative
+ */
+export function performanceTierChart(tiers: PerformanceTier[]): ResultChart {
+	const rates = tiers.flatMap((tier) =>
+		tier.variations.map((variation) => variation.conversionRate)
+	);
+	const scale = niceScale(0, Math.max(...rates, 0) * 100);
+	const decimals = decimalsForStep(scale.step);
+
+	const plotWidth = CHART_WIDTH - LABEL_WIDTH - RIGHT_MARGIN;
+	const toX = (value: number): number => LABEL_WIDTH + (value / scale.max) * plotWidth;
+
+	let y = TOP_MARGIN;
+	const tierMarkup = tiers
+		.map((tier, tierIndex) => {
+			const colour = colourFor(tierIndex);
+			const heading = `<text x="4" y="${y + 14}" font-weight="600">${escapeXML(`Tier ${tier.tier}: ${tier.label}`)}</text>`;
+			y += ROW_HEIGHT * 0.75;
+
+			const bars = tier.variations
+				.map((variation) => {
+					const barWidth = round(toX(variation.conversionRate * 100) - LABEL_WIDTH);
+					const barY = y + 6;
+					y += ROW_HEIGHT;
+					return `<g>
+<title>${escapeXML(`${variation.name}: ${formatPercent(variation.conversionRate)}`)}</title>
+<text x="${LABEL_WIDTH - 8}" y="${barY + 14}" text-anchor="end">${escapeXML(truncateLabel(variation.name))}</text>
+<rect x="${LABEL_WIDTH}" y="${barY}" width="${Math.max(barWidth, 1)}" height="${ROW_HEIGHT - 12}" fill="${colour}" />
+<text x="${LABEL_WIDTH + Math.max(barWidth, 1) + 4}" y="${barY + 14}">${formatPercent(variation.conversionRate)}</text>
+</g>`;
+				})
+				.join("\n");
+
+			return `${heading}\n${bars}`;
+		})
+		.join("\n");
+
+	const axisY = y + 4;
+	const id = "chart-performance-tiers";
+	const title = "Conversion rates by performance tier";
+	const description = `${title}. ${tiers
+		.map(
+			(tier) =>
+				`Tier ${tier.tier}, ${tier.label}: ${tier.variations
+					.map((variation) => `${variation.name} ${formatPercent(variation.conversionRate)}`)
+					.join(", ")}.`
+		)
+		.join(" ")}`;
+
+	return {
+		id,
+		title,
+		description,
+		svg: renderSVG(
+			id,
+			title,
+			description,
+			axisY + AXIS_HEIGHT,
+			`${renderHorizontalAxis(scale, toX, axisY, "Conversion rate", (tick) => `${tick.toFixed(decimals)}%`)}
+<g aria-hidden="true">
+${tierMarkup}
+</g>`
+		)
+	};
+}
+
+/** Points per posterior curve */
+const POSTERIOR_CURVE_POINTS = 121;
+
+/** Tail probability left off each end of the plotted range */
+const POSTERIOR_PLOT_TAIL = 0.0005;
+
+/**
+ * Posterior distribution of each variation's conversion rate
+ *
+ * WHAT THIS DOES (for novices):
+ * Each curve shows where a variation's true conversion rate probably lies after seeing the data.
+ * Taller, narrower curves mean more certainty; curves that overlap a lot mean the variations
+ * could easily be in either order.
+ *
+ * HOW IT WORKS (for experts):
+ * - Beta posterior densities evaluated on a shared grid spanning every posterior's
+ *   0.05th–99.95th percentiles
+ * - Heights are scaled to the tallest curve; the y-axis is omitted because density units
+ *   mean nothing to most readers
+ *
+ * @param result - Bayesian analysis with posterior parameters
+ * @returns Accessible SVG chart with a text alternative
+ */
+export function posteriorChart(result: BayesianResult): ResultChart {
+	const variations = [result.control, ...result.variations];
+	const lowest = Math.min(
+		...variations.map(({ posterior }) =>
+			jStat.beta.inv(POSTERIOR_PLOT_TAIL, posterior.alpha, posterior.beta)
+		)
+	);
+	const highest = Math.max(
+		...variations.map(({ posterior }) =>
+			jStat.beta.inv(1 - POSTERIOR_PLOT_TAIL, posterior.alpha, posterior.beta)
+		)
+	);
+	const scale = niceScale(Math.max(0, lowest * 100), Math.min(100, highest * 100));
+	const decimals = decimalsForStep(scale.step);
+
+	const plotWidth = CHART_WIDTH - LABEL_WIDTH - RIGHT_MARGIN;
+	const plotHeight = 180;
+	const toX = (value: number): number =>
+		LABEL_WIDTH + ((value - scale.min) / (scale.max - scale.min)) * plotWidth;
+	const axisY = TOP_MARGIN + plotHeight;
+
+	const grid = Array.from(
+		{ length: POSTERIOR_CURVE_POINTS },
+		(_, index) =>
+			(scale.min + ((scale.max - scale.min) * index) / (POSTERIOR_CURVE_POINTS - 1)) / 100
+	);
+	const curves = variations.map(({ posterior }) =>
+		// Nudge the ends inside (0, 1), where a Jeffreys or uniform prior's density can be infinite
+		grid.map((rate) =>
+			jStat.beta.pdf(Math.min(Math.max(rate, 1e-9), 1 - 1e-9), posterior.alpha, posterior.beta)
+		)
+	);
+	const tallest = Math.max(...curves.flat().filter(Number.isFinite));
+
+	const curveMarkup = curves
+		.map((densities, index) => {
+			const points = densities
+				.map((density, pointIndex) => {
+					const height = Number.isFinite(density) ? Math.min(density / tallest, 1) : 1;
+					return `${round(toX((grid[pointIndex] ?? 0) * 100))},${round(axisY - height * (plotHeight - 8))}`;
+				})
+				.join(" ");
+			const dash = DASH_PATTERNS[index % DASH_PATTERNS.length];
+			return `<polyline points="${points}" fill="none" stroke="${colourFor(index)}" stroke-width="2"${dash ? ` stroke-dasharray="${dash}"` : ""} />`;
+		})
+		.join("\n");
+
+	const legend = variations
+		.map((variation, index) => {
+			const y = TOP_MARGIN + index * 20 + 8;
+			const dash = DASH_PATTERNS[index % DASH_PATTERNS.length];
+			return `<line x1="4" x2="28" y1="${y}" y2="${y}" stroke="${colourFor(index)}" stroke-width="2"${dash ? ` stroke-dasharray="${dash}"` : ""} />
+<text x="34" y="${y + 4}">${escapeXML(truncateLabel(variation.name, 18))}</text>`;
+		})
+		.join("\n");
+
+	const level = `${Math.round(result.credibleLevel * 100)}%`;
+	const id = "chart-posteriors";
+	const title = "Where each variation's true conversion rate probably lies";
+	const description = `${title}, after combining the prior with the data. Overlapping curves mean the variations could easily be in either order. ${variations
+		.map(
+			(variation, index) =>
+				`${variation.name}${index === 0 ? " (control)" : ""}: most likely around ${formatPercent(variation.posteriorMean)}, ${level} credible interval ${formatPercent(variation.credibleInterval.lower)} to ${formatPercent(variation.credibleInterval.upper)}.`
+		)
+		.join(" ")}`;
+
+	return {
+		id,
+		title,
+		description,
+		svg: renderSVG(
+			id,
+			title,
+			description,
+			axisY + AXIS_HEIGHT,
+			`${renderHorizontalAxis(scale, toX, axisY, "Conversion rate", (tick) => `${tick.toFixed(decimals)}%`)}
+<g aria-hidden="true">
+${curveMarkup}
+${legend}
+</g>`
+		)
+	};
+}
+
+/**
+ * Charts for a frequentist report: rates, differences and performance tiers
+ *
+ * @param report - Report from createABTestReport()
+ * @returns Charts in reading order
+ */
+export function createReportCharts(report: ABTestReport): ResultChart[] {
+	return [
+		rateForestPlot(
+			[report.input.controlVariation, ...report.input.variations],
+			report.confidenceLevel
+		),
+		differencePlot(report.comparisons, report.confidenceLevel, report.correctionMethodName),
+		performanceTierChart(report.performanceGroups)
+	];
+}
@@ -0,0 +1,247 @@
+import type { MultipleComparisonMethod, TestSidedness } from "./types/ab-testing";
+import type { ABTestReport } from "./types/statistical-results";
+import { importVariationResults, parseDelimitedText, suggestColumnMapping } from "./csv-import";
+import { MULTIPLE_COMPARISON_METHODS } from "./multiple-comparisons";
+import { createABTestReport, formatReportAsJSON, formatReportAsText } from "./report";
+import {
+	compareTwoProportions,
+	comprehensivePairwiseAnalysis,
+	formatTwoProportionData
+} from "./statistical-tests";
+
+/**
+ * How the command line tool reads files and prints, so it can run without a real terminal
+ */
+export interface CLIEnvironment {
+	/** Reads a text file */
+	readFile: (path: string) => Promise<string>;
+	/** Prints results */
+	stdout: (text: string) => void;
+	/** Prints errors and usage */
+	stderr: (text: string) => void;
+}
+
+/**
+ * Settings for analysing a results file from the command line
+ */
+export interface CLIOptions {
+	/** Path of the CSV, TSV or semicolon-separated results file */
+	file: string;
+	/** Confidence level, e.g. 0.95 */
+	confidenceLevel: number;
+	/** Correction used when three or more variants are compared */
+	correctionMethod: MultipleComparisonMethod;
+	/** Test direction */
+	sidedness: TestSidedness;
+	/** Name of the control row (default: the first row) */
+	control?: string;
+	/** Plain-text tables or the JSON report */
+	format: "table" | "json";
+}
+
+const CORRECTION_METHODS = Object.keys(MULTIPLE_COMPARISON_METHODS) as MultipleComparisonMethod[];
+
+export const CLI_USAGE = `Usage: mobilisers-ab analyse <results.csv> [options]
+
+Analyses A/B test results with one row per variant: a name, a sample size and conversions
+(as a count or a rate). The first row is the control unless --control says otherwise.
+
+Options:
+  --confidence <level>    Confidence level: 0.8, 0.85, 0.9, 0.95 or 0.99 (default: 0.95)
+  --correction <method>   Correction for 3+ variants: ${CORRECTION_METHODS.join(", ")} (default: bonferroni)
+  --one-sided             Only look for a variant beating the control (two variants only)
+  --control <name>        Name of the control row
+  --format <format>       table or json (default: table)
+  -h, --help              Show this help
+`;
+
+/** Options that take a value, as written on the command line */
+const VALUE_OPTIONS = ["--confidence", "--correction", "--control", "--format"] as const;
+
+/**
+ * Reads the command line arguments (without "node" and the script path)
+ *
+ * @param args - e.g. ["analyse", "results.csv", "--confidence", "0.95"]
+ * @returns Options to analyse with, or the problems to fix
+ */
+export function parseCLIArguments(
+	args: string[]
+): { success: true; data: CLIOptions } | { success: false; errors: string[] } {
+	const errors: string[] = [];
+	const positional: string[] = [];
+	const values: Partial<Record<(typeof VALUE_OPTIONS)[number], string>> = {};
+	let oneSided = false;
+
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index] ?? "";
+		const [flag = "", inlineValue] = arg.startsWith("--") ? arg.split(/=(.*)/s) : [arg];
+		const valueOption = VALUE_OPTIONS.find((option) => option === flag);
+
+		if (valueOption) {
+			const value = inlineValue ?? args[++index];
+			if (value === undefined || value === "") {
+				errors.push(`${valueOption} needs a value`);
+			} else {
+				values[valueOption] = value;
+			}
+		} else if (flag === "--one-sided") {
+			oneSided = true;
+		} else if (arg.startsWith("-")) {
+			errors.push(`Unknown option ${flag}`);
+		} else {
+			positional.push(arg);
+		}
+	}
+
+	const [command, file, ...extra] = positional;
+	if (command !== "analyse" && command !== "analyze") {
+		errors.push(
+			command === undefined ? "Please give a command: analyse" : `Unknown command "${command}"`
+		);
+	} else if (file === undefined) {
+		errors.push("Please give the results file to analyse");
+	}
+	if (extra.length > 0) {
+		errors.push(`Unexpected argument "${extra[0]}"`);
+	}
+
+	// "95" and "95%" work too: percentages are converted when the input is validated
+	const confidenceLevel = Number((values["--confidence"] ?? "0.95").replace(/%$/, ""));
+	if (isNaN(confidenceLevel)) {
+		errors.push("--confidence must be a number, e.g. 0.95");
+	}
+
+	const correctionMethod = values["--correction"] ?? "bonferroni";
+	if (!CORRECTION_METHODS.some((method) => method === correctionMethod)) {
+		errors.push(`--correction must be one of ${CORRECTION_METHODS.join(", ")}`);
+	}
+
+	const format = values["--format"] ?? "table";
+	if (format !== "table" && format !== "json") {
+		errors.push("--format must be table or json");
+	}
+
+	if (errors.length > 0 || file === undefined) {
+		return { success: false, errors };
+	}
+
+	return {
+		success: true,
+		data: {
+			file,
+			confidenceLevel,
+			correctionMethod: correctionMethod as MultipleComparisonMethod,
+			sidedness: oneSided ? "one-sided" : "two-sided",
+			...(values["--control"] !== undefined ? { control: values["--control"] } : {}),
+			format: format as CLIOptions["format"]
+		}
+	};
+}
+
+/**
+ * Analyses pasted or exported results the same way the calculator does after an import
+ * Two variants get a two-proportion test; three or more get corrected pairwise comparisons
+ *
+ * @param text - CSV, TSV or semicolon-separated results with a header row
+ * @param options - Confidence level, correction, direction and control row
+ * @returns Report ready to format, or the problems to fix
+ */
+export function analyseResultsText(
+	text: string,
+	options: Omit<CLIOptions, "file" | "format">
+): { success: true; data: ABTestReport } | { success: false; errors: string[] } {
+	let table;
+	try {
+		table = parseDelimitedText(text);
+	} catch (error) {
+		return { success: false, errors: [(error as Error).message] };
+	}
+
+	const mapping = suggestColumnMapping(table.headers);
+	const controlName = options.control?.trim().toLowerCase();
+	const controlRow =
+		controlName === undefined
+			? 0
+			: table.rows.findIndex(
+					(row) => (row[mapping.name] ?? "").trim().toLowerCase() === controlName
+				);
+	if (controlRow === -1) {
+		return { success: false, errors: [`No row is named "${options.control}"`] };
+	}
+
+	const imported = importVariationResults(
+		table,
+		mapping,
+		controlRow,
+		options.confidenceLevel,
+		options.sidedness
+	);
+	if (!imported.success) {
+		return imported;
+	}
+
+	const input = imported.data;
+	const variations = [input.controlVariation, ...input.variations];
+	const [control, variation] = variations;
+	if (variations.length > 2 && input.sidedness === "one-sided") {
+		return {
+			success: false,
+			errors: [
+				"One-sided tests only compare a variant with the control, so --one-sided needs exactly two rows. Use a two-sided test to compare three or more"
+			]
+		};
+	}
+
+	const result =
+		variations.length > 2 || !control || !variation
+			? comprehensivePairwiseAnalysis(variations, input.confidenceLevel, options.correctionMethod)
+			: compareTwoProportions(
+					formatTwoProportionData(control, variation, input.confidenceLevel, input.sidedness),
+					control.name,
+					variation.name
+				);
+
+	return { success: true, data: createABTestReport(input, result) };
+}
+
+/**
+ * Runs the command line tool
+ *
+ * @param args - Command line arguments (without "node" and the script path)
+ * @param environment - How to read files and print
+ * @returns Exit code: 0 on success, 1 when the file can't be analysed, 2 for bad arguments
+ */
+export async function runCLI(args: string[], environment: CLIEnvironment): Promise<number> {
+	if (args.includes("--help") || args.includes("-h")) {
+		environment.stdout(CLI_USAGE);
+		return 0;
+	}
+
+	const options = parseCLIArguments(args);
+	if (!options.success) {
+		environment.stderr(`${options.errors.map((error) => `Error: ${error}`).join("\n")}\n\n`);
+		environment.stderr(CLI_USAGE);
+		return 2;
+	}
+
+	let text: string;
+	try {
+		text = await environment.readFile(options.data.file);
+	} catch {
+		environment.stderr(`Error: Couldn't read ${options.data.file}\n`);
+		return 1;
+	}
+
+	const analysis = analyseResultsText(text, options.data);
+	if (!analysis.success) {
+		environment.stderr(`${analysis.errors.map((error) => `Error: ${error}`).join("\n")}\n`);
+		return 1;
+	}
+
+	environment.stdout(
+		options.data.format === "json"
+			? formatReportAsJSON(analysis.data)
+			: formatReportAsText(analysis.data)
+	);
+	return 0;
+}
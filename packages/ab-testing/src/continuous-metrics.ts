@@ -0,0 +1,313 @@
+import jStat from "jstat";
+import type {
+	ContinuousMetricSample,
+	ContinuousMetricSummary,
+	ContinuousMetricTestData
+} from "./types/ab-testing";
+import type { ContinuousMetricResult } from "./types/statistical-results";
+import { createRandomGenerator, sampleBinomial, type RandomGenerator } from "./random";
+
+type TwoSampleValues = {
+	control: number[];
+	variation: number[];
+	/** Non-givers in each group, analysed as zeros without adding one entry per visitor */
+	nonGivers?: { control: number; variation: number };
+};
+
+/** Default number of bootstrap resamples: enough for stable 95% percentile intervals */
+export const DEFAULT_BOOTSTRAP_RESAMPLES = 2000;
+
+/** Fixed seed so the same data always gives the same bootstrap interval */
+const DEFAULT_BOOTSTRAP_SEED = 20240601;
+
+/**
+ * Counts the visitors who didn't give: those beyond the number of values, analysed as zeros
+ *
+ * @param sample - Raw values and optional visitor count
+ * @returns Number of non-givers
+ */
+export function countNonGivers(sample: ContinuousMetricSample): number {
+	return Math.max(0, (sample.visitors ?? sample.values.length) - sample.values.length);
+}
+
+/**
+ * Calculates count, mean and sample standard deviation for a list of values
+ *
+ * @param name - Display name for the group
+ * @param values - Observations
+ * @param zeros - Extra observations of zero, such as non-givers (default: 0)
+ * @returns Summary statistics
+ */
+export function summariseValues(
+	name: string,
+	values: number[],
+	zeros: number = 0
+): ContinuousMetricSummary {
+	const count = values.length + zeros;
+	const mean = count > 0 ? values.reduce((sum, value) => sum + value, 0) / count : 0;
+	const sumOfSquares =
+		values.reduce((sum, value) => sum + (value - mean) ** 2, 0) + zeros * mean ** 2;
+
+	return {
+		name,
+		count,
+		mean,
+		standardDeviation: count > 1 ? Math.sqrt(sumOfSquares / (count - 1)) : 0
+	};
+}
+
+/**
+ * Performs Welch's unequal-variance t-test on two groups' summary statistics
+ *
+ * WHAT THIS DOES (for novices):
+ * Tells you whether the difference in average gift (or revenue per visitor) between two versions
+ * is bigger than you'd expect from the natural ups and downs of individual gift sizes.
+ *
+ * HOW IT WORKS (for experts):
+ * - t = (x̄₂ − x̄₁) / √(s₁²/n₁ + s₂²/n₂), no equal-variance assumption
+ * - Welch–Satterthwaite degrees of freedom
+ * - Two-sided p-value and confidence interval from the t distribution
+ *
+ * @param control - Control group summary
+ * @param variation - Variation group summary
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @returns Welch test results with the difference in means and its confidence interval
+ */
+export function welchTTest(
+	control: ContinuousMetricSummary,
+	variation: ContinuousMetricSummary,
+	confidenceLevel: number
+): ContinuousMetricResult {
+	if (control.count < 2 || variation.count < 2) {
+		throw new Error("Welch's t-test needs at least 2 observations per group");
+	}
+
+	const controlVarianceOfMean = control.standardDeviation ** 2 / control.count;
+	const variationVarianceOfMean = variation.standardDeviation ** 2 / variation.count;
+	const standardError = Math.sqrt(controlVarianceOfMean + variationVarianceOfMean);
+	const difference = variation.mean - control.mean;
+
+	// Welch–Satterthwaite approximation; with no variance at all fall back to the pooled df
+	const degreesOfFreedom =
+		standardError === 0
+			? control.count + variation.count - 2
+			: (controlVarianceOfMean + variationVarianceOfMean) ** 2 /
+				(controlVarianceOfMean ** 2 / (control.count - 1) +
+					variationVarianceOfMean ** 2 / (variation.count - 1));
+
+	const tStatistic = standardError === 0 ? 0 : difference / standardError;
+	const pValue =
+		standardError === 0 ? 1 : 2 * (1 - jStat.studentt.cdf(Math.abs(tStatistic), degreesOfFreedom));
+
+	const alpha = 1 - confidenceLevel;
+	const criticalValue = jStat.studentt.inv(1 - alpha / 2, degreesOfFreedom);
+	const marginOfError = criticalValue * standardError;
+
+	return {
+		isSignificant: pValue < alpha,
+		pValue,
+		confidenceLevel,
+		testStatistic: tStatistic,
+		degreesOfFreedom,
+		control: { ...control },
+		variation: { ...variation },
+		difference: {
+			absolute: difference,
+			relative: control.mean !== 0 ? (difference / control.mean) * 100 : null,
+			confidenceInterval: {
+				lower: difference - marginOfError,
+				upper: difference + marginOfError
+			}
+		},
+		mannWhitney: null,
+		bootstrap: null
+	};
+}
+
+/**
+ * Performs a two-sided Mann–Whitney U test (Wilcoxon rank-sum test)
+ *
+ * WHAT THIS DOES (for novices):
+ * Gift amounts are lopsided: most people give a little, a few give a lot. One big gift can swing
+ * an average. This test only looks at which group's gifts tend to rank higher, so one outlier
+ * can't decide the result on its own.
+ *
+ * HOW IT WORKS (for experts):
+ * - Ranks the pooled sample (average ranks for ties); U₂ = R₂ − n₂(n₂ + 1)/2
+ * - Non-givers join the tie at zero as one weighted group, so their rank costs nothing extra
+ * - Normal approximation with tie-corrected variance and continuity correction
+ *   (matches R's wilcox.test(exact = FALSE, correct = TRUE))
+ *
+ * @param values - Control and variation observations
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @returns U statistic, z-score, p-value and probability of superiority
+ */
+export function mannWhitneyTest(
+	values: TwoSampleValues,
+	confidenceLevel: number
+): NonNullable<ContinuousMetricResult["mannWhitney"]> {
+	const nonGivers = values.nonGivers ?? { control: 0, variation: 0 };
+	const n1 = values.control.length + nonGivers.control;
+	const n2 = values.variation.length + nonGivers.variation;
+	if (n1 === 0 || n2 === 0) {
+		throw new Error("Mann–Whitney test needs at least 1 observation per group");
+	}
+
+	const pooled = [
+		...values.control.map((value) => ({ value, isVariation: false, count: 1 })),
+		...values.variation.map((value) => ({ value, isVariation: true, count: 1 })),
+		{ value: 0, isVariation: false, count: nonGivers.control },
+		{ value: 0, isVariation: true, count: nonGivers.variation }
+	]
+		.filter((entry) => entry.count > 0)
+		.sort((a, b) => a.value - b.value);
+
+	// Assign average ranks to ties and collect tie sizes for the variance correction
+	let variationRankSum = 0;
+	let tieCorrection = 0;
+	let ranked = 0;
+	let start = 0;
+	while (start < pooled.length) {
+		let end = start;
+		let tieSize = pooled[start]?.count ?? 0;
+		while (end + 1 < pooled.length && pooled[end + 1]?.value === pooled[start]?.value) {
+			end++;
+			tieSize += pooled[end]?.count ?? 0;
+		}
+		const averageRank = ranked + (tieSize + 1) / 2; // ranks are 1-based
+		for (let index = start; index <= end; index++) {
+			const entry = pooled[index];
+			if (entry?.isVariation) {
+				variationRankSum += averageRank * entry.count;
+			}
+		}
+		tieCorrection += tieSize ** 3 - tieSize;
+		ranked += tieSize;
+		start = end + 1;
+	}
+
+	const total = n1 + n2;
+	const uStatistic = variationRankSum - (n2 * (n2 + 1)) / 2;
+	const meanU = (n1 * n2) / 2;
+	const varianceU = ((n1 * n2) / 12) * (total + 1 - tieCorrection / (total * (total - 1)));
+
+	const deviation = uStatistic - meanU;
+	const zScore =
+		varianceU > 0 ? (deviation - 0.5 * Math.sign(deviation)) / Math.sqrt(varianceU) : 0;
+	const pValue =
+		varianceU > 0 ? Math.min(1, 2 * (1 - jStat.normal.cdf(Math.abs(zScore), 0, 1))) : 1;
+
+	return {
+		uStatistic,
+		zScore,
+		pValue,
+		isSignificant: pValue < 1 - confidenceLevel,
+		probabilityOfSuperiority: uStatistic / (n1 * n2)
+	};
+}
+
+/**
+ * Percentile bootstrap confidence interval for the difference in means
+ *
+ * WHAT THIS DOES (for novices):
+ * Re-runs your test thousands of times on reshuffled copies of your own data to see how much the
+ * difference in averages could vary, without assuming gifts follow a bell curve.
+ *
+ * HOW IT WORKS (for experts):
+ * - Resamples each group with replacement, B times
+ * - Non-givers are drawn as a binomial count of zeros, so only the gifts are resampled one by one
+ * - Interval from the α/2 and 1 − α/2 percentiles of the B mean differences
+ * - Seeded generator so results are reproducible
+ *
+ * @param values - Control and variation observations
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @param resamples - Number of bootstrap resamples (default: 2000)
+ * @param random - Random generator (default: seeded)
+ * @returns Bootstrap interval for the difference (variation − control)
+ */
+export function bootstrapMeanDifference(
+	values: TwoSampleValues,
+	confidenceLevel: number,
+	resamples: number = DEFAULT_BOOTSTRAP_RESAMPLES,
+	random: RandomGenerator = createRandomGenerator(DEFAULT_BOOTSTRAP_SEED)
+): NonNullable<ContinuousMetricResult["bootstrap"]> {
+	const nonGivers = values.nonGivers ?? { control: 0, variation: 0 };
+	if (
+		values.control.length + nonGivers.control === 0 ||
+		values.variation.length + nonGivers.variation === 0
+	) {
+		throw new Error("Bootstrap needs at least 1 observation per group");
+	}
+
+	const resampleMean = (sample: number[], zeros: number): number => {
+		const size = sample.length + zeros;
+		const draws = size - sampleBinomial(size, zeros / size, random);
+		let sum = 0;
+		for (let i = 0; i < draws; i++) {
+			sum += sample[Math.floor(random() * sample.length)] ?? 0;
+		}
+		return sum / size;
+	};
+
+	const differences: number[] = [];
+	for (let b = 0; b < resamples; b++) {
+		differences.push(
+			resampleMean(values.variation, nonGivers.variation) -
+				resampleMean(values.control, nonGivers.control)
+		);
+	}
+	differences.sort((a, b) => a - b);
+
+	const alpha = 1 - confidenceLevel;
+	const percentile = (p: number): number => {
+		const index = Math.min(differences.length - 1, Math.max(0, Math.floor(p * differences.length)));
+		return differences[index] ?? 0;
+	};
+
+	return {
+		resamples,
+		confidenceInterval: {
+			lower: percentile(alpha / 2),
+			upper: percentile(1 - alpha / 2)
+		}
+	};
+}
+
+/**
+ * Compares a continuous metric between control and variation
+ *
+ * WHAT THIS DOES (for novices):
+ * For fundraising tests judged on average gift or revenue per visitor rather than a yes/no
+ * conversion. Enter summary numbers from your reports, or paste the individual gift amounts for
+ * extra checks that aren't thrown by a few unusually large gifts.
+ *
+ * @param data - Summary statistics or raw values for both groups, plus confidence level
+ * @returns Welch t-test results, with Mann–Whitney and bootstrap checks for raw values
+ */
+export function continuousMetricTest(data: ContinuousMetricTestData): ContinuousMetricResult {
+	if (data.inputType === "summary") {
+		return welchTTest(data.control, data.variation, data.confidenceLevel);
+	}
+
+	const nonGivers = {
+		control: countNonGivers(data.control),
+		variation: countNonGivers(data.variation)
+	};
+	const values: TwoSampleValues = {
+		control: data.control.values,
+		variation: data.variation.values,
+		nonGivers
+	};
+
+	const welchResult = welchTTest(
+		summariseValues(data.control.name, values.control, nonGivers.control),
+		summariseValues(data.variation.name, values.variation, nonGivers.variation),
+		data.confidenceLevel
+	);
+
+	return {
+		...welchResult,
+		mannWhitney: mannWhitneyTest(values, data.confidenceLevel),
+		bootstrap: bootstrapMeanDifference(values, data.confidenceLevel)
+	};
+}
@@ -0,0 +1,230 @@
+import type {
+	ABTestInput,
+	DelimitedTable,
+	ImportColumnMapping,
+	ImportedConversionFormat,
+	TestSidedness
+} from "./types/ab-testing";
+import { sanitiseABTestInput, validateABTestInput } from "./validation";
+
+const DELIMITERS: DelimitedTable["delimiter"][] = ["\t", ";", ","];
+
+/**
+ * Human-readable description of a conversion column format, for the mapping step
+ */
+export const CONVERSION_FORMAT_LABELS: Record<ImportedConversionFormat, string> = {
+	count: "Number of conversions",
+	rate: "Conversion rate (%)"
+};
+
+/** Summary rows that reporting tools add below the variants */
+const TOTAL_ROW_PATTERN = /^(grand\s+)?totals?$/i;
+
+/**
+ * Column-name patterns used to guess the mapping, most specific first
+ * Covers Mailchimp campaign reports, Google Analytics explorations and Impact Stack exports
+ */
+const COLUMN_PATTERNS = {
+	name: /^(variant|variation|version|arm|group|test group|campaign|campaign name|subject( line)?|name|experiment variant)$/i,
+	visitors:
+		/^(visitors|sessions|users|total users|active users|recipients|emails sent|sent|delivered|successful deliveries|sample size|impressions|views|page views)$/i,
+	conversions:
+		/^(conversions|key events|clicks|unique clicks|total clicks|opens|unique opens|donations|signatures|actions|submissions|transactions|purchases|completions)$/i,
+	conversionRate: /(conversion|click|open|action|session key event) rate/i
+};
+
+/**
+ * Splits one line into cells, honouring double-quoted fields ("Smith, J" and "say ""hi""")
+ */
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+	const cells: string[] = [];
+	let cell = "";
+	let inQuotes = false;
+
+	for (let index = 0; index < line.length; index++) {
+		const character = line[index];
+
+		if (inQuotes) {
+			if (character === '"' && line[index + 1] === '"') {
+				cell += '"';
+				index++;
+			} else if (character === '"') {
+				inQuotes = false;
+			} else {
+				cell += character;
+			}
+		} else if (character === '"') {
+			inQuotes = true;
+		} else if (character === delimiter) {
+			cells.push(cell.trim());
+			cell = "";
+		} else {
+			cell += character;
+		}
+	}
+
+	cells.push(cell.trim());
+	return cells;
+}
+
+/**
+ * Picks the separator that splits the header row into the most columns (tabs win ties)
+ */
+function detectDelimiter(headerLine: string): DelimitedTable["delimiter"] {
+	let best: DelimitedTable["delimiter"] = ",";
+	let bestCount = 0;
+
+	for (const delimiter of DELIMITERS) {
+		const count = splitDelimitedLine(headerLine, delimiter).length - 1;
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Reads CSV or TSV text pasted from a spreadsheet or exported from a reporting tool
+ *
+ * WHAT THIS DOES (for novices):
+ * Works out whether columns are separated by commas, tabs or semicolons, then reads the first
+ * row as column names and the rest as data. Blank lines and "#" comment lines (which Google
+ * Analytics adds to the top of its exports) are ignored.
+ *
+ * @param text - Pasted or uploaded text
+ * @returns Detected separator, column names and data rows
+ * @throws Error when there's no header row or no data
+ */
+export function parseDelimitedText(text: string): DelimitedTable {
+	const lines = text
+		.replace(/^\uFEFF/, "")
+		.split(/\r\n|\n|\r/)
+		.filter((line) => line.trim() !== "" && !line.trim().startsWith("#"));
+
+	const [headerLine, ...dataLines] = lines;
+	if (headerLine === undefined || dataLines.length === 0) {
+		throw new Error(
+			"Please paste a header row (e.g. Variant, Visitors, Conversions) and at least one row of results"
+		);
+	}
+
+	const delimiter = detectDelimiter(headerLine);
+	const headers = splitDelimitedLine(headerLine, delimiter);
+	const rows = dataLines.map((line) => {
+		const cells = splitDelimitedLine(line, delimiter);
+		return headers.map((_, index) => cells[index] ?? "");
+	});
+
+	return { delimiter, headers, rows };
+}
+
+/**
+ * Guesses which columns hold names, sample sizes and conversions from their headers
+ *
+ * @param headers - Column names
+ * @returns Suggested mapping; falls back to the first three columns
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+	const find = (pattern: RegExp, fallback: number): number => {
+		const index = headers.findIndex((header) => pattern.test(header.trim()));
+		return index === -1 ? Math.min(fallback, headers.length - 1) : index;
+	};
+
+	const conversionsIndex = headers.findIndex((header) =>
+		COLUMN_PATTERNS.conversions.test(header.trim())
+	);
+	const rateIndex = headers.findIndex((header) =>
+		COLUMN_PATTERNS.conversionRate.test(header.trim())
+	);
+	const useRate = conversionsIndex === -1 && rateIndex !== -1;
+
+	return {
+		name: find(COLUMN_PATTERNS.name, 0),
+		visitors: find(COLUMN_PATTERNS.visitors, 1),
+		conversions: useRate ? rateIndex : find(COLUMN_PATTERNS.conversions, 2),
+		conversionFormat: useRate ? "rate" : "count"
+	};
+}
+
+/**
+ * Turns a rate cell ("12.5%", "12.5" or "0.125") into a conversion count for the row's sample size
+ * Numbers above 1 without a % sign are read as percentages
+ */
+function conversionsFromRate(rateCell: string, visitorsCell: string): string {
+	const rate = Number(rateCell.replace(/[%,\s]/g, ""));
+	const visitors = Number(visitorsCell.replace(/[,\s]/g, ""));
+	if (!Number.isFinite(rate) || !Number.isFinite(visitors) || rateCell.trim() === "") {
+		return rateCell;
+	}
+
+	const asDecimal = rateCell.includes("%") || rate > 1 ? rate / 100 : rate;
+	return String(Math.round(asDecimal * visitors));
+}
+
+/**
+ * Builds calculator input from an imported table
+ *
+ * WHAT THIS DOES (for novices):
+ * Takes the columns you matched up and the row you picked as your control, and turns every other
+ * row into a variant. Numbers such as "12,500" are cleaned up, and "Total" rows are skipped. Then
+ * the same checks as typing the numbers in by hand are applied.
+ *
+ * @param table - Parsed CSV/TSV
+ * @param mapping - Which column holds each value
+ * @param controlRow - Index of the control row in table.rows
+ * @param confidenceLevel - Confidence level currently chosen in the calculator
+ * @param sidedness - Test direction chosen in the calculator, or null if not chosen yet
+ * @returns Validated calculator input, or the problems to fix
+ */
+export function importVariationResults(
+	table: DelimitedTable,
+	mapping: ImportColumnMapping,
+	controlRow: number,
+	confidenceLevel: number,
+	sidedness: TestSidedness | null
+): { success: true; data: ABTestInput } | { success: false; errors: string[] } {
+	const toVariation = (row: string[]): Record<string, string> => {
+		const visitors = row[mapping.visitors] ?? "";
+		const conversions = row[mapping.conversions] ?? "";
+		return {
+			name: row[mapping.name] ?? "",
+			visitors,
+			conversions:
+				mapping.conversionFormat === "rate"
+					? conversionsFromRate(conversions, visitors)
+					: conversions
+		};
+	};
+
+	const control = table.rows[controlRow];
+	if (!control) {
+		return { success: false, errors: ["Please choose which row is your control"] };
+	}
+
+	const variations = table.rows.filter(
+		(row, index) =>
+			index !== controlRow && !TOTAL_ROW_PATTERN.test((row[mapping.name] ?? "").trim())
+	);
+
+	const names = [control, ...variations].map((row) => (row[mapping.name] ?? "").trim());
+	const duplicate = names.find((name, index) => name !== "" && names.indexOf(name) !== index);
+	if (duplicate !== undefined) {
+		return {
+			success: false,
+			errors: [
+				`"${duplicate}" appears more than once. Each variant needs a different name; check you've chosen the right name column`
+			]
+		};
+	}
+
+	return validateABTestInput(
+		sanitiseABTestInput({
+			controlVariation: toVariation(control),
+			variations: variations.map(toVariation),
+			confidenceLevel,
+			...(sidedness ? { sidedness } : {})
+		})
+	);
+}
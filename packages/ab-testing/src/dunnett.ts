@@ -0,0 +1,170 @@
+import jStat from "jstat";
+import type { TestSidedness, TestVariation } from "./types/ab-testing";
+import type { DunnettResult, ManyToOneComparison } from "./types/statistical-results";
+
+/** Integration range and resolution for the shared-control normal variable */
+const INTEGRATION_LIMIT = 8;
+const INTEGRATION_STEPS = 800;
+
+/** Largest correlation loading used, so a zero-variance arm can't cause a division by zero */
+const MAXIMUM_LOADING = 0.999999;
+
+/**
+ * Probability that every |Zᵢ| (two-sided) or every Zᵢ (one-sided) stays below the critical value c
+ *
+ * HOW IT WORKS (for experts):
+ * Each comparison shares the control, so Zᵢ = λᵢ Z₀ + √(1 − λᵢ²) εᵢ with independent εᵢ.
+ * Conditioning on Z₀ makes the comparisons independent, which reduces the k-dimensional
+ * normal probability to a one-dimensional integral (trapezoid rule over Z₀).
+ */
+function simultaneousCoverage(
+	criticalValue: number,
+	loadings: number[],
+	sidedness: TestSidedness
+): number {
+	const stepSize = (2 * INTEGRATION_LIMIT) / INTEGRATION_STEPS;
+	let total = 0;
+
+	for (let step = 0; step <= INTEGRATION_STEPS; step++) {
+		const z = -INTEGRATION_LIMIT + step * stepSize;
+		const weight = step === 0 || step === INTEGRATION_STEPS ? 0.5 : 1;
+
+		const conditionalCoverage = loadings.reduce((product, loading) => {
+			const residualScale = Math.sqrt(1 - loading * loading);
+			const upper = jStat.normal.cdf((criticalValue - loading * z) / residualScale, 0, 1);
+			const lower =
+				sidedness === "one-sided"
+					? 0
+					: jStat.normal.cdf((-criticalValue - loading * z) / residualScale, 0, 1);
+			return product * (upper - lower);
+		}, 1);
+
+		total += weight * Math.exp(-(z * z) / 2) * conditionalCoverage;
+	}
+
+	return (total * stepSize) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Finds the Dunnett critical value for the given correlation loadings
+ *
+ * @param loadings - λᵢ for each comparison (correlation between comparisons i and j is λᵢλⱼ)
+ * @param confidenceLevel - Simultaneous confidence level (e.g. 0.95)
+ * @param sidedness - "two-sided" (default) or "one-sided"
+ * @returns Critical value c with P(max |Zᵢ| ≤ c), or P(max Zᵢ ≤ c), equal to confidenceLevel
+ */
+export function dunnettCriticalValue(
+	loadings: number[],
+	confidenceLevel: number,
+	sidedness: TestSidedness = "two-sided"
+): number {
+	let low = 0;
+	let high = 10;
+
+	// Bisection: coverage increases monotonically with the critical value
+	for (let iteration = 0; iteration < 60; iteration++) {
+		const middle = (low + high) / 2;
+		if (simultaneousCoverage(middle, loadings, sidedness) < confidenceLevel) {
+			low = middle;
+		} else {
+			high = middle;
+		}
+	}
+
+	return (low + high) / 2;
+}
+
+/**
+ * Dunnett-style many-to-one comparisons: each variation against the control
+ *
+ * WHAT THIS DOES (for novices):
+ * Usually you only care whether each new version beats your control, not how the new versions
+ * compare with each other. Testing only those comparisons needs a smaller correction than testing
+ * every pair, so you're more likely to spot a real winner. The ranges shown hold for all
+ * variants at once: with 95% confidence, every true difference lies inside its range.
+ *
+ * HOW IT WORKS (for experts):
+ * - Differences dᵢ = pᵢ − p₀ with unpooled variances vᵢ = pᵢ(1 − pᵢ)/nᵢ
+ * - Comparisons share the control estimate, so corr(Zᵢ, Zⱼ) = λᵢλⱼ with λᵢ = √(v₀ / (v₀ + vᵢ))
+ * - Critical value c solves P(max |Zᵢ| ≤ c) = 1 − α for that multivariate normal
+ *   (Dunnett's procedure with infinite degrees of freedom, appropriate for large-sample proportions)
+ * - Simultaneous intervals: dᵢ ± c·SEᵢ; single-step adjusted p-values: 1 − P(max |Z| ≤ |zᵢ|)
+ * - One-sided (variations better than control): c solves P(max Zᵢ ≤ c) = 1 − α, adjusted
+ *   p-values are 1 − P(max Z ≤ zᵢ), and the interval lower limits are simultaneous bounds
+ *
+ * @param variations - Array starting with control, followed by test variations
+ * @param confidenceLevel - Simultaneous confidence level (e.g. 0.95)
+ * @param sidedness - "two-sided" (default) or "one-sided"
+ * @returns Each variation's difference from control with simultaneous intervals and adjusted p-values
+ */
+export function dunnettComparisons(
+	variations: TestVariation[],
+	confidenceLevel: number,
+	sidedness: TestSidedness = "two-sided"
+): DunnettResult {
+	const [control, ...testVariations] = variations;
+	if (!control || testVariations.length === 0) {
+		throw new Error("Many-to-one comparisons need a control and at least one variation");
+	}
+
+	const rate = (variation: TestVariation): number => variation.conversions / variation.visitors;
+	const variance = (variation: TestVariation): number =>
+		(rate(variation) * (1 - rate(variation))) / variation.visitors;
+
+	const controlRate = rate(control);
+	const controlVariance = variance(control);
+
+	const loadings = testVariations.map((variation) => {
+		const totalVariance = controlVariance + variance(variation);
+		return totalVariance === 0
+			? 0
+			: Math.min(Math.sqrt(controlVariance / totalVariance), MAXIMUM_LOADING);
+	});
+
+	const criticalValue = dunnettCriticalValue(loadings, confidenceLevel, sidedness);
+	const alpha = 1 - confidenceLevel;
+
+	const comparisons: ManyToOneComparison[] = testVariations.map((variation) => {
+		const variationRate = rate(variation);
+		const difference = variationRate - controlRate;
+		const standardError = Math.sqrt(controlVariance + variance(variation));
+		const testStatistic = standardError === 0 ? 0 : difference / standardError;
+		const observedStatistic = sidedness === "one-sided" ? testStatistic : Math.abs(testStatistic);
+		const adjustedPValue =
+			standardError === 0
+				? 1
+				: Math.min(
+						1,
+						Math.max(0, 1 - simultaneousCoverage(observedStatistic, loadings, sidedness))
+					);
+
+		return {
+			name: variation.name,
+			visitors: variation.visitors,
+			conversions: variation.conversions,
+			conversionRate: variationRate,
+			difference,
+			standardError,
+			testStatistic,
+			adjustedPValue,
+			isSignificant: adjustedPValue < alpha,
+			simultaneousInterval: {
+				lower: difference - criticalValue * standardError,
+				upper: difference + criticalValue * standardError
+			}
+		};
+	});
+
+	return {
+		confidenceLevel,
+		criticalValue,
+		sidedness,
+		control: {
+			name: control.name,
+			visitors: control.visitors,
+			conversions: control.conversions,
+			conversionRate: controlRate
+		},
+		comparisons
+	};
+}
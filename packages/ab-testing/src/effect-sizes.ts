@@ -0,0 +1,137 @@
+import type { TwoProportionTestData } from "./types/ab-testing";
+import type { RatioEstimate } from "./types/statistical-results";
+import { criticalValueFor } from "./sample-size";
+
+/**
+ * Adds 0.5 to every cell of the 2×2 table when any cell is 0 (Haldane–Anscombe), so ratios and
+ * their logs are defined
+ */
+function correctedCells(data: TwoProportionTestData): {
+	x1: number;
+	n1: number;
+	x2: number;
+	n2: number;
+} {
+	const { n1, x1, n2, x2 } = data;
+	const hasEmptyCell = x1 === 0 || x2 === 0 || x1 === n1 || x2 === n2;
+
+	return hasEmptyCell ? { x1: x1 + 0.5, n1: n1 + 1, x2: x2 + 0.5, n2: n2 + 1 } : { x1, n1, x2, n2 };
+}
+
+/** Estimate with a log-scale Wald interval: exp(ln θ ± z·SE) */
+const logScaleEstimate = (
+	logEstimate: number,
+	standardError: number,
+	confidenceLevel: number
+): RatioEstimate => {
+	const margin = criticalValueFor(1 - confidenceLevel, "two-sided") * standardError;
+	return {
+		estimate: Math.exp(logEstimate),
+		interval: {
+			lower: Math.exp(logEstimate - margin),
+			upper: Math.exp(logEstimate + margin)
+		}
+	};
+};
+
+/**
+ * Cohen's h for the difference between two conversion rates (variation − control)
+ *
+ * WHAT THIS DOES (for novices):
+ * A 1-point rise means a lot more on a 2% baseline than on a 40% one. Cohen's h puts differences
+ * on one scale, so tests on very different baselines can be compared. Roughly, 0.2 is a small
+ * effect, 0.5 medium and 0.8 large; most campaign tests are well under 0.2.
+ *
+ * HOW IT WORKS (for experts):
+ * h = 2·arcsin√p₂ − 2·arcsin√p₁, the difference on the variance-stabilising arcsine scale.
+ * Positive when the variation converts better
+ *
+ * @param controlRate - Control conversion rate (decimal)
+ * @param variationRate - Variation conversion rate (decimal)
+ * @returns Cohen's h
+ */
+export function cohensH(controlRate: number, variationRate: number): number {
+	return 2 * Math.asin(Math.sqrt(variationRate)) - 2 * Math.asin(Math.sqrt(controlRate));
+}
+
+/**
+ * Odds ratio (variation ÷ control) with a Woolf (log) confidence interval
+ *
+ * HOW IT WORKS (for experts):
+ * - OR = (x₂/(n₂−x₂)) ÷ (x₁/(n₁−x₁)), SE(ln OR) = √(1/x₁ + 1/(n₁−x₁) + 1/x₂ + 1/(n₂−x₂))
+ * - When any cell is 0, 0.5 is added to every cell (Haldane–Anscombe) for the estimate and interval
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @returns Odds ratio and interval (1 = no difference)
+ */
+export function oddsRatio(data: TwoProportionTestData): RatioEstimate {
+	const { x1, n1, x2, n2 } = correctedCells(data);
+	const [failures1, failures2] = [n1 - x1, n2 - x2];
+
+	return logScaleEstimate(
+		Math.log((x2 / failures2) * (failures1 / x1)),
+		Math.sqrt(1 / x1 + 1 / failures1 + 1 / x2 + 1 / failures2),
+		data.confidenceLevel
+	);
+}
+
+/**
+ * Risk ratio (variation rate ÷ control rate) with a Katz (log) confidence interval
+ *
+ * WHAT THIS DOES (for novices):
+ * How many times more likely someone was to convert with the variation. 1.2 means 20% more
+ * likely; it's the relative improvement written as a multiple.
+ *
+ * HOW IT WORKS (for experts):
+ * - RR = p̂₂ ÷ p̂₁, SE(ln RR) = √((1−p̂₁)/x₁ + (1−p̂₂)/x₂), matching relativeLiftInterval()
+ * - When any cell is 0, 0.5 is added to every cell (Haldane–Anscombe) for the estimate and interval
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @returns Risk ratio and interval (1 = no difference)
+ */
+export function riskRatio(data: TwoProportionTestData): RatioEstimate {
+	const { x1, n1, x2, n2 } = correctedCells(data);
+	const [p1, p2] = [x1 / n1, x2 / n2];
+
+	return logScaleEstimate(
+		Math.log(p2 / p1),
+		Math.sqrt((1 - p1) / x1 + (1 - p2) / x2),
+		data.confidenceLevel
+	);
+}
+
+/**
+ * Number needed to treat: how many people to send the variation to for one extra conversion
+ *
+ * WHAT THIS DOES (for novices):
+ * Turns a difference into something you can plan with. A 0.5-point lift means one extra donor
+ * for every 200 people who get the new version.
+ *
+ * @param absoluteDifference - Variation rate − control rate (decimal)
+ * @returns 1 ÷ difference: negative when the variation converts worse (people per conversion
+ * lost), or null when the rates are equal
+ */
+export function numberNeededToTreat(absoluteDifference: number): number | null {
+	return absoluteDifference === 0 ? null : 1 / absoluteDifference;
+}
+
+/**
+ * Cramér's V for a k × 2 table of conversions and non-conversions
+ *
+ * WHAT THIS DOES (for novices):
+ * The chi-square test says whether variants differ; Cramér's V says by how much, from 0 (no
+ * association) to 1. Like Cohen's h it doesn't grow with sample size, so it can be compared
+ * between tests. Around 0.1 is small, 0.3 medium and 0.5 large.
+ *
+ * HOW IT WORKS (for experts):
+ * V = √(χ² ÷ (N × (min(rows, columns) − 1))); with two outcome columns this is √(χ²/N)
+ *
+ * @param chiSquareStatistic - Pearson χ² for the table
+ * @param total - Total visitors across all groups
+ * @param groups - Number of groups (rows)
+ * @returns Cramér's V between 0 and 1
+ */
+export function cramersV(chiSquareStatistic: number, total: number, groups: number): number {
+	const smallerDimension = Math.min(groups, 2);
+	return Math.sqrt(chiSquareStatistic / (total * (smallerDimension - 1)));
+}
@@ -0,0 +1,66 @@
+import jStat from "jstat";
+import type { TestSidedness, TwoProportionTestData } from "./types/ab-testing";
+
+type TwoByTwoCounts = Pick<TwoProportionTestData, "n1" | "x1" | "n2" | "x2">;
+
+/** Relative tolerance when comparing table probabilities (same as R's fisher.test) */
+const RELATIVE_TOLERANCE = 1 + 1e-7;
+
+function logChoose(n: number, k: number): number {
+	return jStat.gammaln(n + 1) - jStat.gammaln(k + 1) - jStat.gammaln(n - k + 1);
+}
+
+/**
+ * P-value from Fisher's exact test on a 2×2 table
+ *
+ * WHAT THIS DOES (for novices):
+ * The usual z-test relies on an approximation that breaks down when there are only a handful of
+ * conversions (common for SMS and small email lists). Fisher's test counts every possible way the
+ * conversions could have been split between the groups, so it stays accurate with tiny numbers.
+ *
+ * HOW IT WORKS (for experts):
+ * - Conditions on both margins: total conversions K and group sizes n₁, n₂
+ * - Under H₀ the control's conversions follow a hypergeometric distribution
+ *   P(X = k) = C(n₁, k) C(n₂, K − k) / C(n₁ + n₂, K)
+ * - Two-sided p-value: sum of P(X = k) over all tables no more likely than the observed one
+ * - One-sided p-value (variation better): P(X ≤ x₁), as fewer control conversions favour the variation
+ * - Computed in log space so it is stable for large group sizes
+ *
+ * @param data - Sample sizes and conversion counts for control (n1, x1) and variation (n2, x2)
+ * @param sidedness - "two-sided" (default) or "one-sided"
+ * @returns Exact p-value
+ */
+export function fisherExactPValue(
+	data: TwoByTwoCounts,
+	sidedness: TestSidedness = "two-sided"
+): number {
+	const { n1, x1, n2, x2 } = data;
+	const totalConversions = x1 + x2;
+	const totalVisitors = n1 + n2;
+
+	const minimum = Math.max(0, totalConversions - n2);
+	const maximum = Math.min(totalConversions, n1);
+	const logDenominator = logChoose(totalVisitors, totalConversions);
+	const logProbability = (k: number): number =>
+		logChoose(n1, k) + logChoose(n2, totalConversions - k) - logDenominator;
+
+	let pValue = 0;
+
+	if (sidedness === "one-sided") {
+		for (let k = minimum; k <= x1; k++) {
+			pValue += Math.exp(logProbability(k));
+		}
+		return Math.min(pValue, 1);
+	}
+
+	const observedLogProbability = logProbability(x1) + Math.log(RELATIVE_TOLERANCE);
+
+	for (let k = minimum; k <= maximum; k++) {
+		const tableLogProbability = logProbability(k);
+		if (tableLogProbability <= observedLogProbability) {
+			pValue += Math.exp(tableLogProbability);
+		}
+	}
+
+	return Math.min(pValue, 1);
+}
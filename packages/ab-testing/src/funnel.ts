@@ -0,0 +1,125 @@
+import type { FunnelTestData, MultipleComparisonMethod, TestVariation } from "./types/ab-testing";
+import type { FunnelAnalysisResult, FunnelStepResult } from "./types/statistical-results";
+import {
+	chiSquareTest,
+	compareTwoProportions,
+	comprehensivePairwiseAnalysis,
+	formatTwoProportionData,
+	tiersForTwoProportionResult
+} from "./statistical-tests";
+
+/**
+ * Tests one stage of the funnel with the same engines as a single-step test
+ */
+function analyseStage(
+	fromStep: string,
+	toStep: string,
+	variations: TestVariation[],
+	confidenceLevel: number,
+	correctionMethod: MultipleComparisonMethod
+): FunnelStepResult {
+	const ratedVariations = variations.map((variation) => ({
+		...variation,
+		conversionRate: variation.conversions / variation.visitors
+	}));
+	const [control, variation] = variations;
+
+	if (variations.length === 2 && control && variation) {
+		const comparison = compareTwoProportions(
+			formatTwoProportionData(control, variation, confidenceLevel),
+			control.name,
+			variation.name
+		);
+		return {
+			fromStep,
+			toStep,
+			variations: ratedVariations,
+			overallTest: null,
+			comparisons: [comparison],
+			pValue: comparison.pValue,
+			isSignificant: comparison.isSignificant,
+			performanceGroups: tiersForTwoProportionResult(comparison)
+		};
+	}
+
+	const overallTest = chiSquareTest(variations, confidenceLevel);
+	const analysis = comprehensivePairwiseAnalysis(variations, confidenceLevel, correctionMethod);
+	return {
+		fromStep,
+		toStep,
+		variations: ratedVariations,
+		overallTest,
+		comparisons: analysis.allComparisons,
+		pValue: overallTest.pValue,
+		isSignificant: overallTest.isSignificant,
+		performanceGroups: analysis.performanceGroups
+	};
+}
+
+/**
+ * Analyses a multi-step funnel, step by step and end to end
+ *
+ * WHAT THIS DOES (for novices):
+ * Donation journeys have several steps, and a new version can help at one step but hurt at
+ * another. This tests what share of people moved on at each step, and what share made it all
+ * the way through, so you can see where each version wins or loses supporters.
+ *
+ * HOW IT WORKS (for experts):
+ * - Stage k compares the step-through rate stepCounts[k] / stepCounts[k − 1] across variations;
+ *   end to end compares stepCounts[last] / stepCounts[0]
+ * - Two variations: compareTwoProportions() (z-test or Fisher's exact test) at every stage
+ * - 3+ variations: chiSquareTest() for any difference, then comprehensivePairwiseAnalysis() for
+ *   corrected pairwise comparisons and performance tiers within each stage
+ * - Step-through rates are conditional on reaching the previous step, so each stage compares the
+ *   people who got that far. Stages aren't corrected for each other: decide on the end-to-end
+ *   result and use the steps to explain it
+ *
+ * @param data - Step names, variations (control first) with a count per step, and test settings
+ * @returns Results for every step-to-step stage and for the funnel end to end
+ */
+export function funnelAnalysis(data: FunnelTestData): FunnelAnalysisResult {
+	const { stepNames, variations, confidenceLevel, correctionMethod = "bonferroni" } = data;
+	const firstStep = stepNames[0];
+	const lastStep = stepNames[stepNames.length - 1];
+	const controlName = variations[0]?.name;
+	if (!firstStep || !lastStep || stepNames.length < 2 || !controlName || variations.length < 2) {
+		throw new Error("A funnel analysis needs at least two steps, a control and one variation");
+	}
+
+	const stageVariations = (fromIndex: number, toIndex: number): TestVariation[] =>
+		variations.map((variation) => {
+			const visitors = variation.stepCounts[fromIndex];
+			const conversions = variation.stepCounts[toIndex];
+			if (visitors === undefined || conversions === undefined) {
+				throw new Error(`${variation.name} needs a count for every step`);
+			}
+			return { name: variation.name, visitors, conversions };
+		});
+
+	const steps = stepNames
+		.slice(1)
+		.map((toStep, index) =>
+			analyseStage(
+				stepNames[index] ?? firstStep,
+				toStep,
+				stageVariations(index, index + 1),
+				confidenceLevel,
+				correctionMethod
+			)
+		);
+
+	return {
+		confidenceLevel,
+		correctionMethod,
+		stepNames,
+		controlName,
+		steps,
+		endToEnd: analyseStage(
+			firstStep,
+			lastStep,
+			stageVariations(0, stepNames.length - 1),
+			confidenceLevel,
+			correctionMethod
+		)
+	};
+}
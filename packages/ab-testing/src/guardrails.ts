@@ -0,0 +1,71 @@
+import type { GuardrailMetric, TestVariation } from "./types/ab-testing";
+import type { GuardrailTestResult } from "./types/statistical-results";
+import { compareTwoProportions, formatTwoProportionData } from "./statistical-tests";
+
+/**
+ * Checks every variation against the control on each guardrail metric
+ *
+ * WHAT THIS DOES (for novices):
+ * A new email might win more sign-ups but also make more people unsubscribe. Guardrails are the
+ * metrics you must not make worse. Each variation is checked for harm on every guardrail, and a
+ * variation that fails one shouldn't be rolled out, however well it did on the main goal.
+ *
+ * HOW IT WORKS (for experts):
+ * - One-sided two-proportion test per variation and guardrail, with the alternative in the
+ *   harmful direction: for "increase" H₁ is p_variation > p_control, for "decrease" the groups
+ *   are swapped so H₁ is p_variation < p_control
+ * - compareTwoProportions() switches to Fisher's exact test when counts are small, which matters
+ *   because guardrail events (complaints, unsubscribes) are usually rare
+ * - Tested at α = 1 − confidence level with no multiple-comparison correction: correcting would
+ *   make harm harder to detect, which is the wrong way to err for a safety check
+ *
+ * @param variations - All variations, control first, each with a count for every guardrail
+ * @param guardrails - Guardrail metrics and the direction that counts as harm
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @returns One result per variation and guardrail, variations in input order
+ */
+export function guardrailTests(
+	variations: TestVariation[],
+	guardrails: GuardrailMetric[],
+	confidenceLevel: number
+): GuardrailTestResult[] {
+	const [control, ...testVariations] = variations;
+	if (!control) {
+		throw new Error("Missing control variation");
+	}
+
+	const metricGroup = (variation: TestVariation, metricName: string): TestVariation => {
+		const metric = variation.metrics?.find((candidate) => candidate.name === metricName);
+		if (!metric) {
+			throw new Error(`${variation.name} needs a count for the ${metricName} guardrail`);
+		}
+		return { name: variation.name, visitors: variation.visitors, conversions: metric.count };
+	};
+
+	return testVariations.flatMap((variation) =>
+		guardrails.map(({ name: metricName, harmfulDirection }) => {
+			const controlGroup = metricGroup(control, metricName);
+			const variationGroup = metricGroup(variation, metricName);
+			// One-sided tests look for the second group beating the first, so order them so "beating" is harm
+			const [first, second] =
+				harmfulDirection === "increase"
+					? [controlGroup, variationGroup]
+					: [variationGroup, controlGroup];
+			const result = compareTwoProportions(
+				formatTwoProportionData(first, second, confidenceLevel, "one-sided"),
+				first.name,
+				second.name
+			);
+
+			return {
+				variationName: variation.name,
+				metricName,
+				harmfulDirection,
+				controlRate: controlGroup.conversions / controlGroup.visitors,
+				variationRate: variationGroup.conversions / variationGroup.visitors,
+				pValue: result.pValue,
+				failed: result.isSignificant
+			};
+		})
+	);
+}
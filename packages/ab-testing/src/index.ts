@@ -0,0 +1,38 @@
+/**
+ * @mobilisers/ab-testing
+ *
+ * The statistics engine behind the A/B test calculator, for use outside the site:
+ * significance tests, intervals, corrections, planning, simulation and reports.
+ *
+ * Every module can also be imported on its own, e.g. "@mobilisers/ab-testing/report"
+ */
+
+export type * from "./types/ab-testing";
+export type * from "./types/statistical-results";
+
+export * from "./background-simulation";
+export * from "./bandit";
+export * from "./bayesian";
+export * from "./bonferroni";
+export * from "./charts";
+export * from "./continuous-metrics";
+export * from "./csv-import";
+export * from "./dunnett";
+export * from "./effect-sizes";
+export * from "./exact-tests";
+export * from "./funnel";
+export * from "./guardrails";
+export * from "./intervals";
+export * from "./margin-tests";
+export * from "./multiple-comparisons";
+export * from "./permalink";
+export * from "./random";
+export * from "./report";
+export * from "./sample-ratio";
+export * from "./sample-size";
+export * from "./segments";
+export * from "./sequential";
+export * from "./simulation";
+export * from "./statistical-tests";
+export * from "./test-log";
+export * from "./validation";
@@ -0,0 +1,154 @@
+import type {
+	DifferenceIntervalMethod,
+	TestSidedness,
+	TwoProportionTestData
+} from "./types/ab-testing";
+import { criticalValueFor } from "./sample-size";
+
+type Interval = { lower: number; upper: number };
+
+/**
+ * Two-sided level whose interval matches a test: for one-sided tests at 95%, the 90% interval,
+ * whose lower limit is the 95% one-sided bound
+ */
+export const intervalLevelFor = (
+	confidenceLevel: number,
+	sidedness: TestSidedness = "two-sided"
+): number => (sidedness === "one-sided" ? 2 * confidenceLevel - 1 : confidenceLevel);
+
+/**
+ * Wilson score interval for a single conversion rate
+ *
+ * WHAT THIS DOES (for novices):
+ * Gives the range a group's true conversion rate probably lies in. Unlike the simple
+ * "rate ± margin" formula, it stays between 0% and 100% and still works for rates like 0.5%
+ * email click-throughs or 0 conversions.
+ *
+ * HOW IT WORKS (for experts):
+ * - Inverts the score test: (p̂ + z²/2n ± z·√(p̂(1−p̂)/n + z²/4n²)) / (1 + z²/n)
+ * - Coverage stays close to nominal near 0 and 1, where the Wald interval collapses
+ *
+ * @param conversions - Number of conversions
+ * @param visitors - Number of visitors (must be greater than 0)
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @returns Interval for the rate, as decimals
+ */
+export function wilsonInterval(
+	conversions: number,
+	visitors: number,
+	confidenceLevel: number
+): Interval {
+	const z = criticalValueFor(1 - confidenceLevel, "two-sided");
+	const rate = conversions / visitors;
+	const zSquaredOverN = (z * z) / visitors;
+
+	const centre = (rate + zSquaredOverN / 2) / (1 + zSquaredOverN);
+	const halfWidth =
+		(z * Math.sqrt((rate * (1 - rate)) / visitors + zSquaredOverN / (4 * visitors))) /
+		(1 + zSquaredOverN);
+
+	return {
+		lower: Math.max(0, centre - halfWidth),
+		upper: Math.min(1, centre + halfWidth)
+	};
+}
+
+/**
+ * Newcombe hybrid score interval for the difference in conversion rates (variation − control)
+ *
+ * HOW IT WORKS (for experts):
+ * Newcombe (1998) method 10: with Wilson limits (l₁, u₁) and (l₂, u₂),
+ * lower = d − √((p̂₂ − l₂)² + (u₁ − p̂₁)²) and upper = d + √((u₂ − p̂₂)² + (p̂₁ − l₁)²)
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @returns Interval for the difference, as decimals (0.02 = 2 percentage points)
+ */
+export function newcombeInterval(data: TwoProportionTestData): Interval {
+	const { n1, x1, n2, x2, confidenceLevel } = data;
+	const [p1, p2] = [x1 / n1, x2 / n2];
+	const control = wilsonInterval(x1, n1, confidenceLevel);
+	const variation = wilsonInterval(x2, n2, confidenceLevel);
+	const difference = p2 - p1;
+
+	return {
+		lower: difference - Math.hypot(p2 - variation.lower, control.upper - p1),
+		upper: difference + Math.hypot(variation.upper - p2, p1 - control.lower)
+	};
+}
+
+/**
+ * Agresti–Caffo interval for the difference in conversion rates (variation − control)
+ *
+ * HOW IT WORKS (for experts):
+ * Adds one conversion and one non-conversion to each group, then uses the Wald interval:
+ * p̃ᵢ = (xᵢ + 1)/(nᵢ + 2), d̃ ± z·√(p̃₁(1−p̃₁)/(n₁+2) + p̃₂(1−p̃₂)/(n₂+2))
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @returns Interval for the difference, as decimals, clipped to [−1, 1]
+ */
+export function agrestiCaffoInterval(data: TwoProportionTestData): Interval {
+	const { n1, x1, n2, x2, confidenceLevel } = data;
+	const adjusted1 = (x1 + 1) / (n1 + 2);
+	const adjusted2 = (x2 + 1) / (n2 + 2);
+	const standardError = Math.sqrt(
+		(adjusted1 * (1 - adjusted1)) / (n1 + 2) + (adjusted2 * (1 - adjusted2)) / (n2 + 2)
+	);
+	const margin = criticalValueFor(1 - confidenceLevel, "two-sided") * standardError;
+	const difference = adjusted2 - adjusted1;
+
+	return {
+		lower: Math.max(-1, difference - margin),
+		upper: Math.min(1, difference + margin)
+	};
+}
+
+/**
+ * Confidence interval for the difference in conversion rates using the chosen method
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @param method - "newcombe" (default) or "agresti-caffo"
+ * @returns Interval for the difference, as decimals
+ */
+export function differenceInterval(
+	data: TwoProportionTestData,
+	method: DifferenceIntervalMethod = "newcombe"
+): Interval {
+	return method === "newcombe" ? newcombeInterval(data) : agrestiCaffoInterval(data);
+}
+
+/**
+ * Delta-method confidence interval for the relative lift (variation ÷ control − 1)
+ *
+ * WHAT THIS DOES (for novices):
+ * "+20% lift" on its own hides how unsure that figure is. This gives the range the true lift
+ * probably lies in. It's lopsided on purpose: a lift can't fall below −100%, but it can be far
+ * above +100%.
+ *
+ * HOW IT WORKS (for experts):
+ * - Delta method on the log rate ratio: SE(ln RR) = √((1−p̂₁)/x₁ + (1−p̂₂)/x₂) (Katz)
+ * - Interval: exp(ln RR ± z·SE) − 1, so it respects the −100% floor
+ * - When the variation has 0 conversions, 0.5 is added to every cell (Haldane) so the log
+ *   is defined
+ *
+ * @param data - Sample sizes, conversions and confidence level
+ * @returns Interval for the relative lift as a percentage (20 = +20%), or null when the
+ * control has no conversions and lift is undefined
+ */
+export function relativeLiftInterval(data: TwoProportionTestData): Interval | null {
+	const { confidenceLevel } = data;
+	if (data.x1 === 0) return null;
+
+	const corrected = data.x2 === 0;
+	const [x1, x2] = corrected ? [data.x1 + 0.5, data.x2 + 0.5] : [data.x1, data.x2];
+	const [n1, n2] = corrected ? [data.n1 + 1, data.n2 + 1] : [data.n1, data.n2];
+	const [p1, p2] = [x1 / n1, x2 / n2];
+
+	const logRatio = Math.log(p2 / p1);
+	const standardError = Math.sqrt((1 - p1) / x1 + (1 - p2) / x2);
+	const margin = criticalValueFor(1 - confidenceLevel, "two-sided") * standardError;
+
+	return {
+		lower: (Math.exp(logRatio - margin) - 1) * 100,
+		upper: (Math.exp(logRatio + margin) - 1) * 100
+	};
+}
@@ -0,0 +1,192 @@
+import jStat from "jstat";
+import type { MarginTestData, MarginTestType } from "./types/ab-testing";
+import type {
+	BusinessInsight,
+	MarginBoundTest,
+	MarginTestResult
+} from "./types/statistical-results";
+import { criticalValueFor } from "./sample-size";
+
+/**
+ * Display names and plain-English questions for each margin test
+ */
+export const MARGIN_TEST_TYPES: Record<MarginTestType, { name: string; question: string }> = {
+	"non-inferiority": {
+		name: "Non-inferiority",
+		question: "Is the variant no worse than the control by more than the margin?"
+	},
+	equivalence: {
+		name: "Equivalence (TOST)",
+		question: "Is the variant within the margin of the control in both directions?"
+	}
+};
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+
+const formatPoints = (value: number): string => {
+	const points = Math.abs(value * 100).toFixed(2);
+	return `${points} ${points === "1.00" ? "point" : "points"}`;
+};
+
+/**
+ * One-sided test that the difference is above (direction 1) or below (direction −1) a bound
+ */
+function boundTest(
+	difference: number,
+	standardError: number,
+	bound: number,
+	direction: 1 | -1
+): MarginBoundTest {
+	if (standardError === 0) {
+		// Everyone converted or nobody did: no information about the difference either way
+		return { bound, testStatistic: 0, pValue: 1 };
+	}
+
+	const testStatistic = (direction * (difference - bound)) / standardError;
+	return { bound, testStatistic, pValue: 1 - jStat.normal.cdf(testStatistic, 0, 1) };
+}
+
+/**
+ * Tests whether a variant is "no worse" than the control (non-inferiority) or "practically the
+ * same" (equivalence), within a margin you choose
+ *
+ * WHAT THIS DOES (for novices):
+ * A normal A/B test asks "is B different?" Sometimes you want to switch to a cheaper or shorter
+ * form and only need to know it isn't meaningfully worse. "No significant difference" doesn't
+ * show that: a small test finds no difference even when there is one. These tests turn the
+ * question round, so a positive result really means "not worse by more than the margin".
+ *
+ * HOW IT WORKS (for experts):
+ * - Non-inferiority: H₀: p₂ − p₁ ≤ −δ vs H₁: p₂ − p₁ > −δ, z = (d + δ)/SE, one-sided
+ * - Equivalence: two one-sided tests (TOST) against −δ and +δ; p = max of the two p-values
+ * - Unpooled (Wald) standard error, as the null hypothesis doesn't assume equal rates
+ * - Reports the 1 − 2α interval: non-inferiority ⇔ its lower limit is above −δ, and
+ *   equivalence ⇔ it lies entirely inside (−δ, +δ)
+ *
+ * @param data - Sample sizes, conversions, confidence level, test type and margin
+ * @param controlName - Optional name for control group (default: 'Control')
+ * @param variationName - Optional name for variation group (default: 'Variation')
+ * @returns One-sided tests against the margin and the matching interval
+ */
+export function marginTest(
+	data: MarginTestData,
+	controlName: string = "Control",
+	variationName: string = "Variation"
+): MarginTestResult {
+	const { n1, x1, n2, x2, confidenceLevel, testType, margin } = data;
+	if (!(margin > 0)) {
+		throw new Error("The margin must be greater than 0");
+	}
+
+	const p1 = x1 / n1;
+	const p2 = x2 / n2;
+	const difference = p2 - p1;
+	const standardError = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2);
+
+	const alpha = 1 - confidenceLevel;
+	const criticalValue = criticalValueFor(alpha, "one-sided");
+
+	const lowerTest = boundTest(difference, standardError, -margin, 1);
+	const upperTest =
+		testType === "equivalence" ? boundTest(difference, standardError, margin, -1) : null;
+	const bindingTest = upperTest && upperTest.pValue > lowerTest.pValue ? upperTest : lowerTest;
+
+	return {
+		testType,
+		margin,
+		isSignificant: bindingTest.pValue < alpha,
+		pValue: bindingTest.pValue,
+		confidenceLevel,
+		testStatistic: bindingTest.testStatistic,
+		control: { name: controlName, conversionRate: p1, visitors: n1, conversions: x1 },
+		variation: { name: variationName, conversionRate: p2, visitors: n2, conversions: x2 },
+		difference,
+		confidenceInterval: {
+			lower: difference - criticalValue * standardError,
+			upper: difference + criticalValue * standardError
+		},
+		intervalLevel: 1 - 2 * alpha,
+		lowerTest,
+		upperTest
+	};
+}
+
+/**
+ * Plain-English interpretation of a non-inferiority or equivalence test
+ *
+ * WHAT THIS DOES (for novices):
+ * Explains what the test showed, in the same style as the multi-variant insights, and whether
+ * it's safe to make the switch.
+ *
+ * @param result - Result from marginTest()
+ * @returns Insights with titles, messages and next steps
+ */
+export function generateMarginInsights(result: MarginTestResult): BusinessInsight[] {
+	const { control, variation, margin, confidenceInterval, testType } = result;
+	const insights: BusinessInsight[] = [];
+	const confidence = `${Math.round(result.confidenceLevel * 100)}%`;
+	const rates = `<em>${variation.name}</em> (${formatPercent(variation.conversionRate)}) and <em>${control.name}</em> (${formatPercent(control.conversionRate)})`;
+
+	if (testType === "non-inferiority") {
+		if (result.isSignificant) {
+			insights.push({
+				type: "success",
+				title: "Not Meaningfully Worse",
+				message: `<em>${variation.name}</em> (${formatPercent(variation.conversionRate)}) is no more than ${formatPoints(margin)} worse than <em>${control.name}</em> (${formatPercent(control.conversionRate)}), at ${confidence} confidence. ${confidenceInterval.lower < 0 ? `The worst case the data support is a drop of ${formatPoints(confidenceInterval.lower)}.` : "The data don't suggest any drop at all."}`,
+				actionable: `Switching to ${variation.name} is safe if a drop of up to ${formatPoints(margin)} is acceptable.`
+			});
+
+			if (confidenceInterval.lower > 0) {
+				insights.push({
+					type: "info",
+					title: "Possibly Better",
+					message: `The whole range of plausible differences is above zero, so <em>${variation.name}</em> may even be better than <em>${control.name}</em>.`
+				});
+			}
+		} else if (confidenceInterval.upper < -margin) {
+			insights.push({
+				type: "warning",
+				title: "Meaningfully Worse",
+				message: `<em>${variation.name}</em> (${formatPercent(variation.conversionRate)}) converts worse than <em>${control.name}</em> (${formatPercent(control.conversionRate)}) by more than the ${formatPoints(margin)} you said you'd accept.`,
+				actionable: `Keep ${control.name}.`
+			});
+		} else {
+			insights.push({
+				type: "warning",
+				title: "Non-Inferiority Not Shown",
+				message: `We can't rule out that <em>${variation.name}</em> is more than ${formatPoints(margin)} worse than <em>${control.name}</em>: the data are consistent with a drop of up to ${formatPoints(confidenceInterval.lower)}.`,
+				actionable:
+					"Collect more data before switching. Use the sample size planner to see how many people a non-inferiority test needs."
+			});
+		}
+
+		return insights;
+	}
+
+	if (result.isSignificant) {
+		insights.push({
+			type: "success",
+			title: "Practically Equivalent",
+			message: `${rates} differ by less than ${formatPoints(margin)} in either direction, at ${confidence} confidence. The plausible differences run from ${formatPoints(confidenceInterval.lower)} ${confidenceInterval.lower < 0 ? "lower" : "higher"} to ${formatPoints(confidenceInterval.upper)} ${confidenceInterval.upper < 0 ? "lower" : "higher"}.`,
+			actionable:
+				"Choose on cost, ease or supporter experience: conversions won't meaningfully change."
+		});
+	} else if (confidenceInterval.lower > margin || confidenceInterval.upper < -margin) {
+		insights.push({
+			type: "warning",
+			title: "Meaningfully Different",
+			message: `${rates} differ by more than ${formatPoints(margin)}, so they aren't interchangeable.`,
+			actionable: `Use ${variation.conversionRate > control.conversionRate ? variation.name : control.name}, which converts better.`
+		});
+	} else {
+		insights.push({
+			type: "warning",
+			title: "Equivalence Not Shown",
+			message: `We can't yet say ${rates} are within ${formatPoints(margin)} of each other: the plausible differences run from ${formatPoints(confidenceInterval.lower)} ${confidenceInterval.lower < 0 ? "lower" : "higher"} to ${formatPoints(confidenceInterval.upper)} ${confidenceInterval.upper < 0 ? "lower" : "higher"}.`,
+			actionable:
+				"Collect more data, or agree a wider margin if a bigger difference genuinely wouldn't matter."
+		});
+	}
+
+	return insights;
+}
@@ -0,0 +1,11 @@
+import { readFile } from "node:fs/promises";
+import { runCLI } from "./cli";
+
+/**
+ * Entry point for the mobilisers-ab command, bundled to dist/ by `pnpm build`
+ */
+process.exitCode = await runCLI(process.argv.slice(2), {
+	readFile: (path) => readFile(path, "utf8"),
+	stdout: (text) => process.stdout.write(text),
+	stderr: (text) => process.stderr.write(text)
+});
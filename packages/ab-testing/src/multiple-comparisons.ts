@@ -0,0 +1,170 @@
+import type { MultipleComparisonMethod } from "./types/ab-testing";
+import { bonferroniCorrection } from "./bonferroni";
+
+/**
+ * Display names and short explanations for each multiple-comparison correction
+ */
+export const MULTIPLE_COMPARISON_METHODS: Record<
+	MultipleComparisonMethod,
+	{ name: string; controls: "family-wise error rate" | "false discovery rate"; description: string }
+> = {
+	bonferroni: {
+		name: "Bonferroni",
+		controls: "family-wise error rate",
+		description:
+			"The strictest option. Every comparison must clear the same, much tighter threshold."
+	},
+	holm: {
+		name: "Holm–Bonferroni",
+		controls: "family-wise error rate",
+		description:
+			"Same guarantee as Bonferroni, but relaxes the threshold step by step, so it finds more real winners."
+	},
+	hochberg: {
+		name: "Hochberg",
+		controls: "family-wise error rate",
+		description:
+			"A little more powerful than Holm. Assumes comparisons are independent or positively related, which is usually true for A/B tests."
+	},
+	"benjamini-hochberg": {
+		name: "Benjamini–Hochberg",
+		controls: "false discovery rate",
+		description:
+			"Controls the share of 'winners' that are false alarms rather than the chance of any false alarm. Best with 5+ variants."
+	}
+};
+
+/**
+ * Result of applying a multiple-comparison correction to a single p-value
+ */
+export interface MultipleComparisonResult {
+	/** The original p-value from the individual test */
+	originalPValue: number;
+	/** Adjusted p-value; compare directly with the family alpha */
+	adjustedPValue: number;
+	/** Whether this test is significant after correction */
+	isSignificant: boolean;
+	/** The threshold this p-value was compared with, given its rank */
+	threshold: number;
+	/** Rank of this p-value among all tests (1 = smallest) */
+	rank: number;
+}
+
+/**
+ * Result of applying a multiple-comparison correction to a family of tests
+ */
+export interface MultipleComparisonCorrection {
+	/** The correction method used */
+	method: MultipleComparisonMethod;
+	/** Display name of the correction method */
+	methodName: string;
+	/** The family-wise error rate or false discovery rate requested */
+	alpha: number;
+	/**
+	 * Effective per-comparison significance threshold: the largest rank threshold at which a
+	 * test was declared significant, or the strictest threshold if none were
+	 */
+	correctedAlpha: number;
+	/** Per-test results, in the same order as the input p-values */
+	results: MultipleComparisonResult[];
+}
+
+/**
+ * Applies a multiple-comparison correction to a set of p-values
+ *
+ * WHAT THIS DOES (for novices):
+ * Testing many variants at once makes it easy to find a "winner" by luck. Corrections make the
+ * bar higher to compensate. Bonferroni does this bluntly; the other methods are smarter about
+ * it, so with many variants they miss fewer real winners.
+ *
+ * HOW IT WORKS (for experts), with p₍₁₎ ≤ … ≤ p₍ₘ₎ sorted ascending:
+ * - Bonferroni: reject if p ≤ α/m
+ * - Holm (step-down): reject p₍₁₎…p₍ₖ₋₁₎ where k is the first rank with p₍ₖ₎ > α/(m − k + 1)
+ * - Hochberg (step-up): reject p₍₁₎…p₍ₖ₎ where k is the largest rank with p₍ₖ₎ ≤ α/(m − k + 1)
+ * - Benjamini–Hochberg (step-up, FDR): reject p₍₁₎…p₍ₖ₎ where k is the largest rank with p₍ₖ₎ ≤ kα/m
+ * - Adjusted p-values follow the standard definitions (as in R's p.adjust), so
+ *   "adjusted p ≤ α" gives the same decisions as the step procedures
+ *
+ * @param pValues - Array of p-values from individual tests
+ * @param alpha - Family-wise error rate (or false discovery rate for Benjamini–Hochberg)
+ * @param method - Correction method to apply
+ * @returns Per-test adjusted p-values and decisions, with the effective threshold
+ */
+export function multipleComparisonCorrection(
+	pValues: number[],
+	alpha: number = 0.05,
+	method: MultipleComparisonMethod = "bonferroni"
+): MultipleComparisonCorrection {
+	const m = pValues.length;
+	const order = pValues
+		.map((pValue, index) => ({ pValue, index }))
+		.sort((a, b) => a.pValue - b.pValue || a.index - b.index);
+
+	const results: MultipleComparisonResult[] = new Array(m);
+
+	if (method === "bonferroni") {
+		const bonferroniResults = bonferroniCorrection(pValues, alpha);
+		order.forEach(({ index }, position) => {
+			const bonferroniResult = bonferroniResults[index];
+			if (!bonferroniResult) {
+				throw new Error("Missing Bonferroni result for p-value");
+			}
+			results[index] = {
+				originalPValue: bonferroniResult.originalPValue,
+				adjustedPValue: bonferroniResult.correctedPValue,
+				isSignificant: bonferroniResult.isSignificant,
+				threshold: bonferroniResult.correctedAlpha,
+				rank: position + 1
+			};
+		});
+	} else {
+		// Rank-specific thresholds and p-value multipliers for each method
+		const thresholdFor = (rank: number): number =>
+			method === "benjamini-hochberg" ? (rank * alpha) / m : alpha / (m - rank + 1);
+		const scaled = order.map(({ pValue }, position) => {
+			const rank = position + 1;
+			const multiplier = method === "benjamini-hochberg" ? m / rank : m - rank + 1;
+			return Math.min(pValue * multiplier, 1);
+		});
+
+		// Holm is step-down (running maximum from the smallest p-value);
+		// Hochberg and Benjamini–Hochberg are step-up (running minimum from the largest)
+		const adjusted = [...scaled];
+		if (method === "holm") {
+			for (let position = 1; position < m; position++) {
+				adjusted[position] = Math.max(adjusted[position] ?? 1, adjusted[position - 1] ?? 0);
+			}
+		} else {
+			for (let position = m - 2; position >= 0; position--) {
+				adjusted[position] = Math.min(adjusted[position] ?? 1, adjusted[position + 1] ?? 1);
+			}
+		}
+
+		order.forEach(({ pValue, index }, position) => {
+			const adjustedPValue = adjusted[position] ?? 1;
+			results[index] = {
+				originalPValue: pValue,
+				adjustedPValue,
+				isSignificant: adjustedPValue <= alpha,
+				threshold: thresholdFor(position + 1),
+				rank: position + 1
+			};
+		});
+	}
+
+	const significantThresholds = results.filter((r) => r.isSignificant).map((r) => r.threshold);
+	const strictestThreshold = Math.min(...results.map((r) => r.threshold));
+
+	return {
+		method,
+		methodName: MULTIPLE_COMPARISON_METHODS[method].name,
+		alpha,
+		correctedAlpha:
+			significantThresholds.length > 0
+				? Math.max(...significantThresholds)
+				: m > 0
+					? strictestThreshold
+					: alpha,
+		results
+	};
+}
@@ -0,0 +1,185 @@
+import type {
+	ABTestPermalinkState,
+	GuardrailHarmDirection,
+	TestSidedness
+} from "./types/ab-testing";
+import { sanitiseABTestInput, validateABTestPermalinkState } from "./validation";
+
+/**
+ * Version of the link format; increase it (and keep decoding old versions) when fields change
+ */
+export const PERMALINK_VERSION = 1;
+
+/** Fragment prefix, e.g. "#ab1=…"; the fragment never reaches the server */
+const PERMALINK_PATTERN = /^#?ab(\d+)=([A-Za-z0-9_-]+)$/;
+
+/**
+ * Compact form stored in the link: short keys, variations as [name, visitors, conversions] and
+ * guardrails as [name, harmful direction], with each variation's guardrail counts in the same order
+ */
+type CompactPermalink = {
+	c: number;
+	v: ([string, number, number] | [string, number, number, number[]])[];
+	g?: [string, GuardrailHarmDirection][];
+	a: ABTestPermalinkState["analysisMethod"];
+	m: ABTestPermalinkState["correctionMethod"];
+	k: ABTestPermalinkState["comparisonMode"];
+	p: ABTestPermalinkState["priorType"];
+	r?: number[];
+	h?: [number, number];
+	s?: TestSidedness;
+};
+
+const toBase64URL = (text: string): string =>
+	btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+
+const fromBase64URL = (encoded: string): string =>
+	new TextDecoder().decode(
+		Uint8Array.from(atob(encoded.replace(/-/g, "+").replace(/_/g, "/")), (character) =>
+			character.charCodeAt(0)
+		)
+	);
+
+/**
+ * Encodes an analysis as a URL fragment
+ *
+ * @param state - Variations, confidence level and analysis options
+ * @returns Fragment including the leading "#", e.g. "#ab1=eyJjIjo…"
+ */
+export function encodeABTestPermalink(state: ABTestPermalinkState): string {
+	const { input } = state;
+	const guardrails = input.guardrails ?? [];
+	const compact: CompactPermalink = {
+		c: input.confidenceLevel,
+		v: [input.controlVariation, ...input.variations].map((variation) =>
+			guardrails.length > 0
+				? [
+						variation.name,
+						variation.visitors,
+						variation.conversions,
+						guardrails.map(
+							(guardrail) =>
+								variation.metrics?.find((metric) => metric.name === guardrail.name)?.count ?? NaN
+						)
+					]
+				: [variation.name, variation.visitors, variation.conversions]
+		),
+		...(input.guardrails !== undefined
+			? { g: input.guardrails.map((guardrail) => [guardrail.name, guardrail.harmfulDirection]) }
+			: {}),
+		a: state.analysisMethod,
+		m: state.correctionMethod,
+		k: state.comparisonMode,
+		p: state.priorType,
+		...(input.allocationRatios !== undefined ? { r: input.allocationRatios } : {}),
+		...(input.sidedness === "one-sided" ? { s: input.sidedness } : {}),
+		...(state.historicalPrior !== undefined
+			? { h: [state.historicalPrior.rate, state.historicalPrior.strength] }
+			: {})
+	};
+
+	return `#ab${PERMALINK_VERSION}=${toBase64URL(JSON.stringify(compact))}`;
+}
+
+/**
+ * Full link to an analysis: the current page with the analysis in its fragment
+ *
+ * @param state - Variations, confidence level and analysis options
+ * @param url - Page URL (default: current page); any existing fragment is replaced
+ * @returns Shareable URL
+ */
+export function createABTestPermalink(
+	state: ABTestPermalinkState,
+	url: string = window.location.href
+): string {
+	const hashStart = url.indexOf("#");
+	return `${hashStart === -1 ? url : url.substring(0, hashStart)}${encodeABTestPermalink(state)}`;
+}
+
+/**
+ * Restores an analysis from a shared link
+ *
+ * WHAT THIS DOES (for novices):
+ * Reads the analysis stored at the end of a shared link. Links can be cut short in emails or
+ * edited by hand, so the numbers go through the same checks as numbers typed into the form.
+ *
+ * @param url - Page URL (default: current page)
+ * @returns null when the link has no analysis; otherwise the restored analysis or what's wrong
+ */
+export function readABTestPermalink(
+	url: string = window.location.href
+): { success: true; data: ABTestPermalinkState } | { success: false; errors: string[] } | null {
+	const hashStart = url.indexOf("#");
+	if (hashStart === -1) return null;
+
+	const match = PERMALINK_PATTERN.exec(url.substring(hashStart));
+	if (!match) return null;
+
+	const [, version, payload = ""] = match;
+	if (Number(version) !== PERMALINK_VERSION) {
+		return {
+			success: false,
+			errors: ["This link was made with a different version of the calculator and can't be opened"]
+		};
+	}
+
+	let compact: Partial<CompactPermalink>;
+	try {
+		compact = JSON.parse(fromBase64URL(payload)) as Partial<CompactPermalink>;
+	} catch {
+		return {
+			success: false,
+			errors: ["This link looks damaged. Ask for the link again, making sure it's copied in full"]
+		};
+	}
+
+	const guardrails = Array.isArray(compact.g)
+		? compact.g.map((guardrail) =>
+				Array.isArray(guardrail)
+					? { name: guardrail[0], harmfulDirection: guardrail[1] }
+					: guardrail
+			)
+		: undefined;
+	const variations = Array.isArray(compact.v)
+		? compact.v.map((variation) => {
+				if (!Array.isArray(variation)) return variation;
+				const counts = variation[3];
+				return {
+					name: variation[0],
+					visitors: variation[1],
+					conversions: variation[2],
+					...(guardrails && Array.isArray(counts)
+						? {
+								metrics: guardrails.map((guardrail, index) => ({
+									name: guardrail.name,
+									count: counts[index]
+								}))
+							}
+						: {})
+				};
+			})
+		: [];
+	const [controlVariation, ...otherVariations] = variations;
+
+	return validateABTestPermalinkState({
+		input: sanitiseABTestInput({
+			controlVariation,
+			variations: otherVariations,
+			confidenceLevel: compact.c,
+			...(compact.r !== undefined ? { allocationRatios: compact.r } : {}),
+			// Two-sided is left out of links, as were all analyses before the option existed
+			sidedness: compact.s ?? "two-sided",
+			...(guardrails !== undefined ? { guardrails } : {})
+		}),
+		analysisMethod: compact.a,
+		correctionMethod: compact.m,
+		comparisonMode: compact.k,
+		priorType: compact.p,
+		...(Array.isArray(compact.h)
+			? { historicalPrior: { rate: compact.h[0], strength: compact.h[1] } }
+			: {})
+	});
+}
@@ -0,0 +1,74 @@
+/**
+ * A function returning uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Above this variance (n·p·(1 − p)) binomial counts are drawn from the normal approximation,
+ * which is indistinguishable at that size and keeps large simulations fast
+ */
+const NORMAL_APPROXIMATION_VARIANCE = 1000;
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ *
+ * WHAT THIS DOES: Resampling and simulations need random numbers. Seeding them means the same
+ * inputs always give the same answer, so results don't jump around each time you press Calculate
+ * and tests can check exact values.
+ *
+ * @param seed - Any 32-bit integer
+ * @returns Generator returning numbers in [0, 1)
+ */
+export function createRandomGenerator(seed: number): RandomGenerator {
+	let state = seed >>> 0;
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Draws the number of successes in a number of independent trials
+ *
+ * HOW IT WORKS (for experts):
+ * - Small variance: exact, by counting geometric waiting times between successes of the rarer
+ *   outcome, which takes O(n·min(p, 1 − p)) steps
+ * - Large variance: normal approximation N(np, np(1 − p)) via Box–Muller, rounded and clamped
+ *
+ * @param trials - Number of trials (visitors)
+ * @param probability - Chance of success in each trial (true conversion rate)
+ * @param random - Uniform random number generator
+ * @returns Number of successes (conversions)
+ */
+export function sampleBinomial(
+	trials: number,
+	probability: number,
+	random: RandomGenerator
+): number {
+	if (trials <= 0 || probability <= 0) return 0;
+	if (probability >= 1) return trials;
+
+	const variance = trials * probability * (1 - probability);
+	if (variance > NORMAL_APPROXIMATION_VARIANCE) {
+		const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+		const draw = Math.round(trials * probability + Math.sqrt(variance) * normal);
+		return Math.min(Math.max(draw, 0), trials);
+	}
+
+	const rarer = Math.min(probability, 1 - probability);
+	const logFailure = Math.log(1 - rarer);
+	let successes = 0;
+	let position = 0;
+
+	for (;;) {
+		position += Math.floor(Math.log(1 - random()) / logFailure) + 1;
+		if (position > trials) break;
+		successes++;
+	}
+
+	return rarer === probability ? successes : trials - successes;
+}
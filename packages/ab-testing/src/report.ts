@@ -0,0 +1,562 @@
+import type { ABTestInput, ReportFormat } from "./types/ab-testing";
+import type {
+	ABTestReport,
+	BusinessInsight,
+	ComprehensiveAnalysisResult,
+	GuardrailTestResult,
+	RatioEstimate,
+	TwoProportionResult
+} from "./types/statistical-results";
+import { createReportCharts } from "./charts";
+import { guardrailTests } from "./guardrails";
+import { guardrailFailureInsight, tiersForTwoProportionResult } from "./statistical-tests";
+import { validateStatisticalRequirements } from "./validation";
+
+/**
+ * Labels, file extensions and MIME types for each downloadable report format
+ */
+export const REPORT_FORMATS: Record<
+	ReportFormat,
+	{ label: string; extension: string; mimeType: string }
+> = {
+	html: { label: "Printable report (HTML)", extension: "html", mimeType: "text/html" },
+	markdown: { label: "Markdown (Slack, docs)", extension: "md", mimeType: "text/markdown" },
+	json: { label: "Data (JSON)", extension: "json", mimeType: "application/json" }
+};
+
+const formatPercent = (value: number, digits: number = 2): string =>
+	`${(value * 100).toFixed(digits)}%`;
+
+const formatPValue = (pValue: number): string => (pValue < 0.0001 ? "< 0.0001" : pValue.toFixed(4));
+
+const formatSigned = (value: number): string => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+
+/**
+ * Improvement and its interval in the units the result uses: relative % lift (delta-method
+ * interval), or percentage points (Newcombe interval) when the control converted nobody.
+ * One-sided results show only the lower bound, which is what the test checks
+ */
+function describeImprovement(comparison: TwoProportionResult): {
+	estimate: string;
+	interval: string;
+} {
+	const { improvement } = comparison;
+	const [estimate, interval, unit] =
+		improvement.relative === null || improvement.relativeInterval === null
+			? [
+					improvement.absolute * 100,
+					{
+						lower: improvement.absoluteInterval.lower * 100,
+						upper: improvement.absoluteInterval.upper * 100
+					},
+					" pp"
+				]
+			: [improvement.relative, improvement.relativeInterval, "%"];
+
+	return {
+		estimate: `${formatSigned(estimate)}${unit}`,
+		interval:
+			comparison.sidedness === "one-sided"
+				? `at least ${formatSigned(interval.lower)}${unit}`
+				: `${formatSigned(interval.lower)}${unit} to ${formatSigned(interval.upper)}${unit}`
+	};
+}
+
+/**
+ * Effect sizes in the units analysts compare across tests; ratio intervals are shown like the
+ * improvement interval (lower bound only for one-sided tests)
+ */
+function describeEffectSize(comparison: TwoProportionResult): {
+	cohensH: string;
+	riskRatio: string;
+	oddsRatio: string;
+	peoplePerConversion: string;
+} {
+	const { cohensH, riskRatio, oddsRatio, numberNeededToTreat } = comparison.effectSize;
+	const describeRatio = ({ estimate, interval }: RatioEstimate): string =>
+		comparison.sidedness === "one-sided"
+			? `${estimate.toFixed(3)} (at least ${interval.lower.toFixed(3)})`
+			: `${estimate.toFixed(3)} (${interval.lower.toFixed(3)} to ${interval.upper.toFixed(3)})`;
+
+	return {
+		cohensH: cohensH.toFixed(3),
+		riskRatio: describeRatio(riskRatio),
+		oddsRatio: describeRatio(oddsRatio),
+		peoplePerConversion:
+			numberNeededToTreat === null
+				? "No difference"
+				: `${Math.round(Math.abs(numberNeededToTreat)).toLocaleString("en")} per ${numberNeededToTreat > 0 ? "extra conversion" : "conversion lost"}`
+	};
+}
+
+/**
+ * Plain-language summary of a single comparison, worded like the on-screen result.
+ * A winning variation that failed a guardrail is reported as a warning, not a winner
+ */
+function summariseTwoProportionResult(
+	result: TwoProportionResult,
+	confidenceLevel: number,
+	guardrailResults: GuardrailTestResult[] = []
+): BusinessInsight {
+	const { control, variation, improvement } = result;
+	const significance = `statistically significant at ${confidenceLevel * 100}% confidence${result.sidedness === "one-sided" ? " (one-sided test)" : ""}`;
+
+	if (!result.isSignificant && result.sidedness === "one-sided") {
+		return {
+			type: "warning",
+			title: "No clear improvement",
+			message: `<em>${variation.name}</em> (${formatPercent(variation.conversionRate)}) didn't convert significantly better than <em>${control.name}</em> (${formatPercent(control.conversionRate)}). This one-sided test only looks for an improvement, so it can't show whether <em>${variation.name}</em> is worse.`,
+			actionable: `Keep ${control.name}, or collect more data if a small improvement matters.`
+		};
+	}
+
+	if (!result.isSignificant) {
+		return {
+			type: "warning",
+			title: "No clear winner",
+			message: `The difference between <em>${variation.name}</em> (${formatPercent(variation.conversionRate)}) and <em>${control.name}</em> (${formatPercent(control.conversionRate)}) is not statistically significant.`,
+			actionable: "Collect more data if a small difference matters, or test a more distinct change."
+		};
+	}
+
+	const failures = guardrailResults.filter(
+		(guardrail) => guardrail.variationName === variation.name && guardrail.failed
+	);
+	if (variation.conversionRate > control.conversionRate && failures.length > 0) {
+		return guardrailFailureInsight(variation.name, failures);
+	}
+
+	if (improvement.relative === null) {
+		return {
+			type: "success",
+			title: "Significant difference",
+			message: `<em>${variation.name}</em> converted at ${formatPercent(variation.conversionRate)}, compared with ${formatPercent(control.conversionRate)} for <em>${control.name}</em>. This is ${significance}.`
+		};
+	}
+
+	const variationWon = improvement.relative > 0;
+	const [winner, loser] = variationWon ? [variation, control] : [control, variation];
+
+	return {
+		type: "success",
+		title: "Significant result",
+		message: `<em>${winner.name}</em> converted at ${formatPercent(winner.conversionRate)}, compared with ${formatPercent(loser.conversionRate)} for <em>${loser.name}</em>: a ${Math.abs(improvement.relative).toFixed(1)}% relative difference. This is ${significance}.`,
+		actionable: `Implement ${winner.name}.`
+	};
+}
+
+/**
+ * Collects everything needed to share or archive an analysis into one report
+ *
+ * WHAT THIS DOES (for novices):
+ * Bundles your numbers, the settings used, every comparison and the written conclusions, so the
+ * report makes sense on its own when a manager opens it weeks later.
+ *
+ * @param input - The analysed numbers and confidence level
+ * @param result - Two-variation result or comprehensive multi-variation analysis
+ * @param generatedAt - When the report was created (default: now)
+ * @returns Report ready to format as HTML, Markdown or JSON
+ */
+export function createABTestReport(
+	input: ABTestInput,
+	result: TwoProportionResult | ComprehensiveAnalysisResult,
+	generatedAt: Date = new Date()
+): ABTestReport {
+	const names = [input.controlVariation, ...input.variations].map((variation) => variation.name);
+	const common = {
+		version: 1 as const,
+		generatedAt: generatedAt.toISOString(),
+		title: `A/B test results: ${names.join(" vs ")}`,
+		input,
+		confidenceLevel: input.confidenceLevel,
+		warnings: validateStatisticalRequirements(input)
+	};
+
+	if ("allComparisons" in result) {
+		return {
+			...common,
+			correctionMethod: result.correctionMethod,
+			correctionMethodName: result.correctionMethodName,
+			correctedAlpha: result.correctedAlpha,
+			comparisons: result.allComparisons,
+			performanceGroups: result.performanceGroups,
+			insights: result.insights
+		};
+	}
+
+	const guardrailResults = input.guardrails
+		? guardrailTests(
+				[input.controlVariation, ...input.variations],
+				input.guardrails,
+				input.confidenceLevel
+			)
+		: [];
+
+	return {
+		...common,
+		correctionMethod: null,
+		correctionMethodName: null,
+		correctedAlpha: 1 - input.confidenceLevel,
+		comparisons: [result],
+		performanceGroups: tiersForTwoProportionResult(result),
+		insights: [summariseTwoProportionResult(result, input.confidenceLevel, guardrailResults)]
+	};
+}
+
+/** Insight messages may contain <em> around variant names */
+const emphasisToMarkdown = (text: string): string => text.replace(/<\/?em>/g, "_");
+
+const escapeMarkdownCell = (text: string): string => text.replace(/\|/g, "\\|");
+
+const escapeHTML = (text: string): string =>
+	text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Makes an insight message safe to render as HTML: escapes everything, then restores the bare
+ * <em> tags insight messages are allowed to use. Messages contain variant, segment and metric
+ * names from shared links and imported logs, so never render one as HTML without this
+ */
+export const insightToHTML = (text: string): string =>
+	escapeHTML(text).replace(/&lt;(\/?)em&gt;/g, "<$1em>");
+
+const describeSidedness = (report: ABTestReport): string =>
+	report.input.sidedness === "one-sided"
+		? "One-sided (only looks for variants beating the control)"
+		: "Two-sided (looks for a difference in either direction)";
+
+const intervalHeading = (report: ABTestReport): string =>
+	`${report.confidenceLevel * 100}% confidence ${report.input.sidedness === "one-sided" ? "bound" : "interval"}`;
+
+const describeCorrection = (report: ABTestReport): string =>
+	report.correctionMethodName === null
+		? "None (single comparison)"
+		: `${report.correctionMethodName} (corrected threshold ${report.correctedAlpha.toFixed(4)})`;
+
+/**
+ * Formats a report as Markdown for Slack, Notion or Google Docs
+ */
+export function formatReportAsMarkdown(report: ABTestReport): string {
+	const variations = [report.input.controlVariation, ...report.input.variations];
+	const lines: string[] = [
+		`# ${report.title}`,
+		"",
+		`Generated ${report.generatedAt.slice(0, 10)}`,
+		"",
+		"## Settings",
+		"",
+		`- Confidence level: ${report.confidenceLevel * 100}%`,
+		`- Hypothesis: ${describeSidedness(report)}`,
+		`- Multiple comparison correction: ${describeCorrection(report)}`,
+		"",
+		"## Results",
+		"",
+		"| Variant | Sample size | Conversions | Conversion rate |",
+		"| --- | ---: | ---: | ---: |",
+		...variations.map(
+			(variation, index) =>
+				`| ${escapeMarkdownCell(variation.name)}${index === 0 ? " (control)" : ""} | ${variation.visitors.toLocaleString("en")} | ${variation.conversions.toLocaleString("en")} | ${formatPercent(variation.conversions / variation.visitors)} |`
+		),
+		"",
+		"## Comparisons",
+		"",
+		`| Comparison | Improvement | ${intervalHeading(report)} | p-value | Test | Significant |`,
+		"| --- | ---: | --- | ---: | --- | --- |",
+		...report.comparisons.map((comparison) => {
+			const { estimate, interval } = describeImprovement(comparison);
+			return `| ${escapeMarkdownCell(comparison.variation.name)} vs ${escapeMarkdownCell(comparison.control.name)} | ${estimate} | ${interval} | ${formatPValue(comparison.pValue)} | ${comparison.testMethod === "fisher-exact" ? "Fisher's exact" : "z-test"} | ${comparison.isSignificant ? "Yes" : "No"} |`;
+		}),
+		"",
+		"## Effect sizes",
+		"",
+		`| Comparison | Cohen's h | Risk ratio (${intervalHeading(report)}) | Odds ratio (${intervalHeading(report)}) | People per conversion gained or lost |`,
+		"| --- | ---: | --- | --- | ---: |",
+		...report.comparisons.map((comparison) => {
+			const effectSize = describeEffectSize(comparison);
+			return `| ${escapeMarkdownCell(comparison.variation.name)} vs ${escapeMarkdownCell(comparison.control.name)} | ${effectSize.cohensH} | ${effectSize.riskRatio} | ${effectSize.oddsRatio} | ${effectSize.peoplePerConversion} |`;
+		}),
+		"",
+		"## Performance tiers",
+		"",
+		...report.performanceGroups.map(
+			(tier) =>
+				`${tier.tier}. **${tier.label}**: ${tier.variations
+					.map((variation) => `${variation.name} (${formatPercent(variation.conversionRate)})`)
+					.join(", ")}`
+		),
+		"",
+		"## What this means",
+		""
+	];
+
+	report.insights.forEach((insight) => {
+		lines.push(`**${insight.title}**`, "", emphasisToMarkdown(insight.message), "");
+		if (insight.actionable) {
+			lines.push(`Next step: ${emphasisToMarkdown(insight.actionable)}`, "");
+		}
+	});
+
+	if (report.warnings.length > 0) {
+		lines.push("## Things to bear in mind", "", ...report.warnings.map((w) => `- ${w}`), "");
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Formats a report as a self-contained, printable HTML page (no external styles or scripts)
+ * Includes the rate, difference and performance tier charts as inline SVG
+ */
+export function formatReportAsHTML(report: ABTestReport): string {
+	const variations = [report.input.controlVariation, ...report.input.variations];
+
+	const variationRows = variations
+		.map(
+			(variation, index) => `<tr>
+<th scope="row">${escapeHTML(variation.name)}${index === 0 ? " (control)" : ""}</th>
+<td>${variation.visitors.toLocaleString("en")}</td>
+<td>${variation.conversions.toLocaleString("en")}</td>
+<td>${formatPercent(variation.conversions / variation.visitors)}</td>
+</tr>`
+		)
+		.join("\n");
+
+	const comparisonRows = report.comparisons
+		.map((comparison) => {
+			const { estimate, interval } = describeImprovement(comparison);
+			return `<tr>
+<th scope="row">${escapeHTML(comparison.variation.name)} vs ${escapeHTML(comparison.control.name)}</th>
+<td>${estimate}</td>
+<td>${interval}</td>
+<td>${formatPValue(comparison.pValue)}</td>
+<td>${comparison.testMethod === "fisher-exact" ? "Fisher's exact" : "z-test"}</td>
+<td>${comparison.isSignificant ? "Yes" : "No"}</td>
+</tr>`;
+		})
+		.join("\n");
+
+	const effectSizeRows = report.comparisons
+		.map((comparison) => {
+			const effectSize = describeEffectSize(comparison);
+			return `<tr>
+<th scope="row">${escapeHTML(comparison.variation.name)} vs ${escapeHTML(comparison.control.name)}</th>
+<td>${effectSize.cohensH}</td>
+<td>${effectSize.riskRatio}</td>
+<td>${effectSize.oddsRatio}</td>
+<td>${effectSize.peoplePerConversion}</td>
+</tr>`;
+		})
+		.join("\n");
+
+	const tiers = report.performanceGroups
+		.map(
+			(tier) =>
+				`<li><strong>${escapeHTML(tier.label)}</strong>: ${tier.variations
+					.map(
+						(variation) =>
+							`${escapeHTML(variation.name)} (${formatPercent(variation.conversionRate)})`
+					)
+					.join(", ")}</li>`
+		)
+		.join("\n");
+
+	// Each SVG carries its own <title> and <desc>; the caption repeats the description for print
+	const charts = createReportCharts(report)
+		.map(
+			(chart) => `<figure>
+${chart.svg}
+<figcaption>${escapeHTML(chart.description)}</figcaption>
+</figure>`
+		)
+		.join("\n");
+
+	const insights = report.insights
+		.map(
+			(insight) => `<section class="insight insight-${insight.type}">
+<h3>${escapeHTML(insight.title)}</h3>
+<p>${insightToHTML(insight.message)}</p>
+${insight.actionable ? `<p><strong>Next step:</strong> ${insightToHTML(insight.actionable)}</p>` : ""}
+</section>`
+		)
+		.join("\n");
+
+	const warnings =
+		report.warnings.length > 0
+			? `<h2>Things to bear in mind</h2>
+<ul>
+${report.warnings.map((warning) => `<li>${escapeHTML(warning)}</li>`).join("\n")}
+</ul>`
+			: "";
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(report.title)}</title>
+<style>
+body { color: #343433; font-family: system-ui, sans-serif; line-height: 1.5; margin: 2rem auto; max-width: 50rem; padding: 0 1rem; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; width: 100%; }
+th, td { border-bottom: 1px solid #e9ecef; padding: 0.5rem; text-align: left; }
+td { font-variant-numeric: tabular-nums; }
+.insight { border-left: 4px solid #1779ba; margin-bottom: 1rem; padding-left: 1rem; }
+.insight-success { border-left-color: #3adb76; }
+.insight-warning { border-left-color: #ffae00; }
+figure { break-inside: avoid; margin: 0 0 1.5rem; }
+figcaption { color: #595959; font-size: 0.875rem; }
+@media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(report.title)}</h1>
+<p>Generated ${report.generatedAt.slice(0, 10)}</p>
+<h2>Settings</h2>
+<ul>
+<li>Confidence level: ${report.confidenceLevel * 100}%</li>
+<li>Hypothesis: ${describeSidedness(report)}</li>
+<li>Multiple comparison correction: ${escapeHTML(describeCorrection(report))}</li>
+</ul>
+<h2>Results</h2>
+<table>
+<thead><tr><th scope="col">Variant</th><th scope="col">Sample size</th><th scope="col">Conversions</th><th scope="col">Conversion rate</th></tr></thead>
+<tbody>
+${variationRows}
+</tbody>
+</table>
+<h2>Comparisons</h2>
+<table>
+<thead><tr><th scope="col">Comparison</th><th scope="col">Improvement</th><th scope="col">${intervalHeading(report)}</th><th scope="col">p-value</th><th scope="col">Test</th><th scope="col">Significant</th></tr></thead>
+<tbody>
+${comparisonRows}
+</tbody>
+</table>
+<h2>Effect sizes</h2>
+<table>
+<thead><tr><th scope="col">Comparison</th><th scope="col">Cohen's h</th><th scope="col">Risk ratio (${intervalHeading(report)})</th><th scope="col">Odds ratio (${intervalHeading(report)})</th><th scope="col">People per conversion gained or lost</th></tr></thead>
+<tbody>
+${effectSizeRows}
+</tbody>
+</table>
+<h2>Performance tiers</h2>
+<ol>
+${tiers}
+</ol>
+<h2>Charts</h2>
+${charts}
+<h2>What this means</h2>
+${insights}
+${warnings}
+</body>
+</html>
+`;
+}
+
+/**
+ * Lines of a plain-text table with aligned columns; numeric columns are right-aligned
+ */
+function textTable(headings: string[], rows: string[][], rightAligned: number[] = []): string[] {
+	const widths = headings.map((heading, column) =>
+		Math.max(heading.length, ...rows.map((row) => (row[column] ?? "").length))
+	);
+	const formatRow = (cells: string[]): string =>
+		cells
+			.map((cell, column) => {
+				const width = widths[column] ?? cell.length;
+				return rightAligned.includes(column) ? cell.padStart(width) : cell.padEnd(width);
+			})
+			.join("  ")
+			.trimEnd();
+
+	return [
+		formatRow(headings),
+		widths.map((width) => "-".repeat(width)).join("  "),
+		...rows.map(formatRow)
+	];
+}
+
+/**
+ * Formats a report as plain text with aligned tables, for terminals and the command line tool
+ */
+export function formatReportAsText(report: ABTestReport): string {
+	const variations = [report.input.controlVariation, ...report.input.variations];
+	const stripEmphasis = (text: string): string => text.replace(/<\/?em>/g, "");
+	const lines: string[] = [
+		report.title,
+		"",
+		`Confidence level: ${report.confidenceLevel * 100}%`,
+		`Hypothesis: ${describeSidedness(report)}`,
+		`Multiple comparison correction: ${describeCorrection(report)}`,
+		"",
+		...textTable(
+			["Variant", "Sample size", "Conversions", "Conversion rate"],
+			variations.map((variation, index) => [
+				`${variation.name}${index === 0 ? " (control)" : ""}`,
+				variation.visitors.toLocaleString("en"),
+				variation.conversions.toLocaleString("en"),
+				formatPercent(variation.conversions / variation.visitors)
+			]),
+			[1, 2, 3]
+		),
+		"",
+		...textTable(
+			["Comparison", "Improvement", intervalHeading(report), "p-value", "Significant"],
+			report.comparisons.map((comparison) => {
+				const { estimate, interval } = describeImprovement(comparison);
+				return [
+					`${comparison.variation.name} vs ${comparison.control.name}`,
+					estimate,
+					interval,
+					formatPValue(comparison.pValue),
+					comparison.isSignificant ? "Yes" : "No"
+				];
+			}),
+			[1, 3]
+		),
+		"",
+		"What this means",
+		""
+	];
+
+	report.insights.forEach((insight) => {
+		lines.push(`${insight.title}: ${stripEmphasis(insight.message)}`);
+		if (insight.actionable) {
+			lines.push(`Next step: ${stripEmphasis(insight.actionable)}`);
+		}
+		lines.push("");
+	});
+
+	if (report.warnings.length > 0) {
+		lines.push("Things to bear in mind", "", ...report.warnings.map((w) => `- ${w}`), "");
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Formats a report as indented JSON for archiving or loading into other tools
+ */
+export const formatReportAsJSON = (report: ABTestReport): string =>
+	`${JSON.stringify(report, null, 2)}\n`;
+
+/**
+ * Formats a report in the chosen format
+ *
+ * @param report - Report from createABTestReport()
+ * @param format - "html", "markdown" or "json"
+ * @returns File contents
+ */
+export function formatReport(report: ABTestReport, format: ReportFormat): string {
+	switch (format) {
+		case "html":
+			return formatReportAsHTML(report);
+		case "markdown":
+			return formatReportAsMarkdown(report);
+		case "json":
+			return formatReportAsJSON(report);
+	}
+}
+
+/**
+ * File name for a downloaded report, e.g. "ab-test-report-2026-10-19.md"
+ */
+export const reportFileName = (report: ABTestReport, format: ReportFormat): string =>
+	`ab-test-report-${report.generatedAt.slice(0, 10)}.${REPORT_FORMATS[format].extension}`;
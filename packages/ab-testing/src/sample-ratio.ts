@@ -0,0 +1,117 @@
+import jStat from "jstat";
+import type { TestVariation } from "./types/ab-testing";
+import type { SampleRatioMismatchResult } from "./types/statistical-results";
+
+/**
+ * p-value below which we report a sample ratio mismatch
+ * Deliberately strict: large tests drift slightly by chance, and a false alarm would block a
+ * valid result. 0.001 is the threshold commonly used by experimentation platforms.
+ */
+export const SAMPLE_RATIO_MISMATCH_THRESHOLD = 0.001;
+
+/**
+ * Checks whether visitors were split between variations as intended
+ *
+ * WHAT THIS DOES (for novices):
+ * If you meant to send half your audience to each version but one got noticeably more, something
+ * went wrong with how people were assigned (a caching bug, a broken link, a filter on one email).
+ * When that happens the groups aren't comparable, so any "winner" could be caused by the bug
+ * rather than by your change.
+ *
+ * HOW IT WORKS (for experts):
+ * - Chi-square goodness-of-fit: Σ (Oᵢ − Eᵢ)² / Eᵢ with Eᵢ = N × rᵢ / Σr, df = k − 1
+ * - Reports a mismatch when p < threshold (default 0.001)
+ *
+ * @param variations - All variations, control first
+ * @param allocationRatios - Intended split in the same order (default: equal)
+ * @param threshold - p-value below which a mismatch is reported
+ * @returns Goodness-of-fit results with observed and expected traffic per group
+ */
+export function sampleRatioMismatchTest(
+	variations: TestVariation[],
+	allocationRatios?: number[],
+	threshold: number = SAMPLE_RATIO_MISMATCH_THRESHOLD
+): SampleRatioMismatchResult {
+	if (variations.length < 2) {
+		throw new Error("Sample ratio check needs at least 2 variations");
+	}
+
+	const ratios = allocationRatios ?? variations.map(() => 1);
+	if (ratios.length !== variations.length) {
+		throw new Error("Sample ratio check needs one allocation ratio per variation");
+	}
+	if (ratios.some((ratio) => !(ratio > 0))) {
+		throw new Error("Allocation ratios must all be greater than 0");
+	}
+
+	const totalVisitors = variations.reduce((sum, v) => sum + v.visitors, 0);
+	const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+
+	const groups = variations.map((variation, index) => {
+		const expectedShare = (ratios[index] ?? 0) / totalRatio;
+		return {
+			name: variation.name,
+			visitors: variation.visitors,
+			expectedVisitors: totalVisitors * expectedShare,
+			expectedShare,
+			observedShare: totalVisitors > 0 ? variation.visitors / totalVisitors : 0
+		};
+	});
+
+	const chiSquareStatistic = groups.reduce(
+		(sum, group) =>
+			group.expectedVisitors > 0
+				? sum + (group.visitors - group.expectedVisitors) ** 2 / group.expectedVisitors
+				: sum,
+		0
+	);
+	const degreesOfFreedom = variations.length - 1;
+	const pValue =
+		totalVisitors > 0 ? 1 - jStat.chisquare.cdf(chiSquareStatistic, degreesOfFreedom) : 1;
+
+	return {
+		isSignificant: pValue < threshold,
+		pValue,
+		confidenceLevel: 1 - threshold,
+		testStatistic: chiSquareStatistic,
+		degreesOfFreedom,
+		threshold,
+		groups
+	};
+}
+
+/**
+ * Explains a sample ratio mismatch in plain language
+ *
+ * @param result - Sample ratio mismatch results
+ * @returns Warning message describing the largest deviation and what to do
+ */
+export function describeSampleRatioMismatch(result: SampleRatioMismatchResult): string {
+	const largestDeviation = result.groups.reduce((largest, group) =>
+		Math.abs(group.visitors - group.expectedVisitors) >
+		Math.abs(largest.visitors - largest.expectedVisitors)
+			? group
+			: largest
+	);
+	const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`;
+
+	return `Sample ratio mismatch: ${largestDeviation.name} received ${formatShare(largestDeviation.observedShare)} of visitors but should have received ${formatShare(largestDeviation.expectedShare)} (p = ${result.pValue.toExponential(1)}). The traffic split is broken, so don't trust these results. Check how people were assigned to each version (caching, redirects, tracking, list filters) and rerun the test.`;
+}
+
+/**
+ * Parses an intended traffic split such as "50/50", "1:1:2" or "40, 30, 30"
+ *
+ * @param text - Split entered by the user
+ * @returns Allocation ratios, or null if the text isn't a list of positive numbers
+ */
+export function parseAllocationRatios(text: string): number[] | null {
+	const pieces = text
+		.replace(/%/g, "")
+		.split(/[\s:/,]+/)
+		.filter((piece) => piece !== "");
+	const ratios = pieces.map(Number);
+
+	return ratios.length > 0 && ratios.every((ratio) => Number.isFinite(ratio) && ratio > 0)
+		? ratios
+		: null;
+}
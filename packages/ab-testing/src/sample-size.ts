@@ -0,0 +1,349 @@
+import jStat from "jstat";
+import type {
+	MarginSampleSizeInput,
+	SampleSizeCalculationInput,
+	TestDurationInput,
+	TestSidedness
+} from "./types/ab-testing";
+import type {
+	MarginSampleSizeResult,
+	SampleSizeResult,
+	SampleSizeSolveFor,
+	TestDurationPlan
+} from "./types/statistical-results";
+
+export type SampleSizeEstimateInput = {
+	rateA: number;
+	rateB: number;
+	confidenceLevel: number;
+	power?: number;
+	sidedness?: TestSidedness;
+};
+
+type PlanningParameters = {
+	baselineRate: number;
+	targetRate: number;
+	criticalValue: number;
+	allocationRatio: number;
+};
+
+/**
+ * z-value a result must exceed to be significant, and the multiplier for interval margins
+ * (pass 1 - confidence level, two-sided). Exact inverse-normal quantile, so any significance level
+ * works (not just 90/95/99%)
+ */
+export const criticalValueFor = (significanceLevel: number, sidedness: TestSidedness): number =>
+	jStat.normal.inv(
+		1 - (sidedness === "two-sided" ? significanceLevel / 2 : significanceLevel),
+		0,
+		1
+	);
+
+/**
+ * Standard errors (for one control visitor) under "no difference" and under the target effect
+ *
+ * HOW IT WORKS (for experts):
+ * With n₂ = r·n₁, the difference in rates has standard error σ/√n₁ where
+ * - under H₀: σ₀ = √(p̄(1 − p̄)(1 + 1/r)), p̄ = (p₁ + r·p₂)/(1 + r)
+ * - under H₁: σ₁ = √(p₁(1 − p₁) + p₂(1 − p₂)/r)
+ */
+const standardDeviations = ({
+	baselineRate,
+	targetRate,
+	allocationRatio
+}: PlanningParameters): { null: number; alternative: number } => {
+	const pooledRate = (baselineRate + allocationRatio * targetRate) / (1 + allocationRatio);
+
+	return {
+		null: Math.sqrt(pooledRate * (1 - pooledRate) * (1 + 1 / allocationRatio)),
+		alternative: Math.sqrt(
+			baselineRate * (1 - baselineRate) + (targetRate * (1 - targetRate)) / allocationRatio
+		)
+	};
+};
+
+/**
+ * Control group size needed to reach the given power (not rounded)
+ */
+const requiredControlSampleSize = (parameters: PlanningParameters, power: number): number => {
+	const difference = Math.abs(parameters.targetRate - parameters.baselineRate);
+	const deviations = standardDeviations(parameters);
+	const zPower = jStat.normal.inv(power, 0, 1);
+
+	return (
+		((parameters.criticalValue * deviations.null + zPower * deviations.alternative) / difference) **
+		2
+	);
+};
+
+/**
+ * Power reached with the given control group size
+ */
+const achievedPower = (parameters: PlanningParameters, controlSampleSize: number): number => {
+	const difference = Math.abs(parameters.targetRate - parameters.baselineRate);
+	const deviations = standardDeviations(parameters);
+	const zPower =
+		(difference * Math.sqrt(controlSampleSize) - parameters.criticalValue * deviations.null) /
+		deviations.alternative;
+
+	return jStat.normal.cdf(zPower, 0, 1);
+};
+
+export const estimateSampleSizePerVariant = ({
+	rateA,
+	rateB,
+	confidenceLevel,
+	power = 0.8,
+	sidedness = "two-sided"
+}: SampleSizeEstimateInput): number | null => {
+	const difference = Math.abs(rateA - rateB);
+	if (difference === 0) return null;
+
+	return Math.ceil(
+		requiredControlSampleSize(
+			{
+				baselineRate: rateA,
+				targetRate: rateB,
+				criticalValue: criticalValueFor(1 - confidenceLevel, sidedness),
+				allocationRatio: 1
+			},
+			power
+		)
+	);
+};
+
+/**
+ * Plans a conversion-rate test: solves for sample size, minimum detectable effect or power
+ *
+ * WHAT THIS DOES (for novices):
+ * Sample size, the smallest improvement you care about, and the chance of spotting it (power) are
+ * linked: fix any two and the third follows. Leave one blank and this works it out, so you know
+ * before you start whether your audience is big enough.
+ *
+ * HOW IT WORKS (for experts):
+ * - Two-proportion z-test with exact quantiles: n₁ = ((z₁₋α·σ₀ + z₁₋β·σ₁) / Δ)²
+ *   (z₁₋α/2 for two-sided tests), variants get n₂ = r·n₁
+ * - k variants against one control with Bonferroni: α is divided by k
+ * - Power: Φ((Δ√n₁ − z·σ₀) / σ₁), ignoring the negligible opposite tail of two-sided tests
+ * - Minimum detectable effect: bisection on the relative lift, since required n falls as Δ grows
+ *
+ * @param input - Baseline rate, test settings and two of sample size, effect and power
+ * @returns All three quantities with group sizes and the critical value used
+ */
+export const calculateSampleSize = (input: SampleSizeCalculationInput): SampleSizeResult => {
+	const { baselineRate, significanceLevel, sidedness, allocationRatio, variantCount, correction } =
+		input;
+
+	const missing = [
+		input.controlSampleSize === undefined,
+		input.minimumDetectableEffect === undefined,
+		input.power === undefined
+	].filter(Boolean).length;
+	if (missing !== 1) {
+		throw new Error(
+			"Leave exactly one of sample size, minimum detectable effect and power blank to solve for it"
+		);
+	}
+
+	const adjustedSignificanceLevel =
+		correction === "bonferroni" ? significanceLevel / variantCount : significanceLevel;
+	const criticalValue = criticalValueFor(adjustedSignificanceLevel, sidedness);
+	const parametersFor = (relativeEffect: number): PlanningParameters => ({
+		baselineRate,
+		targetRate: baselineRate * (1 + relativeEffect),
+		criticalValue,
+		allocationRatio
+	});
+
+	let solvedFor: SampleSizeSolveFor;
+	let relativeEffect: number;
+	let controlSampleSize: number;
+	let power: number;
+
+	if (input.controlSampleSize === undefined) {
+		solvedFor = "sampleSize";
+		relativeEffect = input.minimumDetectableEffect ?? 0;
+		power = input.power ?? 0;
+		controlSampleSize = Math.ceil(requiredControlSampleSize(parametersFor(relativeEffect), power));
+	} else if (input.power === undefined) {
+		solvedFor = "power";
+		relativeEffect = input.minimumDetectableEffect ?? 0;
+		controlSampleSize = input.controlSampleSize;
+		power = achievedPower(parametersFor(relativeEffect), controlSampleSize);
+	} else {
+		solvedFor = "minimumDetectableEffect";
+		controlSampleSize = input.controlSampleSize;
+		power = input.power;
+
+		// Largest lift that keeps the target rate below 100%
+		let low = 0;
+		let high = (1 - 1e-9) / baselineRate - 1;
+		if (achievedPower(parametersFor(high), controlSampleSize) < power) {
+			throw new Error(
+				"This sample size is too small to reliably detect any improvement. Increase the sample size or lower the power."
+			);
+		}
+
+		// Bisection: power increases monotonically with the effect size
+		for (let iteration = 0; iteration < 100; iteration++) {
+			const middle = (low + high) / 2;
+			if (achievedPower(parametersFor(middle), controlSampleSize) < power) {
+				low = middle;
+			} else {
+				high = middle;
+			}
+		}
+		relativeEffect = high;
+	}
+
+	const targetRate = baselineRate * (1 + relativeEffect);
+	const variantSampleSize = Math.ceil(controlSampleSize * allocationRatio);
+
+	return {
+		solvedFor,
+		baselineRate,
+		targetRate,
+		minimumDetectableEffect: {
+			relative: relativeEffect,
+			absolute: targetRate - baselineRate
+		},
+		controlSampleSize,
+		variantSampleSize,
+		totalSampleSize: controlSampleSize + variantCount * variantSampleSize,
+		power,
+		significanceLevel,
+		adjustedSignificanceLevel,
+		criticalValue,
+		sidedness,
+		variantCount,
+		allocationRatio,
+		correction
+	};
+};
+
+/**
+ * Plans a non-inferiority or equivalence test: people needed per group
+ *
+ * WHAT THIS DOES (for novices):
+ * Showing that a change is "not worse by more than 1 point" takes more people than you might
+ * expect, because the test has to pin the difference down tightly. The smaller the margin, the
+ * more people you need.
+ *
+ * HOW IT WORKS (for experts):
+ * Normal approximations for equal groups (Chow, Shao & Wang), with σ² = p₁(1−p₁) + p₂(1−p₂)
+ * and p₂ = p₁ + d:
+ * - Non-inferiority: n = (z₁₋α + z₁₋β)² σ² / (d + δ)²
+ * - Equivalence (TOST): n = (z₁₋α + z₁₋β)² σ² / (δ − |d|)², or (z₁₋α + z₁₋β/2)² σ² / δ² when d = 0,
+ *   since both one-sided tests must succeed
+ *
+ * @param input - Test type, baseline rate, margin, expected difference, significance and power
+ * @returns People per group and in total
+ */
+export const calculateMarginSampleSize = (input: MarginSampleSizeInput): MarginSampleSizeResult => {
+	const { testType, baselineRate, margin, expectedDifference, significanceLevel, power } = input;
+	const targetRate = baselineRate + expectedDifference;
+	const variance = baselineRate * (1 - baselineRate) + targetRate * (1 - targetRate);
+
+	const headroom =
+		testType === "non-inferiority"
+			? expectedDifference + margin
+			: margin - Math.abs(expectedDifference);
+	if (!(headroom > 0)) {
+		throw new Error(
+			testType === "non-inferiority"
+				? "The expected difference is already worse than the margin, so non-inferiority can't be shown"
+				: "The expected difference is already outside the margin, so equivalence can't be shown"
+		);
+	}
+
+	const criticalValue = criticalValueFor(significanceLevel, "one-sided");
+	const zPower = jStat.normal.inv(
+		testType === "equivalence" && expectedDifference === 0 ? 1 - (1 - power) / 2 : power,
+		0,
+		1
+	);
+	const sampleSizePerVariant = Math.ceil(
+		((criticalValue + zPower) ** 2 * variance) / headroom ** 2
+	);
+
+	return {
+		sampleSizePerVariant,
+		totalSampleSize: sampleSizePerVariant * 2,
+		criticalValue
+	};
+};
+
+/** Days in a full weekly cycle: shorter tests over- or under-represent some weekdays */
+export const DAYS_PER_WEEK = 7;
+
+/**
+ * Works out how many days or sends a test needs
+ *
+ * WHAT THIS DOES (for novices):
+ * Tells you before you start how long a test has to run to reliably spot the improvement you care
+ * about, from your normal traffic. If the answer is months, test a bolder change or fewer variants.
+ *
+ * HOW IT WORKS (for experts):
+ * - Per-group sample size from estimateSampleSizePerVariant (equal groups, chosen direction)
+ * - With several variants, each comparison with the control uses a Bonferroni-adjusted confidence level
+ * - Periods = ⌈(k + 1) × n / traffic per period⌉
+ *
+ * @param input - Baseline rate, effect to detect, variants and traffic per day or per send
+ * @returns Sample sizes, days or sends needed, and warnings
+ */
+export const planTestDuration = (input: TestDurationInput): TestDurationPlan => {
+	const { baselineRate, minimumDetectableEffect, variantCount, trafficSource, trafficPerPeriod } =
+		input;
+	const comparisonConfidenceLevel = 1 - (1 - input.confidenceLevel) / variantCount;
+
+	const sampleSizePerVariant = estimateSampleSizePerVariant({
+		rateA: baselineRate,
+		rateB: baselineRate * (1 + minimumDetectableEffect),
+		confidenceLevel: comparisonConfidenceLevel,
+		sidedness: input.sidedness,
+		...(input.power !== undefined ? { power: input.power } : {})
+	});
+	if (sampleSizePerVariant === null) {
+		throw new Error("Please enter an improvement to detect that's greater than 0%");
+	}
+
+	const totalSampleSize = sampleSizePerVariant * (variantCount + 1);
+	const periods = Math.ceil(totalSampleSize / trafficPerPeriod);
+	const isDaily = trafficSource === "daily";
+	const isShorterThanOneWeek = isDaily && periods < DAYS_PER_WEEK;
+	const warnings: string[] = [];
+
+	if (isShorterThanOneWeek) {
+		warnings.push(
+			`The test would reach its sample size in ${periods} ${periods === 1 ? "day" : "days"}, but people behave differently on different days of the week. Run it for at least ${DAYS_PER_WEEK} full days so every weekday is included.`
+		);
+	} else if (isDaily && periods % DAYS_PER_WEEK !== 0) {
+		warnings.push(
+			`Round up to ${Math.ceil(periods / DAYS_PER_WEEK) * DAYS_PER_WEEK} days so the test covers whole weeks and no weekday counts twice.`
+		);
+	}
+
+	if (!isDaily && periods > 1) {
+		warnings.push(
+			`One send isn't enough. Keep the same split across ${periods} sends and add up the results, or test a bolder change.`
+		);
+	}
+
+	if (isDaily && periods > 8 * DAYS_PER_WEEK) {
+		warnings.push(
+			"This test would take more than two months. Seasonal changes and returning visitors can blur results over that time, so consider a bolder change or fewer variants."
+		);
+	}
+
+	return {
+		sampleSizePerVariant,
+		totalSampleSize,
+		trafficSource,
+		periods,
+		recommendedDays: isDaily
+			? Math.max(DAYS_PER_WEEK, Math.ceil(periods / DAYS_PER_WEEK) * DAYS_PER_WEEK)
+			: null,
+		isShorterThanOneWeek,
+		warnings
+	};
+};
@@ -0,0 +1,249 @@
+import jStat from "jstat";
+import type {
+	SegmentedTestData,
+	TestSidedness,
+	TestVariation,
+	TwoProportionTestData
+} from "./types/ab-testing";
+import type {
+	CochranMantelHaenszelResult,
+	SegmentAnalysisResult,
+	SegmentedComparison,
+	TwoProportionResult
+} from "./types/statistical-results";
+import { intervalLevelFor } from "./intervals";
+import { criticalValueFor } from "./sample-size";
+import { compareTwoProportions, formatTwoProportionData } from "./statistical-tests";
+
+/**
+ * Cochran–Mantel–Haenszel test of a variation against the control across segments
+ *
+ * WHAT THIS DOES (for novices):
+ * If one version happened to get more mobile visitors, and mobile visitors convert less, adding
+ * the segments together can make that version look worse even when it did better on every
+ * device. This test compares like with like inside each segment, then combines the evidence.
+ *
+ * HOW IT WORKS (for experts):
+ * - For each segment's 2×2 table, under H₀ the variation's conversions are hypergeometric with
+ *   E[x₂] = n₂m/N and Var[x₂] = n₁n₂m(N − m) / (N²(N − 1)), where m is the segment's conversions
+ * - z = Σ(x₂ − E[x₂]) / √ΣVar[x₂]; z² is the CMH chi-square without continuity correction
+ *   (R: mantelhaen.test(correct = FALSE)). One-sided p-values use the upper tail of z
+ * - Mantel–Haenszel common odds ratio ΣR/ΣS with R = AD/N and S = BC/N, and the
+ *   Robins–Breslow–Greenland variance for its log
+ * - Adjusted difference: Mantel–Haenszel weighted risk difference, weights n₁n₂/N
+ *
+ * @param segments - Each segment's data for the two groups (n1, x1 control; n2, x2 variation)
+ * @param confidenceLevel - Confidence level (e.g. 0.95)
+ * @param sidedness - "two-sided" (default) or "one-sided"
+ * @returns Stratified test with the common odds ratio and adjusted difference
+ */
+export function cochranMantelHaenszelTest(
+	segments: Pick<TwoProportionTestData, "n1" | "x1" | "n2" | "x2">[],
+	confidenceLevel: number,
+	sidedness: TestSidedness = "two-sided"
+): CochranMantelHaenszelResult {
+	let observedMinusExpected = 0;
+	let variance = 0;
+	let weightedDifference = 0;
+	let totalWeight = 0;
+	// Mantel–Haenszel odds ratio terms and their Robins–Breslow–Greenland variance sums
+	let sumR = 0;
+	let sumS = 0;
+	let sumPR = 0;
+	let sumPSQR = 0;
+	let sumQS = 0;
+
+	for (const { n1, x1, n2, x2 } of segments) {
+		const total = n1 + n2;
+		const conversions = x1 + x2;
+
+		if (total > 1) {
+			observedMinusExpected += x2 - (n2 * conversions) / total;
+			variance += (n1 * n2 * conversions * (total - conversions)) / (total * total * (total - 1));
+		}
+
+		const weight = (n1 * n2) / total;
+		weightedDifference += weight * (x2 / n2 - x1 / n1);
+		totalWeight += weight;
+
+		const r = (x2 * (n1 - x1)) / total;
+		const s = ((n2 - x2) * x1) / total;
+		const p = (x2 + n1 - x1) / total;
+		const q = (n2 - x2 + x1) / total;
+		sumR += r;
+		sumS += s;
+		sumPR += p * r;
+		sumPSQR += p * s + q * r;
+		sumQS += q * s;
+	}
+
+	const zScore = variance === 0 ? 0 : observedMinusExpected / Math.sqrt(variance);
+	const pValue =
+		variance === 0
+			? 1
+			: sidedness === "one-sided"
+				? 1 - jStat.normal.cdf(zScore, 0, 1)
+				: 2 * (1 - jStat.normal.cdf(Math.abs(zScore), 0, 1));
+
+	let commonOddsRatio: number | null = null;
+	let oddsRatioInterval: { lower: number; upper: number } | null = null;
+
+	if (sumR > 0 && sumS > 0) {
+		commonOddsRatio = sumR / sumS;
+		const standardError = Math.sqrt(
+			sumPR / (2 * sumR * sumR) + sumPSQR / (2 * sumR * sumS) + sumQS / (2 * sumS * sumS)
+		);
+		const level = intervalLevelFor(confidenceLevel, sidedness);
+		const criticalValue = criticalValueFor(1 - level, "two-sided");
+		oddsRatioInterval = {
+			lower: commonOddsRatio * Math.exp(-criticalValue * standardError),
+			upper: commonOddsRatio * Math.exp(criticalValue * standardError)
+		};
+	}
+
+	return {
+		isSignificant: pValue < 1 - confidenceLevel,
+		pValue,
+		confidenceLevel,
+		testStatistic: zScore,
+		degreesOfFreedom: 1,
+		sidedness,
+		adjustedDifference: totalWeight === 0 ? 0 : weightedDifference / totalWeight,
+		commonOddsRatio,
+		oddsRatioInterval
+	};
+}
+
+const totalOf = (name: string, variations: TestVariation[]): TestVariation => ({
+	name,
+	visitors: variations.reduce((sum, variation) => sum + variation.visitors, 0),
+	conversions: variations.reduce((sum, variation) => sum + variation.conversions, 0)
+});
+
+const describeDirection = (difference: number): string => (difference > 0 ? "better" : "worse");
+
+/**
+ * Explains when segment-level results point the other way from the added-up totals
+ */
+function directionWarning(
+	controlName: string,
+	variationName: string,
+	segmentResults: TwoProportionResult[],
+	aggregate: TwoProportionResult,
+	stratified: CochranMantelHaenszelResult
+): { simpsonsParadox: boolean; warning: string | null } {
+	const overall = Math.sign(aggregate.improvement.absolute);
+	const segmentDirections = segmentResults
+		.map((result) => Math.sign(result.improvement.absolute))
+		.filter((direction) => direction !== 0);
+
+	if (overall === 0 || segmentDirections.length === 0) {
+		return { simpsonsParadox: false, warning: null };
+	}
+
+	const simpsonsParadox = segmentDirections.every((direction) => direction === -overall);
+	if (simpsonsParadox) {
+		return {
+			simpsonsParadox,
+			warning: `Simpson's paradox: <em>${variationName}</em> did ${describeDirection(-overall)} than <em>${controlName}</em> in every segment, but ${describeDirection(overall)} when the segments are added together. The versions reached a different mix of segments, so the overall totals are misleading. Go by the segment and stratified results.`
+		};
+	}
+
+	if (Math.sign(stratified.adjustedDifference) === -overall) {
+		return {
+			simpsonsParadox,
+			warning: `Comparing like with like inside each segment, <em>${variationName}</em> did ${describeDirection(-overall)} than <em>${controlName}</em>, the opposite of the overall totals. Check whether each version reached the same mix of segments before trusting the overall result.`
+		};
+	}
+
+	return { simpsonsParadox, warning: null };
+}
+
+/**
+ * Breaks a test down by segment, with a stratified test and a Simpson's paradox check
+ *
+ * WHAT THIS DOES (for novices):
+ * Tests each variation against the control within every segment (such as mobile and desktop),
+ * for all segments added together, and with a stratified test that fairly combines the segments.
+ * It warns you when the segments tell a different story from the totals, which happens when the
+ * versions were shown to a different mix of people.
+ *
+ * HOW IT WORKS (for experts):
+ * - Segment and overall comparisons use compareTwoProportions() (z-test or Fisher's exact test)
+ * - Stratified comparison: cochranMantelHaenszelTest() across segments
+ * - Simpson's paradox: every segment with a difference points opposite to the aggregate
+ * - Segment-level p-values are not corrected for the number of segments: treat them as
+ *   exploratory, and the stratified test as the confirmatory result
+ *
+ * @param data - Segments (control first in each), confidence level and sidedness
+ * @returns Per-segment, overall and stratified comparisons for each variation
+ */
+export function segmentAnalysis(data: SegmentedTestData): SegmentAnalysisResult {
+	const { segments, confidenceLevel, sidedness = "two-sided" } = data;
+	const [firstSegment] = segments;
+	const controlName = firstSegment?.variations[0]?.name;
+	if (!firstSegment || !controlName || firstSegment.variations.length < 2) {
+		throw new Error("A segment breakdown needs segments with a control and at least one variation");
+	}
+
+	const comparisons: SegmentedComparison[] = firstSegment.variations
+		.slice(1)
+		.map(({ name: variationName }, index) => {
+			const pairs = segments.map((segment) => {
+				const control = segment.variations[0];
+				const variation = segment.variations[index + 1];
+				if (!control || !variation) {
+					throw new Error(`Every segment needs results for ${variationName}`);
+				}
+				return { control, variation };
+			});
+
+			const testData = pairs.map(({ control, variation }) =>
+				formatTwoProportionData(control, variation, confidenceLevel, sidedness)
+			);
+			const segmentResults = testData.map((segmentData) =>
+				compareTwoProportions(segmentData, controlName, variationName)
+			);
+			const aggregate = compareTwoProportions(
+				formatTwoProportionData(
+					totalOf(
+						controlName,
+						pairs.map(({ control }) => control)
+					),
+					totalOf(
+						variationName,
+						pairs.map(({ variation }) => variation)
+					),
+					confidenceLevel,
+					sidedness
+				),
+				controlName,
+				variationName
+			);
+			const stratified = cochranMantelHaenszelTest(testData, confidenceLevel, sidedness);
+			const { simpsonsParadox, warning } = directionWarning(
+				controlName,
+				variationName,
+				segmentResults,
+				aggregate,
+				stratified
+			);
+
+			return {
+				variationName,
+				segmentResults,
+				aggregate,
+				stratified,
+				simpsonsParadox,
+				directionWarning: warning
+			};
+		});
+
+	return {
+		confidenceLevel,
+		sidedness,
+		segmentNames: segments.map((segment) => segment.name),
+		controlName,
+		comparisons
+	};
+}
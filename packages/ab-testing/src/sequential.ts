@@ -0,0 +1,471 @@
+import jStat from "jstat";
+import type {
+	AlphaSpendingFunction,
+	SequentialLookData,
+	SequentialPlanInput,
+	SequentialTestPlan,
+	TestSidedness
+} from "./types/ab-testing";
+import type {
+	SequentialBoundary,
+	SequentialDecision,
+	SequentialLookResult,
+	SequentialTestResult
+} from "./types/statistical-results";
+import { criticalValueFor, estimateSampleSizePerVariant } from "./sample-size";
+import { formatTwoProportionData, twoProportionTest } from "./statistical-tests";
+
+/**
+ * Display names and descriptions for each alpha-spending function
+ */
+export const ALPHA_SPENDING_FUNCTIONS: Record<
+	AlphaSpendingFunction,
+	{ name: string; description: string }
+> = {
+	"obrien-fleming": {
+		name: "O'Brien–Fleming",
+		description:
+			"Early looks need overwhelming evidence, so the final look is almost as sensitive as a normal test. Best for most teams."
+	},
+	pocock: {
+		name: "Pocock",
+		description:
+			"Every look uses a similar threshold, so big wins stop early, but the final look is stricter than a normal test."
+	}
+};
+
+/** Below this chance of a significant final result, we recommend stopping for futility */
+export const FUTILITY_CONDITIONAL_POWER = 0.1;
+
+/** Grid points used to integrate over the continuation region at each look */
+const GRID_POINTS = 301;
+
+/** Largest |z| boundary considered; acts as "never stop" when no alpha is spent */
+const MAXIMUM_BOUNDARY = 12;
+
+/** Standard deviations either side of the mean beyond which the density is ignored */
+const DENSITY_RANGE = 8;
+
+type WeightedPoint = { point: number; mass: number };
+
+const normalDensity = (x: number): number => Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+const normalCdf = (x: number): number => jStat.normal.cdf(x, 0, 1);
+
+/**
+ * Cumulative false-positive budget spent by information fraction t (Lan–DeMets)
+ *
+ * HOW IT WORKS (for experts):
+ * Symmetric boundaries spend α/2 on each side:
+ * - O'Brien–Fleming type: α(t) = 2 × (2 − 2Φ(z₁₋α/4 / √t))
+ * - Pocock type: α(t) = α · ln(1 + (e − 1)t)
+ *
+ * @param spendingFunction - Which spending function to use
+ * @param informationFraction - Share of the maximum sample collected (0-1)
+ * @param alpha - Overall two-sided significance level
+ * @returns Alpha spent up to this point
+ */
+export function alphaSpent(
+	spendingFunction: AlphaSpendingFunction,
+	informationFraction: number,
+	alpha: number
+): number {
+	const t = Math.min(Math.max(informationFraction, 0), 1);
+	if (t === 0) return 0;
+
+	if (spendingFunction === "pocock") {
+		return alpha * Math.log(1 + (Math.E - 1) * t);
+	}
+
+	const zAlpha = jStat.normal.inv(1 - alpha / 4, 0, 1);
+	return 2 * (2 - 2 * normalCdf(zAlpha / Math.sqrt(t)));
+}
+
+/**
+ * Alpha spent by information fraction t for one- or two-sided boundaries
+ * A one-sided test spends its whole budget on the upper side: the two-sided function at 2α, halved
+ */
+const alphaSpentFor = (
+	spendingFunction: AlphaSpendingFunction,
+	informationFraction: number,
+	alpha: number,
+	sidedness: TestSidedness
+): number =>
+	sidedness === "one-sided"
+		? alphaSpent(spendingFunction, informationFraction, 2 * alpha) / 2
+		: alphaSpent(spendingFunction, informationFraction, alpha);
+
+/**
+ * Probability of crossing the boundary (on the score scale) at the next look, from the current
+ * continuation density: +bound only for one-sided tests, ±bound for two-sided
+ */
+function crossingProbability(
+	state: WeightedPoint[],
+	increment: number,
+	bound: number,
+	drift: number,
+	sidedness: TestSidedness
+): number {
+	const scale = Math.sqrt(increment);
+	return state.reduce((sum, { point, mass }) => {
+		const mean = point + drift * increment;
+		const upper = 1 - normalCdf((bound - mean) / scale);
+		const lower = sidedness === "two-sided" ? normalCdf((-bound - mean) / scale) : 0;
+		return sum + mass * (upper + lower);
+	}, 0);
+}
+
+/**
+ * Density of the score statistic at the next look, restricted to the continuation region
+ * and stored as grid points weighted for trapezoid integration
+ */
+function propagateDensity(
+	state: WeightedPoint[],
+	increment: number,
+	bound: number,
+	drift: number,
+	informationFraction: number,
+	sidedness: TestSidedness
+): WeightedPoint[] {
+	const scale = Math.sqrt(increment);
+	const centre = drift * informationFraction;
+	const spread = DENSITY_RANGE * Math.sqrt(informationFraction);
+	// One-sided tests never stop for a variation doing worse, so the region has no lower bound
+	const lower = sidedness === "two-sided" ? Math.max(-bound, centre - spread) : centre - spread;
+	const upper = Math.min(bound, centre + spread);
+	if (upper <= lower) return [];
+
+	const step = (upper - lower) / (GRID_POINTS - 1);
+	const next: WeightedPoint[] = [];
+
+	for (let i = 0; i < GRID_POINTS; i++) {
+		const point = lower + i * step;
+		const weight = i === 0 || i === GRID_POINTS - 1 ? step / 2 : step;
+		const density = state.reduce(
+			(sum, previous) =>
+				sum +
+				(previous.mass * normalDensity((point - previous.point - drift * increment) / scale)) /
+					scale,
+			0
+		);
+		next.push({ point, mass: weight * density });
+	}
+
+	return next;
+}
+
+/**
+ * Efficacy boundaries for a group-sequential test
+ *
+ * WHAT THIS DOES (for novices):
+ * Every time you check a running test you get another chance of a false positive. This spreads
+ * a fixed false-positive budget across your planned looks, giving the z-score each look must
+ * reach before you can stop and declare a winner.
+ *
+ * HOW IT WORKS (for experts):
+ * - Score statistics Sₖ = Zₖ√tₖ follow Brownian motion in information time
+ * - At each look the boundary bₖ solves P(first crossing at k) = α(tₖ) − α(tₖ₋₁), using
+ *   recursive numerical integration of the continuation density (Armitage, McPherson & Rowe)
+ * - Two-sided tests stop at |Z| ≥ bₖ; one-sided tests only at Z ≥ bₖ, spending all of α there
+ *
+ * @param informationFractions - Strictly increasing information fractions, ending at or below 1
+ * @param alpha - Overall significance level
+ * @param spendingFunction - Which spending function to use
+ * @param sidedness - Two-sided (default) or one-sided (variation better than control)
+ * @returns z boundary for each look (|z| for two-sided tests)
+ */
+export function sequentialBoundaries(
+	informationFractions: number[],
+	alpha: number,
+	spendingFunction: AlphaSpendingFunction,
+	sidedness: TestSidedness = "two-sided"
+): number[] {
+	const boundaries: number[] = [];
+	let state: WeightedPoint[] = [{ point: 0, mass: 1 }];
+	let previousFraction = 0;
+	let previousSpent = 0;
+
+	for (const fraction of informationFractions) {
+		const increment = fraction - previousFraction;
+		if (increment <= 0) {
+			throw new Error("Information fractions must be strictly increasing");
+		}
+
+		const spent = alphaSpentFor(spendingFunction, fraction, alpha, sidedness);
+		const target = spent - previousSpent;
+		const scoreScale = Math.sqrt(fraction);
+
+		// Bisection on the z-scale boundary: crossing probability falls as the boundary rises
+		let low = 0;
+		let high = MAXIMUM_BOUNDARY;
+		for (let iteration = 0; iteration < 60; iteration++) {
+			const middle = (low + high) / 2;
+			if (crossingProbability(state, increment, middle * scoreScale, 0, sidedness) > target) {
+				low = middle;
+			} else {
+				high = middle;
+			}
+		}
+		const boundary = (low + high) / 2;
+
+		boundaries.push(boundary);
+		state = propagateDensity(state, increment, boundary * scoreScale, 0, fraction, sidedness);
+		previousFraction = fraction;
+		previousSpent = spent;
+	}
+
+	return boundaries;
+}
+
+/**
+ * Probability of crossing a boundary at any look when the true drift is θ
+ */
+function sequentialPower(
+	fractions: number[],
+	boundaries: number[],
+	drift: number,
+	sidedness: TestSidedness
+): number {
+	let state: WeightedPoint[] = [{ point: 0, mass: 1 }];
+	let previousFraction = 0;
+	let power = 0;
+
+	fractions.forEach((fraction, index) => {
+		const increment = fraction - previousFraction;
+		const bound = (boundaries[index] ?? MAXIMUM_BOUNDARY) * Math.sqrt(fraction);
+		power += crossingProbability(state, increment, bound, drift, sidedness);
+		state = propagateDensity(state, increment, bound, drift, fraction, sidedness);
+		previousFraction = fraction;
+	});
+
+	return power;
+}
+
+/**
+ * How much bigger the maximum sample must be than a fixed-horizon test for the same power
+ *
+ * @param fractions - Planned information fractions, ending at 1
+ * @param boundaries - Efficacy boundaries for those looks
+ * @param alpha - Overall significance level
+ * @param power - Target power
+ * @param sidedness - Two-sided (default) or one-sided, matching the boundaries
+ * @returns Inflation factor (≥ 1) to apply to the fixed-horizon sample size
+ */
+export function sequentialInflationFactor(
+	fractions: number[],
+	boundaries: number[],
+	alpha: number,
+	power: number,
+	sidedness: TestSidedness = "two-sided"
+): number {
+	const fixedDrift = criticalValueFor(alpha, sidedness) + jStat.normal.inv(power, 0, 1);
+
+	let low = fixedDrift;
+	let high = fixedDrift * 2;
+	for (let iteration = 0; iteration < 40; iteration++) {
+		const middle = (low + high) / 2;
+		if (sequentialPower(fractions, boundaries, middle, sidedness) < power) {
+			low = middle;
+		} else {
+			high = middle;
+		}
+	}
+
+	return ((low + high) / 2 / fixedDrift) ** 2;
+}
+
+/** Equally spaced information fractions for the given number of looks */
+const equallySpaced = (looks: number, start: number = 0): number[] =>
+	Array.from({ length: looks }, (_, index) => start + ((1 - start) * (index + 1)) / looks);
+
+/**
+ * Boundaries with their p-value equivalents and alpha spent, for the given look fractions
+ */
+function describeBoundaries(plan: SequentialTestPlan, fractions: number[]): SequentialBoundary[] {
+	const alpha = 1 - plan.confidenceLevel;
+	const sidedness = plan.sidedness ?? "two-sided";
+	const boundaries = sequentialBoundaries(fractions, alpha, plan.spendingFunction, sidedness);
+
+	return fractions.map((informationFraction, index) => {
+		const efficacyBoundary = boundaries[index] ?? MAXIMUM_BOUNDARY;
+		const tailProbability = 1 - normalCdf(efficacyBoundary);
+		return {
+			lookNumber: index + 1,
+			informationFraction,
+			efficacyBoundary,
+			nominalAlpha: sidedness === "two-sided" ? 2 * tailProbability : tailProbability,
+			cumulativeAlphaSpent: alphaSpentFor(
+				plan.spendingFunction,
+				informationFraction,
+				alpha,
+				sidedness
+			)
+		};
+	});
+}
+
+/**
+ * Boundaries for every look of a plan, assuming equally spaced looks
+ *
+ * @param plan - Stored plan
+ * @returns One boundary per planned look
+ */
+export const plannedBoundaries = (plan: SequentialTestPlan): SequentialBoundary[] =>
+	describeBoundaries(plan, equallySpaced(plan.plannedLooks));
+
+/**
+ * Creates a group-sequential plan, including the maximum sample size needed
+ *
+ * @param input - Spending function, looks, confidence, power, baseline rate and effect to detect
+ * @returns Plan to store and judge each look against
+ */
+export function createSequentialPlan(input: SequentialPlanInput): SequentialTestPlan {
+	const alpha = 1 - input.confidenceLevel;
+	const sidedness = input.sidedness ?? "two-sided";
+	const fixedSampleSizePerVariant = estimateSampleSizePerVariant({
+		rateA: input.baselineRate,
+		rateB: input.baselineRate * (1 + input.minimumDetectableEffect),
+		confidenceLevel: input.confidenceLevel,
+		power: input.power,
+		sidedness
+	});
+	if (fixedSampleSizePerVariant === null) {
+		throw new Error("Please enter an improvement to detect that's greater than 0%");
+	}
+
+	const fractions = equallySpaced(input.plannedLooks);
+	const boundaries = sequentialBoundaries(fractions, alpha, input.spendingFunction, sidedness);
+	const inflation = sequentialInflationFactor(fractions, boundaries, alpha, input.power, sidedness);
+
+	return {
+		...input,
+		fixedSampleSizePerVariant,
+		maximumSampleSizePerVariant: Math.ceil(fixedSampleSizePerVariant * inflation)
+	};
+}
+
+/**
+ * Analyses the latest look at a group-sequential test
+ *
+ * WHAT THIS DOES (for novices):
+ * Enter your running totals each time you check. Rather than "significant or not", you get one of
+ * three answers: keep going, stop because there's a clear winner, or stop because a winner is now
+ * very unlikely. Checking this way keeps false positives at the level you chose, however often
+ * you look (up to the planned number of looks).
+ *
+ * HOW IT WORKS (for experts):
+ * - Information fraction tₖ = (n₁ + n₂) / (2·N_max); the planned final look always uses t = 1
+ * - Boundaries recomputed from the actual fractions (Lan–DeMets), so looks needn't be equally spaced
+ * - Z from the pooled two-proportion test on cumulative data
+ * - One-sided plans only stop for efficacy when the variation is ahead (Zₖ ≥ bₖ)
+ * - Non-binding futility: stop when conditional power under the current trend
+ *   P(|B(1)| ≥ c_K | B(tₖ), θ̂ = Zₖ/√tₖ) falls below 10% (signed Zₖ for one-sided plans)
+ *
+ * @param plan - Stored plan
+ * @param looks - Cumulative data at each look so far, in order
+ * @returns Boundaries, z-scores and the decision after the latest look
+ */
+export function sequentialAnalysis(
+	plan: SequentialTestPlan,
+	looks: SequentialLookData[]
+): SequentialTestResult {
+	if (looks.length === 0) {
+		throw new Error("Enter the results for at least one look");
+	}
+	if (looks.length > plan.plannedLooks) {
+		throw new Error(`This plan allows ${plan.plannedLooks} looks; you've entered ${looks.length}`);
+	}
+
+	const maximumTotal = 2 * plan.maximumSampleSizePerVariant;
+	const sidedness = plan.sidedness ?? "two-sided";
+
+	// Actual information fractions; the planned last look, or reaching the maximum, is final
+	const observedFractions: number[] = [];
+	let isFinalLook = false;
+	looks.forEach((look, index) => {
+		const fraction = (look.control.visitors + look.variation.visitors) / maximumTotal;
+		if (index === plan.plannedLooks - 1 || fraction >= 1) {
+			observedFractions.push(1);
+			isFinalLook = true;
+		} else {
+			observedFractions.push(fraction);
+		}
+	});
+	if (isFinalLook && observedFractions.indexOf(1) !== observedFractions.length - 1) {
+		throw new Error("The maximum sample size was reached before the latest look");
+	}
+
+	const remainingLooks = isFinalLook ? 0 : plan.plannedLooks - looks.length;
+	const lastFraction = observedFractions[observedFractions.length - 1] ?? 0;
+	const boundaries = describeBoundaries(plan, [
+		...observedFractions,
+		...equallySpaced(remainingLooks, lastFraction)
+	]);
+	const finalBoundary = boundaries[boundaries.length - 1]?.efficacyBoundary ?? MAXIMUM_BOUNDARY;
+
+	const lookResults: SequentialLookResult[] = looks.map((look, index) => {
+		const boundary = boundaries[index];
+		if (!boundary) {
+			throw new Error("Enter the results for at least one look");
+		}
+		const test = twoProportionTest(
+			formatTwoProportionData(look.control, look.variation, plan.confidenceLevel, sidedness)
+		);
+		const zScore = test.testStatistic;
+		// Distance towards the boundary: either direction counts for two-sided plans
+		const directedZScore = sidedness === "two-sided" ? Math.abs(zScore) : zScore;
+		const t = boundary.informationFraction;
+
+		let conditionalPower: number | null = null;
+		if (t < 1) {
+			const scoreSoFar = directedZScore * Math.sqrt(t);
+			const drift = directedZScore / Math.sqrt(t);
+			conditionalPower =
+				1 - normalCdf((finalBoundary - scoreSoFar - drift * (1 - t)) / Math.sqrt(1 - t));
+		}
+
+		return {
+			...boundary,
+			zScore,
+			pValue: test.pValue,
+			crossedEfficacy: directedZScore >= boundary.efficacyBoundary,
+			conditionalPower
+		};
+	});
+
+	const latest = lookResults[lookResults.length - 1];
+	const latestLook = looks[looks.length - 1];
+	if (!latest || !latestLook) {
+		throw new Error("Enter the results for at least one look");
+	}
+
+	let decision: SequentialDecision;
+	let decisionReason: string;
+	const direction = latest.zScore > 0 ? "better" : "worse";
+	const reportedZScore = sidedness === "two-sided" ? Math.abs(latest.zScore) : latest.zScore;
+
+	if (latest.crossedEfficacy) {
+		decision = "stop-efficacy";
+		decisionReason = `${latestLook.variation.name} is performing significantly ${direction} than ${latestLook.control.name}. Its z-score of ${reportedZScore.toFixed(2)} passed this look's boundary of ${latest.efficacyBoundary.toFixed(2)}, so you can stop the test now.`;
+	} else if (isFinalLook) {
+		decision = "stop-futility";
+		decisionReason = `This was the final planned look and the z-score of ${reportedZScore.toFixed(2)} didn't reach the boundary of ${latest.efficacyBoundary.toFixed(2)}. There's no significant difference; stop the test.`;
+	} else if ((latest.conditionalPower ?? 1) < FUTILITY_CONDITIONAL_POWER) {
+		decision = "stop-futility";
+		decisionReason = `If the current trend continues there's only a ${((latest.conditionalPower ?? 0) * 100).toFixed(0)}% chance of a significant result by the end. Consider stopping and testing something bolder.`;
+	} else {
+		const nextFraction = boundaries[looks.length]?.informationFraction ?? 1;
+		decision = "continue";
+		decisionReason = `Not enough evidence yet. Keep the test running until about ${Math.ceil(
+			nextFraction * plan.maximumSampleSizePerVariant
+		).toLocaleString()} people per group, then check again.`;
+	}
+
+	return {
+		plan,
+		looks: lookResults,
+		remainingBoundaries: boundaries.slice(looks.length),
+		decision,
+		decisionReason,
+		isFinalLook
+	};
+}
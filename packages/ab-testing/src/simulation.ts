@@ -0,0 +1,238 @@
+import type { SimulationInput, TestVariation } from "./types/ab-testing";
+import type {
+	SimulatedLiftDistribution,
+	SimulatedVariationResult,
+	SimulationCalibration,
+	SimulationResult,
+	TwoProportionResult
+} from "./types/statistical-results";
+import { multipleComparisonCorrection } from "./multiple-comparisons";
+import { createRandomGenerator, sampleBinomial } from "./random";
+import { compareTwoProportions, formatTwoProportionData } from "./statistical-tests";
+
+/** Standard errors either side of the promised rate still counted as calibrated */
+const CALIBRATION_TOLERANCE = 3;
+
+/** How often (in simulated tests) progress is reported */
+const PROGRESS_INTERVAL = 100;
+
+/** Each variant's comparison with the control at one look, after any correction */
+type LookResults = TwoProportionResult[];
+
+/** Value at a given quantile of already-sorted values (linear interpolation, as R's type 7) */
+const quantile = (sorted: number[], probability: number): number => {
+	const position = (sorted.length - 1) * probability;
+	const below = sorted[Math.floor(position)] ?? 0;
+	const above = sorted[Math.ceil(position)] ?? below;
+	return below + (above - below) * (position - Math.floor(position));
+};
+
+const mean = (values: number[]): number =>
+	values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function summariseLifts(
+	lifts: number[],
+	significantLifts: number[]
+): SimulatedLiftDistribution | null {
+	if (lifts.length === 0) return null;
+
+	const sorted = [...lifts].sort((a, b) => a - b);
+	return {
+		mean: mean(lifts),
+		lower: quantile(sorted, 0.025),
+		median: quantile(sorted, 0.5),
+		upper: quantile(sorted, 0.975),
+		meanSignificantLift: significantLifts.length > 0 ? mean(significantLifts) : null
+	};
+}
+
+/**
+ * Simulates many A/B tests from known true conversion rates and counts how often the
+ * calculator's own tests call a winner
+ *
+ * WHAT THIS DOES (for novices):
+ * We can't know the truth behind a real test, but in a simulation we choose it. Give every
+ * version the same true rate (an A/A test) and every "significant" result is a false alarm:
+ * at 95% confidence, about 5% of tests should raise one. Checking results every day, or adding
+ * more variants without a correction, makes false alarms far more common. Give a version a
+ * higher true rate and the share of tests that spot it is the test's power.
+ *
+ * HOW IT WORKS (for experts):
+ * - Each simulated test draws binomial conversions for every arm, in equal increments per look
+ * - At each look, each variant is compared with the control using compareTwoProportions()
+ *   (z-test, or Fisher's exact test for small expected counts), then corrected across variants
+ * - Peeking stops a test at the first look where any variant is significant; the final-look
+ *   rates ignore interim looks, as a fixed-horizon test would
+ * - Calibration compares the uncorrected final-look rejection rate among identical arms with α,
+ *   using the conservative standard error √(α(1 − α)/simulations), as null comparisons share a
+ *   control and are correlated
+ *
+ * @param input - True rates, test size, analysis settings and seed
+ * @param onProgress - Optional callback with the number of tests simulated so far
+ * @returns Empirical false-positive rate, power and observed lifts
+ */
+export function simulateABTests(
+	input: SimulationInput,
+	onProgress?: (completedSimulations: number) => void
+): SimulationResult {
+	const { trueRates, visitorsPerVariation, simulations, confidenceLevel, sidedness, looks } = input;
+	const [controlRate, ...variantRates] = trueRates;
+	if (controlRate === undefined || variantRates.length === 0) {
+		throw new Error("A simulation needs a control and at least one variant");
+	}
+
+	const random = createRandomGenerator(input.seed);
+	const alpha = 1 - confidenceLevel;
+	const variantNames = variantRates.map((_, index) => `Variant ${String.fromCharCode(66 + index)}`);
+	const isNull = variantRates.map((rate) => rate === controlRate);
+	const lookSizes = Array.from({ length: looks }, (_, index) =>
+		Math.round((visitorsPerVariation * (index + 1)) / looks)
+	);
+
+	// Significant in any direction for identical arms; otherwise only in the true direction
+	const isDetection = (result: TwoProportionResult, index: number): boolean => {
+		if (!result.isSignificant) return false;
+		if (isNull[index]) return true;
+		const trueDifference = (variantRates[index] ?? controlRate) - controlRate;
+		return Math.sign(result.improvement.absolute) === Math.sign(trueDifference);
+	};
+
+	const analyseLook = (control: TestVariation, variants: TestVariation[]): LookResults => {
+		const comparisons = variants.map((variant) =>
+			compareTwoProportions(
+				formatTwoProportionData(control, variant, confidenceLevel, sidedness),
+				control.name,
+				variant.name
+			)
+		);
+		const significant =
+			input.correctionMethod && comparisons.length > 1
+				? multipleComparisonCorrection(
+						comparisons.map((comparison) => comparison.pValue),
+						alpha,
+						input.correctionMethod
+					).results.map((result) => result.isSignificant)
+				: comparisons.map((comparison) => comparison.isSignificant);
+
+		return comparisons.map((comparison, index) => ({
+			...comparison,
+			isSignificant: significant[index] ?? false
+		}));
+	};
+
+	const detections = variantRates.map(() => 0);
+	const peekingDetections = variantRates.map(() => 0);
+	const lifts: number[][] = variantRates.map(() => []);
+	const significantLifts: number[][] = variantRates.map(() => []);
+	let falsePositives = 0;
+	let peekingFalsePositives = 0;
+	let truePositives = 0;
+	let peekingTruePositives = 0;
+	let uncorrectedNullRejections = 0;
+
+	for (let simulation = 0; simulation < simulations; simulation++) {
+		const control: TestVariation = { name: "Control", visitors: 0, conversions: 0 };
+		const variants: TestVariation[] = variantNames.map((name) => ({
+			name,
+			visitors: 0,
+			conversions: 0
+		}));
+		let stoppedResults: LookResults | null = null;
+		let finalResults: LookResults = [];
+
+		for (const [lookIndex, visitors] of lookSizes.entries()) {
+			const newVisitors = visitors - control.visitors;
+			control.visitors = visitors;
+			control.conversions += sampleBinomial(newVisitors, controlRate, random);
+			variants.forEach((variant, index) => {
+				variant.visitors = visitors;
+				variant.conversions += sampleBinomial(newVisitors, variantRates[index] ?? 0, random);
+			});
+
+			const isFinalLook = lookIndex === looks - 1;
+			// Once the peeker has stopped, only the final look still needs analysing
+			if (!isFinalLook && stoppedResults) continue;
+
+			const results = analyseLook(control, variants);
+			if (!stoppedResults && (isFinalLook || results.some((result) => result.isSignificant))) {
+				stoppedResults = results;
+			}
+			if (isFinalLook) finalResults = results;
+		}
+
+		const peekingResults = stoppedResults ?? finalResults;
+		const finalCounts = finalResults.map(isDetection);
+		const peekingCounts = peekingResults.map(isDetection);
+
+		finalResults.forEach((result, index) => {
+			if (finalCounts[index]) detections[index] = (detections[index] ?? 0) + 1;
+			if (peekingCounts[index]) peekingDetections[index] = (peekingDetections[index] ?? 0) + 1;
+
+			// improvement.relative is in percent; lifts are kept as decimals like trueLift
+			if (result.improvement.relative !== null) {
+				const lift = result.improvement.relative / 100;
+				lifts[index]?.push(lift);
+				if (result.isSignificant) significantLifts[index]?.push(lift);
+			}
+			if (isNull[index] && result.pValue < alpha) uncorrectedNullRejections++;
+		});
+
+		const anyNull = (flags: boolean[]): boolean =>
+			flags.some((flag, index) => flag && isNull[index]);
+		const anyReal = (flags: boolean[]): boolean =>
+			flags.some((flag, index) => flag && !isNull[index]);
+		if (anyNull(finalCounts)) falsePositives++;
+		if (anyNull(peekingCounts)) peekingFalsePositives++;
+		if (anyReal(finalCounts)) truePositives++;
+		if (anyReal(peekingCounts)) peekingTruePositives++;
+
+		if (
+			onProgress &&
+			((simulation + 1) % PROGRESS_INTERVAL === 0 || simulation + 1 === simulations)
+		) {
+			onProgress(simulation + 1);
+		}
+	}
+
+	const nullCount = isNull.filter(Boolean).length;
+	const hasNull = nullCount > 0;
+	const hasReal = nullCount < variantRates.length;
+
+	let calibration: SimulationCalibration | null = null;
+	if (hasNull) {
+		const observedRate = uncorrectedNullRejections / (simulations * nullCount);
+		const standardError = Math.sqrt((alpha * (1 - alpha)) / simulations);
+		const deviation = (observedRate - alpha) / standardError;
+		calibration = {
+			expectedRate: alpha,
+			observedRate,
+			standardError,
+			status:
+				deviation > CALIBRATION_TOLERANCE
+					? "too-many-false-positives"
+					: deviation < -CALIBRATION_TOLERANCE
+						? "conservative"
+						: "calibrated"
+		};
+	}
+
+	const variations: SimulatedVariationResult[] = variantRates.map((rate, index) => ({
+		name: variantNames[index] ?? `Variant ${index + 1}`,
+		trueRate: rate,
+		trueLift: controlRate > 0 ? (rate - controlRate) / controlRate : null,
+		isNull: isNull[index] ?? false,
+		detectionRate: (detections[index] ?? 0) / simulations,
+		detectionRateWithPeeking: (peekingDetections[index] ?? 0) / simulations,
+		observedLift: summariseLifts(lifts[index] ?? [], significantLifts[index] ?? [])
+	}));
+
+	return {
+		input,
+		falsePositiveRate: hasNull ? falsePositives / simulations : null,
+		falsePositiveRateWithPeeking: hasNull ? peekingFalsePositives / simulations : null,
+		power: hasReal ? truePositives / simulations : null,
+		powerWithPeeking: hasReal ? peekingTruePositives / simulations : null,
+		variations,
+		calibration
+	};
+}
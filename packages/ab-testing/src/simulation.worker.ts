@@ -0,0 +1,41 @@
+/**
+ * Web Worker that runs simulateABTests() off the main thread, so the page stays responsive
+ * while thousands of tests are simulated
+ *
+ * Start it with createSimulationWorker() from background-simulation.ts
+ */
+import type { SimulationInput } from "./types/ab-testing";
+import type { SimulationResult } from "./types/statistical-results";
+import { simulateABTests } from "./simulation";
+
+/**
+ * Message sent to the worker: validated simulation settings
+ */
+export type SimulationWorkerRequest = { input: SimulationInput };
+
+/**
+ * Messages sent back from the worker: progress while running, then a result or an error
+ */
+export type SimulationWorkerResponse =
+	| { type: "progress"; completedSimulations: number }
+	| { type: "result"; result: SimulationResult }
+	| { type: "error"; message: string };
+
+const respond = (message: SimulationWorkerResponse): void => self.postMessage(message);
+
+self.addEventListener("message", (event: MessageEvent<SimulationWorkerRequest>) => {
+	try {
+		const result = simulateABTests(event.data.input, (completedSimulations) =>
+			respond({ type: "progress", completedSimulations })
+		);
+		respond({ type: "result", result });
+	} catch (error) {
+		respond({
+			type: "error",
+			message:
+				error instanceof Error
+					? error.message
+					: "There was an error running the simulation. Please check your settings and try again."
+		});
+	}
+});
@@ -1,7 +1,33 @@
 import jStat from "jstat";
-import type { TwoProportionResult, ChiSquareResult } from "../../types/statistical-results";
-import type { TestVariation, TwoProportionTestData } from "../../types/ab-testing";
-import { bonferroniCorrection } from "./bonferroni";
+import type {
+	TwoProportionResult,
+	ChiSquareResult,
+	BusinessInsight,
+	ComprehensiveAnalysisResult,
+	GuardrailTestResult,
+	PerformanceTier
+} from "./types/statistical-results";
+import type {
+	MultipleComparisonMethod,
+	TestSidedness,
+	TestVariation,
+	TwoProportionTestData
+} from "./types/ab-testing";
+import { multipleComparisonCorrection } from "./multiple-comparisons";
+import { fisherExactPValue } from "./exact-tests";
+import { cohensH, cramersV, numberNeededToTreat, oddsRatio, riskRatio } from "./effect-sizes";
+import {
+	intervalLevelFor,
+	newcombeInterval,
+	relativeLiftInterval,
+	wilsonInterval
+} from "./intervals";
+import { criticalValueFor } from "./sample-size";
+import {
+	getNormalApproximationIssue,
+	MINIMUM_EXPECTED_COUNT,
+	smallestExpectedCell
+} from "./validation";
 
 type RatedVariation = TestVariation & { conversionRate: number };
 
@@ -29,9 +55,15 @@ function requireItem<T>(items: readonly T[], index: number, message: string): T
  * HOW IT WORKS (for experts):
  * - Uses jStat.fn.twoSidedDifferenceOfProportions() for p-value (built-in pooled approach)
  * - Pooled SE for hypothesis testing (assumes H₀: p₁ = p₂)
- * - Unpooled SE for confidence intervals (estimates true difference without H₀ assumption)
- * - Two-tailed test: checks if variation is significantly different (better OR worse)
+ * - Unpooled SE for the legacy Wald confidence interval (estimates true difference without H₀ assumption)
+ * - Wilson intervals per arm, a Newcombe interval for the difference and a delta-method interval
+ *   for the relative lift, which all stay sensible near 0% and 100%
+ * - Two-tailed test by default: checks if variation is significantly different (better OR worse)
+ * - One-sided option (H₁: p₂ > p₁): p = 1 − Φ(z), and intervals for the difference use z₁₋α so
+ *   their lower limit is the matching one-sided bound
  * - Handles edge cases: zero conversions with continuity correction
+ * - Effect sizes for comparing tests across baselines: Cohen's h, odds and risk ratios with
+ *   log-scale intervals, and the number needed to treat (see effect-sizes.ts)
  *
  * @param data - Test data with sample sizes and conversion counts
  * @param controlName - Optional name for control group (default: 'Control')
@@ -43,7 +75,7 @@ export function twoProportionTest(
 	controlName: string = "Control",
 	variationName: string = "Variation"
 ): TwoProportionResult {
-	const { n1, x1, n2, x2, confidenceLevel } = data;
+	const { n1, x1, n2, x2, confidenceLevel, sidedness = "two-sided" } = data;
 
 	// Calculate conversion rates (what percentage of people converted)
 	const p1 = x1 / n1; // control conversion rate: conversions ÷ visitors
@@ -58,7 +90,13 @@ export function twoProportionTest(
 	// If everyone has the same degenerate outcome (0% or 100%), there is no variance
 	// and no evidence of a difference. Return a neutral finite result instead of NaN.
 	const zScore = pooledSE === 0 ? 0 : difference / pooledSE; // standardised difference
-	const pValue = pooledSE === 0 ? 1 : 2 * (1 - jStat.normal.cdf(Math.abs(zScore), 0, 1));
+	// A one-sided test only counts evidence that the variation is better
+	const pValue =
+		pooledSE === 0
+			? 1
+			: sidedness === "one-sided"
+				? 1 - jStat.normal.cdf(zScore, 0, 1)
+				: 2 * (1 - jStat.normal.cdf(Math.abs(zScore), 0, 1));
 
 	// Is the result "statistically significant"?
 	// If p-value < alpha (significance threshold), then YES the difference is likely real
@@ -67,26 +105,39 @@ export function twoProportionTest(
 
 	// Calculate confidence interval: "We're 95% confident the true improvement is between X% and Y%"
 	// Uses unpooled approach: doesn't assume the groups are the same (better for estimating)
-	const criticalValue = jStat.normal.inv(1 - alpha / 2, 0, 1); // z-score for desired confidence level
+	const criticalValue = criticalValueFor(alpha, sidedness); // z-score for desired confidence level
 	const unpooledSE = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2); // separate variance estimates
 	const marginOfError = criticalValue * unpooledSE;
+	const intervalData = { ...data, confidenceLevel: intervalLevelFor(confidenceLevel, sidedness) };
+
+	// Called directly (as sequential analysis does), the z-test runs even on small counts, so say so
+	const smallestCell = smallestExpectedCell(data, controlName, variationName);
+	const testMethodReason =
+		smallestCell.expected >= MINIMUM_EXPECTED_COUNT
+			? "Every group has enough expected conversions and non-conversions for the z-test's normal approximation."
+			: `The expected number of ${smallestCell.label} is ${smallestCell.expected.toFixed(1)}, below the ${MINIMUM_EXPECTED_COUNT} the z-test's normal approximation needs, so treat this p-value as approximate.`;
 
 	const result: TwoProportionResult = {
 		isSignificant,
 		pValue,
 		confidenceLevel,
 		testStatistic: zScore,
+		testMethod: "z-test",
+		testMethodReason,
+		sidedness,
 		control: {
 			name: controlName,
 			conversionRate: p1,
 			visitors: n1,
-			conversions: x1
+			conversions: x1,
+			rateInterval: wilsonInterval(x1, n1, confidenceLevel)
 		},
 		variation: {
 			name: variationName,
 			conversionRate: p2,
 			visitors: n2,
-			conversions: x2
+			conversions: x2,
+			rateInterval: wilsonInterval(x2, n2, confidenceLevel)
 		},
 		improvement: {
 			absolute: difference, // raw percentage point difference (e.g., 0.02 for 2 percentage points)
@@ -103,13 +154,63 @@ export function twoProportionTest(
 							// When control rate is 0, fall back to absolute difference CI (converted to percentages)
 							lower: (difference - marginOfError) * 100,
 							upper: (difference + marginOfError) * 100
-						}
+						},
+			absoluteInterval: newcombeInterval(intervalData),
+			relativeInterval: relativeLiftInterval(intervalData)
+		},
+		effectSize: {
+			cohensH: cohensH(p1, p2),
+			oddsRatio: oddsRatio(intervalData),
+			riskRatio: riskRatio(intervalData),
+			numberNeededToTreat: numberNeededToTreat(difference)
 		}
 	};
 
 	return result;
 }
 
+/**
+ * Compares two conversion rates, choosing the right test for the data
+ *
+ * WHAT THIS DOES (for novices):
+ * Uses the usual z-test when there's enough data, and automatically switches to Fisher's exact
+ * test when there are too few conversions (e.g. small SMS or email tests) for the z-test to be
+ * accurate. The result tells you which test was used and why.
+ *
+ * HOW IT WORKS (for experts):
+ * - Checks expected cell counts under H₀ (pooled rate); if any is below 5, the p-value and
+ *   significance come from Fisher's exact test
+ * - Effect estimates and intervals are the same as twoProportionTest()
+ * - testStatistic stays the z-score for reference
+ *
+ * @param data - Test data with sample sizes and conversion counts
+ * @param controlName - Optional name for control group (default: 'Control')
+ * @param variationName - Optional name for variation group (default: 'Variation')
+ * @returns Statistical test results, including the test method used
+ */
+export function compareTwoProportions(
+	data: TwoProportionTestData,
+	controlName: string = "Control",
+	variationName: string = "Variation"
+): TwoProportionResult {
+	const zTestResult = twoProportionTest(data, controlName, variationName);
+	const issue = getNormalApproximationIssue(data, controlName, variationName);
+
+	if (!issue) {
+		return zTestResult;
+	}
+
+	const pValue = fisherExactPValue(data, data.sidedness);
+
+	return {
+		...zTestResult,
+		pValue,
+		isSignificant: pValue < 1 - data.confidenceLevel,
+		testMethod: "fisher-exact",
+		testMethodReason: issue
+	};
+}
+
 /**
  * Converts test variation data to the format needed for two-proportion tests
  *
@@ -118,19 +219,22 @@ export function twoProportionTest(
  * @param control - Control group data (your baseline/original version)
  * @param variation - Variation group data (your new version being tested)
  * @param confidenceLevel - How confident you want to be (0.95 = 95% confident)
+ * @param sidedness - Optional: "one-sided" to look only for the variation beating the control
  * @returns Formatted data ready for statistical testing
  */
 export function formatTwoProportionData(
 	control: TestVariation,
 	variation: TestVariation,
-	confidenceLevel: number
+	confidenceLevel: number,
+	sidedness?: TestSidedness
 ): TwoProportionTestData {
 	return {
 		n1: control.visitors, // sample size for control
 		x1: control.conversions, // successes for control
 		n2: variation.visitors, // sample size for variation
 		x2: variation.conversions, // successes for variation
-		confidenceLevel
+		confidenceLevel,
+		...(sidedness ? { sidedness } : {})
 	};
 }
 
@@ -147,6 +251,9 @@ export function formatTwoProportionData(
  * - Expected frequencies based on marginal totals and overall conversion rate
  * - Test statistic: Σ[(Oᵢⱼ - Eᵢⱼ)² / Eᵢⱼ] ~ χ²(df = (k-1)×(2-1) = k-1)
  * - Uses jStat.chisquare.cdf() for accurate p-value from theoretical distribution
+ * - Cramér's V = √(χ²/N) measures how big the differences are, independent of sample size
+ * - Always two-sided: with 3+ groups there's no single direction to test, so one-sided
+ *   questions go through the many-to-one comparisons (dunnettComparisons) instead
  *
  * @param variations - Array of all test variations including control (must be 3+)
  * @param confidenceLevel - Desired confidence level (e.g., 0.95 for 95%)
@@ -230,7 +337,8 @@ export function chiSquareTest(
 		degreesOfFreedom,
 		expectedFrequencies: expected,
 		observedFrequencies: observed,
-		residuals
+		residuals,
+		cramersV: cramersV(chiSquareStatistic, totalVisitors, variations.length)
 	};
 }
 
@@ -247,11 +355,13 @@ export function chiSquareTest(
  *
  * @param variations - Array starting with control, followed by test variations
  * @param confidenceLevel - Confidence level for individual comparisons
+ * @param sidedness - Optional: "one-sided" to look only for variations beating the control
  * @returns Array of pairwise comparison results (each variation vs control)
  */
 export function pairwiseComparisons(
 	variations: TestVariation[],
-	confidenceLevel: number
+	confidenceLevel: number,
+	sidedness?: TestSidedness
 ): TwoProportionResult[] {
 	const control = variations[0]; // first variation should be the control group
 	if (!control) {
@@ -261,11 +371,30 @@ export function pairwiseComparisons(
 	const testVariations = variations.slice(1); // all the others are test variations
 
 	return testVariations.map((variation) => {
-		const data = formatTwoProportionData(control, variation, confidenceLevel);
-		return twoProportionTest(data, control.name, variation.name);
+		const data = formatTwoProportionData(control, variation, confidenceLevel, sidedness);
+		return compareTwoProportions(data, control.name, variation.name);
 	});
 }
 
+/**
+ * Performance tiers for a single comparison: the winner above the loser, or one shared tier
+ */
+export function tiersForTwoProportionResult(result: TwoProportionResult): PerformanceTier[] {
+	const [higher, lower] = [result.control, result.variation].sort(
+		(a, b) => b.conversionRate - a.conversionRate
+	);
+	if (!higher || !lower) return [];
+
+	if (!result.isSignificant) {
+		return [{ tier: 1, label: "Similar Performance", variations: [higher, lower] }];
+	}
+
+	return [
+		{ tier: 1, label: "Highest Performers", variations: [higher] },
+		{ tier: 2, label: "Lower Performers", variations: [lower] }
+	];
+}
+
 /**
  * Calculates sample conversion rates for all variations
  *
@@ -293,17 +422,22 @@ function calculateConversionRates(variations: TestVariation[]): RatedVariation[]
  * - Performs all possible pairwise two-proportion tests (n choose 2 comparisons)
  * - Groups variations by statistical performance tiers
  * - Identifies clear winners, losers, and statistical ties
- * - Applies appropriate multiple comparison corrections
+ * - Applies the chosen multiple comparison correction (Bonferroni, Holm, Hochberg or Benjamini–Hochberg)
  * - Returns business-friendly insights rather than raw statistical output
+ * - Never recommends a variation that failed a guardrail check (see guardrailTests())
  *
  * @param variations - Array of all test variations (3+ required)
  * @param confidenceLevel - Confidence level for statistical tests
+ * @param correctionMethod - Multiple comparison correction to apply (default: 'bonferroni')
+ * @param guardrailResults - Optional: guardrail checks of each variation against the control
  * @returns Comprehensive analysis with performance groupings and actionable insights
  */
 export function comprehensivePairwiseAnalysis(
 	variations: TestVariation[],
-	confidenceLevel: number
-) {
+	confidenceLevel: number,
+	correctionMethod: MultipleComparisonMethod = "bonferroni",
+	guardrailResults: GuardrailTestResult[] = []
+): ComprehensiveAnalysisResult {
 	if (variations.length < 3) {
 		throw new Error("Comprehensive pairwise analysis requires at least 3 variations");
 	}
@@ -316,30 +450,31 @@ export function comprehensivePairwiseAnalysis(
 	for (const [i, firstVariation] of variations.entries()) {
 		for (const secondVariation of variations.slice(i + 1)) {
 			const data = formatTwoProportionData(firstVariation, secondVariation, confidenceLevel);
-			const result = twoProportionTest(data, firstVariation.name, secondVariation.name);
+			const result = compareTwoProportions(data, firstVariation.name, secondVariation.name);
 			allComparisons.push(result);
 		}
 	}
 
-	// Apply Bonferroni correction to all comparisons
-	const bonferroniResults = bonferroniCorrection(
+	// Apply the multiple comparison correction to all comparisons
+	const correction = multipleComparisonCorrection(
 		allComparisons.map((r) => r.pValue),
-		1 - confidenceLevel
+		1 - confidenceLevel,
+		correctionMethod
 	);
 
 	// Update comparisons with corrected significance
 	const correctedComparisons = allComparisons.map((result, index) => {
-		const bonferroniResult = requireItem(
-			bonferroniResults,
+		const correctionResult = requireItem(
+			correction.results,
 			index,
-			"Missing Bonferroni result for comparison"
+			"Missing correction result for comparison"
 		);
 
 		return {
 			...result,
-			isSignificant: bonferroniResult.isSignificant,
-			pValue: bonferroniResult.correctedPValue,
-			originalPValue: bonferroniResult.originalPValue
+			isSignificant: correctionResult.isSignificant,
+			pValue: correctionResult.adjustedPValue,
+			originalPValue: correctionResult.originalPValue
 		};
 	});
 
@@ -355,14 +490,21 @@ export function comprehensivePairwiseAnalysis(
 	);
 
 	// Generate business insights
-	const insights = generateBusinessInsights(performanceGroups, correctedComparisons);
+	const insights = generateBusinessInsights(
+		performanceGroups,
+		correctedComparisons,
+		guardrailResults
+	);
 
 	return {
 		allComparisons: correctedComparisons,
 		performanceGroups,
 		insights,
-		bonferroniCorrected: true,
-		correctedAlpha: requireItem(bonferroniResults, 0, "Missing Bonferroni result").correctedAlpha
+		bonferroniCorrected: correctionMethod === "bonferroni",
+		correctionMethod,
+		correctionMethodName: correction.methodName,
+		correctedAlpha: correction.correctedAlpha,
+		guardrailResults
 	};
 }
 
@@ -499,16 +641,44 @@ function calculateTierCrossingEvidence(
 	return totalCrossings > 0 ? significantCrossings / totalCrossings : 0;
 }
 
+/**
+ * Warning that stops a variation being recommended because it made a guardrail metric worse
+ *
+ * @param variationName - The variation that would otherwise be recommended
+ * @param failures - Its failed guardrail checks
+ * @returns Warning naming each guardrail and how far it moved
+ */
+export function guardrailFailureInsight(
+	variationName: string,
+	failures: GuardrailTestResult[]
+): BusinessInsight {
+	const changes = new Intl.ListFormat("en", { style: "long", type: "conjunction" }).format(
+		failures.map(
+			(failure) =>
+				`<em>${failure.metricName}</em> ${failure.harmfulDirection === "increase" ? "rose" : "fell"} from ${(failure.controlRate * 100).toFixed(2)}% to ${(failure.variationRate * 100).toFixed(2)}%`
+		)
+	);
+
+	return {
+		type: "warning",
+		title: "Guardrail failed",
+		message: `<em>${variationName}</em> did well on the main goal, but ${changes} compared with the control. That harm is unlikely to be chance.`,
+		actionable: `Don't implement ${variationName} yet. Find out what caused the harm, or test a version that avoids it.`
+	};
+}
+
 /**
  * Generates business-friendly insights from performance analysis
  *
  * @param performanceGroups - Grouped performance tiers
  * @param comparisons - Statistical comparison results
+ * @param guardrailResults - Guardrail checks; variations that failed one are never recommended
  * @returns Array of actionable business insights
  */
 function generateBusinessInsights(
 	performanceGroups: PerformanceGroup[],
-	comparisons: TwoProportionResult[]
+	comparisons: TwoProportionResult[],
+	guardrailResults: GuardrailTestResult[]
 ) {
 	const insights: Array<{
 		type: "success" | "warning" | "info";
@@ -524,6 +694,12 @@ function generateBusinessInsights(
 	const isStrongEvidence = evidenceStrength >= 0.5; // 50%+ significant tier-crossing comparisons
 	const hasAnyEvidence = evidenceStrength > 0; // >0% significant tier-crossing comparisons
 
+	const guardrailFailuresFor = (name: string) =>
+		guardrailResults.filter((result) => result.variationName === name && result.failed);
+	const topTierFailsGuardrail = (performanceGroups[0]?.variations ?? []).some(
+		(variation) => guardrailFailuresFor(variation.name).length > 0
+	);
+
 	// Performance tier analysis with confidence-based messaging
 	if (performanceGroups.length > 1) {
 		const topTier = requireItem(performanceGroups, 0, "Missing top performance tier");
@@ -541,7 +717,10 @@ function generateBusinessInsights(
 					bottomVariation.conversionRate) *
 				100;
 
-			if (isStrongEvidence) {
+			const topFailures = guardrailFailuresFor(topVariation.name);
+			if (topFailures.length > 0) {
+				insights.push(guardrailFailureInsight(topVariation.name, topFailures));
+			} else if (isStrongEvidence) {
 				insights.push({
 					type: "success",
 					title: "Clear Performance Leader",
@@ -556,6 +735,31 @@ function generateBusinessInsights(
 					actionable: `Consider collecting more data or head-to-head testing before making final decisions.`
 				});
 			}
+		} else if (topTierFailsGuardrail) {
+			// Recommend only top performers that passed every guardrail, if any
+			const passingNames: string[] = [];
+			for (const variation of topTier.variations) {
+				const failures = guardrailFailuresFor(variation.name);
+				if (failures.length > 0) {
+					insights.push(guardrailFailureInsight(variation.name, failures));
+				} else {
+					passingNames.push(`<em>${variation.name}</em>`);
+				}
+			}
+
+			if (passingNames.length > 0) {
+				const names = new Intl.ListFormat("en", { style: "long", type: "conjunction" }).format(
+					passingNames
+				);
+				insights.push({
+					type: isStrongEvidence ? "success" : "info",
+					title: "Top Performers That Pass Every Guardrail",
+					message: `${names} ${passingNames.length === 1 ? "is" : "are"} among the top performers and didn't harm any guardrail metric.`,
+					actionable: isStrongEvidence
+						? `Choose from these variants only.`
+						: `Consider collecting more data before choosing between these variants.`
+				});
+			}
 		} else if (topTier.variations.length > 1) {
 			const topNames = new Intl.ListFormat("en", { style: "long", type: "conjunction" }).format(
 				topTier.variations.map((v) => `<em>${v.name}</em>`)
@@ -627,14 +831,18 @@ function generateBusinessInsights(
 				type: "success",
 				title: "Strong Evidence",
 				message: `The top performers were clearly ahead of the other variants in ${significantTierCrossings} of ${tierCrossingComparisons} checks. This is strong enough to choose a variant.`,
-				actionable: `Use these results to decide what to implement.`
+				actionable: topTierFailsGuardrail
+					? `Choose only from variants that passed every guardrail.`
+					: `Use these results to decide what to implement.`
 			});
 		} else {
 			insights.push({
 				type: "success",
 				title: "Strong Evidence",
 				message: `${allSignificantComparisons.length} of ${totalComparisons} checks show a clear difference between variants. This is strong enough to choose a variant.`,
-				actionable: `Use these results to decide what to implement.`
+				actionable: topTierFailsGuardrail
+					? `Choose only from variants that passed every guardrail.`
+					: `Use these results to decide what to implement.`
 			});
 		}
 	}
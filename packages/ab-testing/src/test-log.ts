@@ -0,0 +1,153 @@
+import type {
+	ABTestPermalinkState,
+	TestLogDecision,
+	TestLogDetails,
+	TestLogEntry
+} from "./types/ab-testing";
+import { compareTwoProportions, formatTwoProportionData } from "./statistical-tests";
+import { validateTestLogExport } from "./validation";
+
+/**
+ * Display labels for each test log decision
+ */
+export const TEST_LOG_DECISIONS: Record<TestLogDecision, string> = {
+	implemented: "Rolled out the winning variant",
+	"kept-control": "Kept the original",
+	retest: "Testing again",
+	inconclusive: "No decision: inconclusive"
+};
+
+/**
+ * Headline numbers for one logged test, for the list and comparison views
+ */
+export type TestLogSummary = {
+	variantCount: number;
+	controlName: string;
+	controlRate: number;
+	bestName: string;
+	bestRate: number;
+	/** Relative lift of the best variant over the control, as a percentage (null if control is 0) */
+	relativeLift: number | null;
+	/** Whether the best variant differs significantly from the control (unadjusted) */
+	isSignificant: boolean;
+};
+
+/**
+ * Creates a test log entry for the current analysis
+ *
+ * @param details - Campaign, hypothesis, dates, decision and notes
+ * @param analysis - The analysis being saved
+ * @param savedAt - When it was saved (default: now)
+ * @param id - Unique ID (default: a random UUID)
+ * @returns Entry ready to add to the log
+ */
+export function createTestLogEntry(
+	details: TestLogDetails,
+	analysis: ABTestPermalinkState,
+	savedAt: Date = new Date(),
+	id: string = crypto.randomUUID()
+): TestLogEntry {
+	return { ...details, id, savedAt: savedAt.toISOString(), analysis };
+}
+
+/**
+ * Summarises a logged test: the best variant against the control
+ *
+ * @param entry - Saved test
+ * @returns Control and best-variant rates, lift and whether the difference was significant
+ */
+export function summariseTestLogEntry(entry: TestLogEntry): TestLogSummary {
+	const { controlVariation, variations, confidenceLevel } = entry.analysis.input;
+	const controlRate = controlVariation.conversions / controlVariation.visitors;
+
+	const best = variations.reduce((leader, variation) =>
+		variation.conversions / variation.visitors > leader.conversions / leader.visitors
+			? variation
+			: leader
+	);
+	const comparison = compareTwoProportions(
+		formatTwoProportionData(controlVariation, best, confidenceLevel),
+		controlVariation.name,
+		best.name
+	);
+
+	return {
+		variantCount: variations.length,
+		controlName: controlVariation.name,
+		controlRate,
+		bestName: best.name,
+		bestRate: comparison.variation.conversionRate,
+		relativeLift: comparison.improvement.relative,
+		isSignificant: comparison.isSignificant
+	};
+}
+
+/**
+ * Newest first, by test end date, then by when they were saved
+ */
+export const sortTestLog = (entries: TestLogEntry[]): TestLogEntry[] =>
+	[...entries].sort(
+		(a, b) => b.endDate.localeCompare(a.endDate) || b.savedAt.localeCompare(a.savedAt)
+	);
+
+/**
+ * Merges an imported log into the local one
+ *
+ * WHAT THIS DOES (for novices):
+ * Lets a team combine everyone's logs. Tests already in your log are matched by their ID, so
+ * importing the same file twice doesn't create duplicates; where both copies exist, the most
+ * recently saved one wins.
+ *
+ * @param existing - Entries already in the local log
+ * @param imported - Entries read from an export
+ * @returns Merged log, newest first, and how many entries were new or updated
+ */
+export function mergeTestLogs(
+	existing: TestLogEntry[],
+	imported: TestLogEntry[]
+): { entries: TestLogEntry[]; added: number; updated: number } {
+	const byId = new Map(existing.map((entry) => [entry.id, entry]));
+	let added = 0;
+	let updated = 0;
+
+	for (const entry of imported) {
+		const current = byId.get(entry.id);
+		if (!current) {
+			byId.set(entry.id, entry);
+			added++;
+		} else if (entry.savedAt > current.savedAt) {
+			byId.set(entry.id, entry);
+			updated++;
+		}
+	}
+
+	return { entries: sortTestLog([...byId.values()]), added, updated };
+}
+
+/**
+ * Serialises a log for download, so it can be archived or shared with a colleague
+ */
+export const exportTestLog = (entries: TestLogEntry[], exportedAt: Date = new Date()): string =>
+	`${JSON.stringify({ version: 1, exportedAt: exportedAt.toISOString(), entries }, null, 2)}\n`;
+
+/**
+ * Reads a log exported by exportTestLog(), checking every entry before it's merged
+ *
+ * @param text - Contents of the uploaded JSON file
+ * @returns Entries, or what's wrong with the file
+ */
+export function parseTestLogExport(
+	text: string
+): { success: true; data: TestLogEntry[] } | { success: false; errors: string[] } {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return {
+			success: false,
+			errors: ["This file isn't valid JSON. Please choose a test log exported from this tool"]
+		};
+	}
+
+	return validateTestLogExport(parsed);
+}
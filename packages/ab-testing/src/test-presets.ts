@@ -1,4 +1,4 @@
-import type { TestVariation } from "../../types/ab-testing";
+import type { TestVariation } from "./types/ab-testing";
 
 /**
  * Test preset data for development mode
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { banditAllocation } from "../bandit";
+import { bayesianAnalysis, BAYESIAN_PRIORS } from "../bayesian";
+import { validateBanditAllocationInput } from "../validation";
+import type { BanditAllocationInput } from "../types/ab-testing";
+
+/**
+ * Unit tests for the Thompson-sampling traffic allocator
+ *
+ * Thompson sampling gives each variation P(it is best) of the traffic, so with no minimum share
+ * the recommendation should match bayesianAnalysis().probabilityBest exactly.
+ * Regret = visitors × E[max rate] − expected conversions, so the regret avoided must equal the
+ * extra conversions the recommended split is expected to bring in (up to integration error).
+ */
+
+const evergreenPage: BanditAllocationInput = {
+	variations: [
+		{ name: "Hero image", visitors: 4000, conversions: 120 },
+		{ name: "Video", visitors: 4000, conversions: 150 },
+		{ name: "Story", visitors: 4000, conversions: 130 }
+	],
+	prior: BAYESIAN_PRIORS.uniform,
+	visitorsNextPeriod: 10000,
+	minimumShare: 0
+};
+
+describe("banditAllocation", () => {
+	it("gives each variation its probability of being best", () => {
+		const result = banditAllocation(evergreenPage);
+		const analysis = bayesianAnalysis({
+			variations: evergreenPage.variations,
+			credibleLevel: 0.95,
+			prior: BAYESIAN_PRIORS.uniform
+		});
+
+		expect(result.arms.map((arm) => arm.recommendedShare)).toEqual(
+			[analysis.control, ...analysis.variations].map((summary) => summary.probabilityBest)
+		);
+		expect(result.arms.reduce((sum, arm) => sum + arm.recommendedShare, 0)).toBeCloseTo(1, 6);
+		expect(result.arms[1]?.expectedVisitors).toBeCloseTo(
+			(result.arms[1]?.recommendedShare ?? 0) * 10000,
+			10
+		);
+	});
+
+	it("keeps every variation above the minimum share", () => {
+		const result = banditAllocation({ ...evergreenPage, minimumShare: 0.1 });
+
+		expect(result.arms.every((arm) => arm.recommendedShare >= 0.1)).toBe(true);
+		expect(result.arms.reduce((sum, arm) => sum + arm.recommendedShare, 0)).toBeCloseTo(1, 6);
+		expect(result.arms[1]?.recommendedShare).toBeCloseTo(
+			0.1 + 0.7 * (banditAllocation(evergreenPage).arms[1]?.recommendedShare ?? 0),
+			10
+		);
+	});
+
+	it("sends most traffic to a clear leader and avoids regret compared with an even split", () => {
+		const result = banditAllocation(evergreenPage);
+
+		expect(result.arms[1]?.recommendedShare).toBeGreaterThan(0.8);
+		expect(result.regretAvoided).toBeGreaterThan(0);
+		expect(result.expectedRegret.recommended).toBeLessThan(result.expectedRegret.evenSplit);
+		expect(result.regretAvoided).toBeCloseTo(
+			result.expectedConversions.recommended - result.expectedConversions.evenSplit,
+			3
+		);
+	});
+
+	it("keeps an even split when the variations are identical", () => {
+		const result = banditAllocation({
+			...evergreenPage,
+			variations: [
+				{ name: "A", visitors: 2000, conversions: 60 },
+				{ name: "B", visitors: 2000, conversions: 60 }
+			]
+		});
+
+		expect(result.arms[0]?.recommendedShare).toBeCloseTo(0.5, 4);
+		expect(result.regretAvoided).toBeCloseTo(0, 4);
+	});
+
+	it("rejects minimum shares that can't fit", () => {
+		expect(() => banditAllocation({ ...evergreenPage, minimumShare: 0.4 })).toThrow(
+			"can't add up to more than 100%"
+		);
+	});
+});
+
+describe("validateBanditAllocationInput", () => {
+	it("accepts valid input", () => {
+		expect(validateBanditAllocationInput(evergreenPage).success).toBe(true);
+	});
+
+	it("rejects minimum shares adding up to more than 100%", () => {
+		const result = validateBanditAllocationInput({ ...evergreenPage, minimumShare: 0.4 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("minimum shares add up to more than 100%");
+		}
+	});
+
+	it("needs a different name for each variation", () => {
+		const result = validateBanditAllocationInput({
+			...evergreenPage,
+			variations: [
+				{ name: "Video", visitors: 4000, conversions: 150 },
+				{ name: "video", visitors: 4000, conversions: 130 }
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toEqual(["variations: Please give each variation a different name"]);
+		}
+	});
+});
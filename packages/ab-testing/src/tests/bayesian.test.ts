@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { bayesianAnalysis, historicalPrior, BAYESIAN_PRIORS } from "../bayesian";
+import { validateBayesianTestData } from "../validation";
+import type { TestVariation } from "../types/ab-testing";
+
+function expectItem<T>(items: readonly T[], index: number): T {
+	const item = items[index];
+	if (item === undefined) {
+		throw new Error(`Expected item at index ${index}`);
+	}
+	return item;
+}
+
+/**
+ * Unit tests for the Beta-Binomial Bayesian analysis
+ *
+ * REFERENCE VALUES:
+ * P(B > A) reference values come from Evan Miller's closed-form formula for two Beta posteriors
+ * (https://www.evanmiller.org/bayesian-ab-testing.html), evaluated independently with log-beta functions.
+ */
+
+describe("Bayesian Beta-Binomial analysis", () => {
+	it("matches the closed-form probability that B beats A", () => {
+		const variations: TestVariation[] = [
+			{ name: "A", visitors: 1000, conversions: 100 },
+			{ name: "B", visitors: 1000, conversions: 120 }
+		];
+
+		const result = bayesianAnalysis({
+			variations,
+			credibleLevel: 0.95,
+			prior: BAYESIAN_PRIORS.uniform
+		});
+		const variation = expectItem(result.variations, 0);
+
+		// Posterior A ~ Beta(101, 901), B ~ Beta(121, 881); closed form gives 0.92318
+		expect(variation.probabilityBeatsControl).toBeCloseTo(0.92318, 3);
+		expect(result.control.probabilityBeatsControl).toBeNull();
+
+		// With two arms, "best" and "beats control" are the same event
+		expect(variation.probabilityBest).toBeCloseTo(0.92318, 3);
+		expect(result.control.probabilityBest + variation.probabilityBest).toBeCloseTo(1, 4);
+
+		expect(variation.posterior).toEqual({ alpha: 121, beta: 881 });
+		expect(variation.posteriorMean).toBeCloseTo(121 / 1002, 10);
+		expect(variation.credibleInterval.lower).toBeCloseTo(0.10132, 4);
+		expect(variation.credibleInterval.upper).toBeCloseTo(0.14163, 4);
+	});
+
+	it("assigns lower expected loss to the variation that is more likely best", () => {
+		const result = bayesianAnalysis({
+			variations: [
+				{ name: "A", visitors: 1000, conversions: 100 },
+				{ name: "B", visitors: 1000, conversions: 120 },
+				{ name: "C", visitors: 1000, conversions: 115 }
+			],
+			credibleLevel: 0.95,
+			prior: BAYESIAN_PRIORS.uniform
+		});
+		const b = expectItem(result.variations, 0);
+		const c = expectItem(result.variations, 1);
+
+		const totalProbability = result.control.probabilityBest + b.probabilityBest + c.probabilityBest;
+		expect(totalProbability).toBeCloseTo(1, 3);
+
+		expect(b.probabilityBest).toBeGreaterThan(c.probabilityBest);
+		expect(b.expectedLoss).toBeLessThan(c.expectedLoss);
+		expect(c.expectedLoss).toBeLessThan(result.control.expectedLoss);
+		expect(b.expectedLoss).toBeGreaterThan(0);
+	});
+
+	it("handles zero conversions with the Jeffreys prior", () => {
+		const result = bayesianAnalysis({
+			variations: [
+				{ name: "SMS A", visitors: 1000, conversions: 0 },
+				{ name: "SMS B", visitors: 1000, conversions: 5 }
+			],
+			credibleLevel: 0.95,
+			prior: BAYESIAN_PRIORS.jeffreys
+		});
+		const variation = expectItem(result.variations, 0);
+
+		expect(result.control.credibleInterval.lower).toBeGreaterThanOrEqual(0);
+		expect(result.control.credibleInterval.upper).toBeLessThan(0.005);
+		expect(variation.probabilityBeatsControl).toBeGreaterThan(0.95);
+		expect(variation.probabilityBeatsControl).toBeLessThanOrEqual(1);
+	});
+
+	it("lets a strong historical prior pull estimates towards the baseline", () => {
+		const variations: TestVariation[] = [
+			{ name: "A", visitors: 200, conversions: 10 },
+			{ name: "B", visitors: 200, conversions: 20 }
+		];
+
+		const weak = bayesianAnalysis({
+			variations,
+			credibleLevel: 0.95,
+			prior: BAYESIAN_PRIORS.uniform
+		});
+		const strong = bayesianAnalysis({
+			variations,
+			credibleLevel: 0.95,
+			prior: historicalPrior(0.05, 5000)
+		});
+
+		expect(strong.prior.alpha).toBeCloseTo(250, 10);
+		expect(strong.prior.beta).toBeCloseTo(4750, 10);
+		expect(expectItem(strong.variations, 0).probabilityBeatsControl).toBeLessThan(
+			expectItem(weak.variations, 0).probabilityBeatsControl ?? 0
+		);
+	});
+
+	it("rejects invalid historical priors", () => {
+		expect(() => historicalPrior(0, 100)).toThrow("between 0% and 100%");
+		expect(() => historicalPrior(0.05, 0)).toThrow("greater than 0");
+	});
+
+	it("requires at least two variations", () => {
+		expect(() =>
+			bayesianAnalysis({
+				variations: [{ name: "A", visitors: 100, conversions: 10 }],
+				credibleLevel: 0.95,
+				prior: BAYESIAN_PRIORS.uniform
+			})
+		).toThrow("requires a control and at least one variation");
+	});
+});
+
+describe("validateBayesianTestData", () => {
+	it("accepts valid Bayesian input", () => {
+		const result = validateBayesianTestData({
+			variations: [
+				{ name: "A", visitors: 100, conversions: 10 },
+				{ name: "B", visitors: 100, conversions: 12 }
+			],
+			credibleLevel: 0.95,
+			prior: { alpha: 1, beta: 1 }
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects a non-positive prior", () => {
+		const result = validateBayesianTestData({
+			variations: [
+				{ name: "A", visitors: 100, conversions: 10 },
+				{ name: "B", visitors: 100, conversions: 12 }
+			],
+			credibleLevel: 0.95,
+			prior: { alpha: 0, beta: 1 }
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("Prior alpha must be greater than 0");
+		}
+	});
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+	createReportCharts,
+	differencePlot,
+	performanceTierChart,
+	posteriorChart,
+	rateForestPlot
+} from "../charts";
+import { createABTestReport } from "../report";
+import { bayesianAnalysis } from "../bayesian";
+import { comprehensivePairwiseAnalysis } from "../statistical-tests";
+import type { TestVariation } from "../types/ab-testing";
+
+/**
+ * Unit tests for the SVG result charts
+ *
+ * REFERENCE VALUES:
+ * - A: 250/5,000 = 5.00%, 95% Wilson interval 4.43% to 5.64%
+ * - B vs A: +1.60 pp, 95% Newcombe interval +0.68 pp to +2.52 pp
+ */
+
+const variations: TestVariation[] = [
+	{ name: "A", visitors: 5000, conversions: 250 },
+	{ name: "B", visitors: 5000, conversions: 330 },
+	{ name: "C & <D>", visitors: 5000, conversions: 260 }
+];
+
+const analysis = comprehensivePairwiseAnalysis(variations, 0.95, "holm");
+
+/** Attribute values of every matching element, e.g. the cx of every <circle> */
+const attributeValues = (svg: string, element: string, attribute: string): number[] =>
+	[...svg.matchAll(new RegExp(`<${element} [^>]*${attribute}="([-\\d.]+)"`, "g"))].map((match) =>
+		Number(match[1])
+	);
+
+describe("rateForestPlot", () => {
+	const chart = rateForestPlot(variations, 0.95);
+
+	it("describes every rate and interval in its text alternative", () => {
+		expect(chart.description).toContain("A (control): 5.00%, interval 4.43% to 5.64%.");
+		expect(chart.description).toContain("B: 6.60%");
+	});
+
+	it("labels the SVG with its title and description", () => {
+		expect(chart.svg).toContain('role="img"');
+		expect(chart.svg).toContain(`aria-labelledby="${chart.id}-title ${chart.id}-desc"`);
+		expect(chart.svg).toContain(`<title id="${chart.id}-title">${chart.title}</title>`);
+	});
+
+	it("escapes variation names", () => {
+		expect(chart.svg).toContain("C &amp; &lt;D&gt;");
+		expect(chart.svg).not.toContain("<D>");
+	});
+
+	it("places higher rates further right", () => {
+		const [a, b, c] = attributeValues(chart.svg, "circle", "cx");
+
+		expect(b).toBeGreaterThan(c ?? Infinity);
+		expect(c).toBeGreaterThan(a ?? Infinity);
+	});
+});
+
+describe("differencePlot", () => {
+	const chart = differencePlot(analysis.allComparisons, 0.95, analysis.correctionMethodName);
+
+	it("reports differences in percentage points with significance", () => {
+		expect(chart.description).toContain(
+			"B vs A: +1.60 pp, interval +0.68 pp to +2.52 pp, significant."
+		);
+		expect(chart.description).toContain("C & <D> vs A: +0.20 pp");
+		expect(chart.description).toContain("the intervals are not adjusted");
+	});
+
+	it("fills markers only for significant comparisons", () => {
+		const fills = [...chart.svg.matchAll(/<circle [^>]*fill="([^"]+)"/g)].map((match) => match[1]);
+
+		expect(fills.filter((fill) => fill === "#fff")).toHaveLength(
+			analysis.allComparisons.filter((comparison) => !comparison.isSignificant).length
+		);
+	});
+});
+
+describe("performanceTierChart", () => {
+	it("draws one bar per variation, listed by tier", () => {
+		const chart = performanceTierChart(analysis.performanceGroups);
+
+		expect(attributeValues(chart.svg, "rect", "width")).toHaveLength(3);
+		expect(chart.description).toContain("Tier 1");
+		expect(chart.description).toContain("B 6.60%");
+	});
+});
+
+describe("posteriorChart", () => {
+	it("draws one finite curve per variation", () => {
+		const result = bayesianAnalysis({
+			variations,
+			credibleLevel: 0.95,
+			prior: { alpha: 0.5, beta: 0.5 }
+		});
+		const chart = posteriorChart(result);
+		const curves = [...chart.svg.matchAll(/<polyline points="([^"]+)"/g)];
+
+		expect(curves).toHaveLength(3);
+		expect(curves.every((curve) => !curve[1]?.includes("NaN"))).toBe(true);
+		expect(chart.description).toContain("95% credible interval");
+	});
+});
+
+describe("createReportCharts", () => {
+	it("returns the rate, difference and tier charts with unique IDs", () => {
+		const charts = createReportCharts(
+			createABTestReport(
+				{
+					controlVariation: variations[0] ?? variations[1]!,
+					variations: variations.slice(1),
+					confidenceLevel: 0.95
+				},
+				analysis
+			)
+		);
+
+		expect(new Set(charts.map((chart) => chart.id)).size).toBe(3);
+	});
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import type { ABTestReport } from "../types/statistical-results";
+import { analyseResultsText, CLI_USAGE, parseCLIArguments, runCLI } from "../cli";
+
+/**
+ * Unit tests for the mobilisers-ab command line tool
+ */
+
+const twoVariants = `Variant,Visitors,Conversions
+Blue Button,5000,250
+Red Button,5000,300
+`;
+
+const threeVariants = `Variant,Visitors,Conversions
+Control,3000,150
+Friendly,3000,160
+Urgent,3000,240
+`;
+
+/** Runs the tool against in-memory files, collecting what it prints */
+async function run(
+	args: string[],
+	files: Record<string, string> = {}
+): Promise<{ code: number; stdout: string; stderr: string }> {
+	let stdout = "";
+	let stderr = "";
+	const code = await runCLI(args, {
+		readFile: async (path) => {
+			const text = files[path];
+			if (text === undefined) {
+				throw new Error(`ENOENT: ${path}`);
+			}
+			return text;
+		},
+		stdout: (text) => (stdout += text),
+		stderr: (text) => (stderr += text)
+	});
+	return { code, stdout, stderr };
+}
+
+describe("parseCLIArguments", () => {
+	it("reads the command, file and options", () => {
+		const result = parseCLIArguments([
+			"analyse",
+			"results.csv",
+			"--confidence",
+			"0.99",
+			"--correction=holm",
+			"--one-sided",
+			"--control",
+			"Red Button",
+			"--format",
+			"json"
+		]);
+
+		expect(result).toEqual({
+			success: true,
+			data: {
+				file: "results.csv",
+				confidenceLevel: 0.99,
+				correctionMethod: "holm",
+				sidedness: "one-sided",
+				control: "Red Button",
+				format: "json"
+			}
+		});
+	});
+
+	it("defaults to the calculator's settings", () => {
+		const result = parseCLIArguments(["analyse", "results.csv"]);
+
+		expect(result).toEqual({
+			success: true,
+			data: {
+				file: "results.csv",
+				confidenceLevel: 0.95,
+				correctionMethod: "bonferroni",
+				sidedness: "two-sided",
+				format: "table"
+			}
+		});
+	});
+
+	it("explains every problem with the arguments", () => {
+		const result = parseCLIArguments([
+			"analyse",
+			"--correction",
+			"tukey",
+			"--format",
+			"xml",
+			"--verbose"
+		]);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toEqual([
+				"Unknown option --verbose",
+				"Please give the results file to analyse",
+				"--correction must be one of bonferroni, holm, hochberg, benjamini-hochberg",
+				"--format must be table or json"
+			]);
+		}
+	});
+});
+
+describe("analyseResultsText", () => {
+	const options = {
+		confidenceLevel: 0.95,
+		correctionMethod: "holm",
+		sidedness: "two-sided"
+	} as const;
+
+	it("runs a two-proportion test for two variants", () => {
+		const result = analyseResultsText(twoVariants, options);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.comparisons).toHaveLength(1);
+			expect(result.data.correctionMethod).toBeNull();
+			expect(result.data.comparisons[0]?.isSignificant).toBe(true);
+		}
+	});
+
+	it("runs corrected pairwise comparisons for three or more variants", () => {
+		const result = analyseResultsText(threeVariants, options);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.correctionMethod).toBe("holm");
+			expect(result.data.comparisons).toHaveLength(3);
+		}
+	});
+
+	it("uses the named row as the control", () => {
+		const result = analyseResultsText(threeVariants, { ...options, control: "urgent" });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.input.controlVariation.name).toBe("Urgent");
+		}
+	});
+
+	it("rejects a missing control, one-sided tests of 3+ variants and invalid numbers", () => {
+		expect(analyseResultsText(twoVariants, { ...options, control: "Green" })).toEqual({
+			success: false,
+			errors: ['No row is named "Green"']
+		});
+		expect(analyseResultsText(threeVariants, { ...options, sidedness: "one-sided" }).success).toBe(
+			false
+		);
+		expect(
+			analyseResultsText("Variant,Visitors,Conversions\nA,100,150\nB,100,10", options).success
+		).toBe(false);
+		expect(analyseResultsText(twoVariants, { ...options, confidenceLevel: 0.5 }).success).toBe(
+			false
+		);
+	});
+});
+
+describe("runCLI", () => {
+	it("prints a results table", async () => {
+		const { code, stdout, stderr } = await run(["analyse", "results.csv"], {
+			"results.csv": twoVariants
+		});
+
+		expect(code).toBe(0);
+		expect(stderr).toBe("");
+		expect(stdout).toContain("A/B test results: Blue Button vs Red Button");
+		expect(stdout).toContain("Blue Button (control)        5,000          250            5.00%");
+		expect(stdout).toContain("Red Button vs Blue Button");
+		expect(stdout).not.toContain("<em>");
+	});
+
+	it("prints the JSON report", async () => {
+		const { code, stdout } = await run(
+			["analyse", "results.csv", "--confidence", "95%", "--correction", "holm", "--format", "json"],
+			{ "results.csv": threeVariants }
+		);
+
+		expect(code).toBe(0);
+		const report = JSON.parse(stdout) as ABTestReport;
+		expect(report.confidenceLevel).toBe(0.95);
+		expect(report.correctionMethodName).toBe("Holm–Bonferroni");
+		expect(report.comparisons).toHaveLength(3);
+	});
+
+	it("shows the usage for --help and bad arguments", async () => {
+		expect(await run(["--help"])).toEqual({ code: 0, stdout: CLI_USAGE, stderr: "" });
+
+		const { code, stderr } = await run(["compare"]);
+		expect(code).toBe(2);
+		expect(stderr).toContain('Error: Unknown command "compare"');
+		expect(stderr).toContain(CLI_USAGE);
+	});
+
+	it("fails when the file can't be read or analysed", async () => {
+		expect(await run(["analyse", "missing.csv"])).toEqual({
+			code: 1,
+			stdout: "",
+			stderr: "Error: Couldn't read missing.csv\n"
+		});
+
+		const { code, stderr } = await run(["analyse", "empty.csv"], { "empty.csv": "Variant\n" });
+		expect(code).toBe(1);
+		expect(stderr).toContain("Error: Please paste a header row");
+	});
+});
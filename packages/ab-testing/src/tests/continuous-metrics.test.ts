@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+	bootstrapMeanDifference,
+	continuousMetricTest,
+	countNonGivers,
+	mannWhitneyTest,
+	summariseValues,
+	welchTTest
+} from "../continuous-metrics";
+import { parseAmountList, validateContinuousMetricTestData } from "../validation";
+
+/**
+ * Unit tests for continuous-metric analysis (average gift, revenue per visitor)
+ *
+ * REFERENCE VALUES:
+ * - Welch's t-test: Wikipedia "Welch's t-test" example 1 (t ≈ −2.46, df ≈ 25.0, p ≈ 0.021)
+ * - Mann–Whitney: R wilcox.test(c(4, 5, 6), c(1, 2, 3), exact = FALSE, correct = TRUE)
+ *   → W = 9, p = 0.08086
+ */
+
+const sampleA = [
+	27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4
+];
+const sampleB = [
+	27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4
+];
+
+describe("Welch's t-test", () => {
+	it("matches the published Welch example", () => {
+		const result = welchTTest(summariseValues("A2", sampleB), summariseValues("A1", sampleA), 0.95);
+
+		expect(result.testStatistic).toBeCloseTo(-2.46, 2);
+		expect(result.degreesOfFreedom).toBeCloseTo(25.0, 0);
+		expect(result.pValue).toBeCloseTo(0.021, 3);
+		expect(result.isSignificant).toBe(true);
+	});
+
+	it("returns a confidence interval consistent with the p-value", () => {
+		const result = welchTTest(
+			summariseValues("Control", sampleA),
+			summariseValues("Variation", sampleB),
+			0.95
+		);
+
+		expect(result.difference.absolute).toBeGreaterThan(0);
+		expect(result.difference.confidenceInterval.lower).toBeGreaterThan(0);
+		expect(result.difference.confidenceInterval.upper).toBeGreaterThan(result.difference.absolute);
+	});
+
+	it("works from summary statistics alone", () => {
+		const result = continuousMetricTest({
+			inputType: "summary",
+			control: { name: "Control", count: 400, mean: 32.5, standardDeviation: 28 },
+			variation: { name: "Higher ask", count: 380, mean: 37.9, standardDeviation: 35 },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.difference.absolute).toBeCloseTo(5.4, 10);
+		expect(result.difference.relative).toBeCloseTo((5.4 / 32.5) * 100, 10);
+		expect(result.mannWhitney).toBeNull();
+		expect(result.bootstrap).toBeNull();
+	});
+
+	it("handles groups with no variation", () => {
+		const result = welchTTest(
+			{ name: "Control", count: 10, mean: 10, standardDeviation: 0 },
+			{ name: "Variation", count: 10, mean: 10, standardDeviation: 0 },
+			0.95
+		);
+
+		expect(result.pValue).toBe(1);
+		expect(result.isSignificant).toBe(false);
+	});
+});
+
+describe("Mann–Whitney U test", () => {
+	it("matches R's normal approximation with continuity correction", () => {
+		const result = mannWhitneyTest({ control: [1, 2, 3], variation: [4, 5, 6] }, 0.95);
+
+		expect(result.uStatistic).toBe(9);
+		expect(result.probabilityOfSuperiority).toBe(1);
+		expect(result.pValue).toBeCloseTo(0.08086, 4);
+		expect(result.isSignificant).toBe(false);
+	});
+
+	it("uses average ranks for tied amounts", () => {
+		const result = mannWhitneyTest(
+			{ control: [10, 10, 20, 50], variation: [10, 20, 20, 50] },
+			0.95
+		);
+
+		expect(result.uStatistic).toBe(9.5);
+		expect(result.probabilityOfSuperiority).toBeCloseTo(9.5 / 16, 10);
+		expect(result.pValue).toBeGreaterThan(0.5);
+	});
+});
+
+describe("Bootstrap interval", () => {
+	it("is reproducible and brackets the observed difference", () => {
+		const values = { control: sampleA, variation: sampleB };
+		const first = bootstrapMeanDifference(values, 0.95);
+		const second = bootstrapMeanDifference(values, 0.95);
+		const observed = summariseValues("B", sampleB).mean - summariseValues("A", sampleA).mean;
+
+		expect(first).toEqual(second);
+		expect(first.confidenceInterval.lower).toBeLessThan(observed);
+		expect(first.confidenceInterval.upper).toBeGreaterThan(observed);
+		expect(first.confidenceInterval.lower).toBeGreaterThan(0);
+	});
+});
+
+describe("Raw amount analysis", () => {
+	it("counts visitors beyond the amounts as non-givers", () => {
+		expect(countNonGivers({ name: "Control", values: [10, 20], visitors: 5 })).toBe(3);
+		expect(countNonGivers({ name: "Control", values: [10, 20] })).toBe(0);
+	});
+
+	it("analyses counted non-givers the same as pasted zeros", () => {
+		const counted = continuousMetricTest({
+			inputType: "raw",
+			control: { name: "Control", values: [0, 10, 20], visitors: 6 },
+			variation: { name: "Variation", values: [10, 20, 30, 40], visitors: 6 },
+			confidenceLevel: 0.95
+		});
+		const pasted = continuousMetricTest({
+			inputType: "raw",
+			control: { name: "Control", values: [0, 10, 20, 0, 0, 0] },
+			variation: { name: "Variation", values: [10, 20, 30, 40, 0, 0] },
+			confidenceLevel: 0.95
+		});
+
+		expect(counted.control).toEqual(pasted.control);
+		expect(counted.variation).toEqual(pasted.variation);
+		expect(counted.pValue).toBeCloseTo(pasted.pValue, 12);
+		expect(counted.mannWhitney).toEqual(pasted.mannWhitney);
+	});
+
+	it("handles millions of non-givers without listing them", () => {
+		const result = continuousMetricTest({
+			inputType: "raw",
+			control: { name: "Control", values: sampleA, visitors: 500_000_000 },
+			variation: { name: "Variation", values: sampleB, visitors: 500_000_000 },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.control.count).toBe(500_000_000);
+		expect(result.mannWhitney?.pValue).toBeGreaterThan(0);
+		expect(result.bootstrap?.confidenceInterval.lower).toBeLessThan(
+			result.bootstrap?.confidenceInterval.upper ?? 0
+		);
+	});
+
+	it("runs every check when raw amounts are available", () => {
+		const result = continuousMetricTest({
+			inputType: "raw",
+			control: { name: "Control", values: sampleA },
+			variation: { name: "Variation", values: sampleB },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.control.count).toBe(15);
+		expect(result.mannWhitney).not.toBeNull();
+		expect(result.bootstrap?.resamples).toBe(2000);
+	});
+});
+
+describe("Continuous-metric validation", () => {
+	it("accepts valid summary data", () => {
+		const result = validateContinuousMetricTestData({
+			inputType: "summary",
+			control: { name: "Control", count: 100, mean: 25, standardDeviation: 10 },
+			variation: { name: "Variation", count: 100, mean: 27, standardDeviation: 12 },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects more than a billion visitors", () => {
+		const result = validateContinuousMetricTestData({
+			inputType: "raw",
+			control: { name: "Control", values: [10, 20], visitors: 2_000_000_000 },
+			variation: { name: "Variation", values: [10, 20, 30] },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("less than 1 billion"))).toBe(true);
+		}
+	});
+
+	it("rejects negative amounts and too few visitors", () => {
+		const result = validateContinuousMetricTestData({
+			inputType: "raw",
+			control: { name: "Control", values: [10, -5, 20] },
+			variation: { name: "Variation", values: [10, 20, 30], visitors: 2 },
+			confidenceLevel: 0.95
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("can't be negative"))).toBe(true);
+			expect(result.errors.some((error) => error.includes("Visitors can't be fewer"))).toBe(true);
+		}
+	});
+});
+
+describe("Pasted amount parsing", () => {
+	it("reads spreadsheet columns, currency symbols and thousands separators", () => {
+		expect(parseAmountList("£10\n£25.50\n1,250.00\n\n$5").values).toEqual([10, 25.5, 1250, 5]);
+	});
+
+	it("treats other commas, tabs and semicolons as separators", () => {
+		expect(parseAmountList("10,20,5.5\t7;8").values).toEqual([10, 20, 5.5, 7, 8]);
+	});
+
+	it("reports pieces that aren't amounts", () => {
+		const result = parseAmountList("10 abc 20 -5");
+
+		expect(result.values).toEqual([10, 20]);
+		expect(result.invalidTokens).toEqual(["abc", "-5"]);
+	});
+});
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { importVariationResults, parseDelimitedText, suggestColumnMapping } from "../csv-import";
+
+/**
+ * Unit tests for importing variation results from CSV/TSV exports
+ */
+
+const googleAnalyticsExport = `# ----------------------------------------
+# Donate page test
+# 20260901-20260930
+# ----------------------------------------
+Experiment variant,Sessions,Key events,Session key event rate
+Original,"12,480",612,4.9%
+Variant 1,"12,395",701,5.66%
+Variant 2,"12,511",655,5.24%
+Grand total,"37,386","1,968",5.26%
+`;
+
+describe("parseDelimitedText", () => {
+	it("reads a Google Analytics export, skipping comment lines and quoted thousands", () => {
+		const table = parseDelimitedText(googleAnalyticsExport);
+
+		expect(table.delimiter).toBe(",");
+		expect(table.headers).toEqual([
+			"Experiment variant",
+			"Sessions",
+			"Key events",
+			"Session key event rate"
+		]);
+		expect(table.rows).toHaveLength(4);
+		expect(table.rows[0]).toEqual(["Original", "12,480", "612", "4.9%"]);
+	});
+
+	it("detects tab-separated text pasted from a spreadsheet", () => {
+		const table = parseDelimitedText(
+			"Variant\tVisitors\tConversions\r\nA\t1000\t50\r\nB\t1000\t65"
+		);
+
+		expect(table.delimiter).toBe("\t");
+		expect(table.rows[1]).toEqual(["B", "1000", "65"]);
+	});
+
+	it("handles semicolons and escaped quotes", () => {
+		const table = parseDelimitedText('Name;Sent;Clicks\n"Say ""hi""";500;20\nPlain;500;30');
+
+		expect(table.delimiter).toBe(";");
+		expect(table.rows[0]?.[0]).toBe('Say "hi"');
+	});
+
+	it("pads short rows so every column has a cell", () => {
+		const table = parseDelimitedText("Variant,Visitors,Conversions\nA,100");
+
+		expect(table.rows[0]).toEqual(["A", "100", ""]);
+	});
+
+	it("asks for a header and data", () => {
+		expect(() => parseDelimitedText("Variant,Visitors,Conversions")).toThrow("header row");
+	});
+});
+
+describe("suggestColumnMapping", () => {
+	it("recognises Google Analytics column names", () => {
+		expect(
+			suggestColumnMapping([
+				"Experiment variant",
+				"Sessions",
+				"Key events",
+				"Session key event rate"
+			])
+		).toEqual({ name: 0, visitors: 1, conversions: 2, conversionFormat: "count" });
+	});
+
+	it("falls back to a rate column when there's no count", () => {
+		expect(
+			suggestColumnMapping(["Campaign Name", "Open Rate", "Click Rate", "Successful Deliveries"])
+		).toEqual({ name: 0, visitors: 3, conversions: 1, conversionFormat: "rate" });
+	});
+});
+
+describe("importVariationResults", () => {
+	it("fills the calculator, skipping total rows", () => {
+		const table = parseDelimitedText(googleAnalyticsExport);
+		const result = importVariationResults(
+			table,
+			suggestColumnMapping(table.headers),
+			0,
+			0.95,
+			"two-sided"
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.controlVariation).toEqual({
+				name: "Original",
+				visitors: 12480,
+				conversions: 612
+			});
+			expect(result.data.variations.map((variation) => variation.name)).toEqual([
+				"Variant 1",
+				"Variant 2"
+			]);
+			expect(result.data.confidenceLevel).toBe(0.95);
+		}
+	});
+
+	it("lets any row be the control", () => {
+		const table = parseDelimitedText("Variant,Visitors,Conversions\nNew,1000,60\nOld,1000,50");
+		const result = importVariationResults(
+			table,
+			suggestColumnMapping(table.headers),
+			1,
+			0.9,
+			"one-sided"
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.controlVariation.name).toBe("Old");
+			expect(result.data.variations[0]?.name).toBe("New");
+			expect(result.data.sidedness).toBe("one-sided");
+		}
+	});
+
+	it("asks for the test direction before importing", () => {
+		const table = parseDelimitedText("Variant,Visitors,Conversions\nA,1000,50\nB,1000,60");
+		const result = importVariationResults(
+			table,
+			suggestColumnMapping(table.headers),
+			0,
+			0.95,
+			null
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("one-sided");
+		}
+	});
+
+	it("converts rates into conversion counts", () => {
+		const table = parseDelimitedText(googleAnalyticsExport);
+		const result = importVariationResults(
+			table,
+			{ name: 0, visitors: 1, conversions: 3, conversionFormat: "rate" },
+			0,
+			0.95,
+			"two-sided"
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.controlVariation.conversions).toBe(Math.round(0.049 * 12480));
+		}
+	});
+
+	it("reports validation problems in the usual words", () => {
+		const table = parseDelimitedText("Variant,Visitors,Conversions\nA,100,120\nB,100,10");
+		const result = importVariationResults(
+			table,
+			suggestColumnMapping(table.headers),
+			0,
+			0.95,
+			"two-sided"
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("higher than sample size"))).toBe(true);
+		}
+	});
+
+	it("rejects duplicate variant names", () => {
+		const table = parseDelimitedText("Variant,Visitors,Conversions\nA,100,10\nA,100,12");
+		const result = importVariationResults(
+			table,
+			suggestColumnMapping(table.headers),
+			0,
+			0.95,
+			"two-sided"
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("more than once");
+		}
+	});
+});
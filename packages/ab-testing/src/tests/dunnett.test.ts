@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { dunnettComparisons, dunnettCriticalValue } from "../dunnett";
+import { twoProportionTest, formatTwoProportionData } from "../statistical-tests";
+import type { TestVariation } from "../types/ab-testing";
+
+function expectItem<T>(items: readonly T[], index: number): T {
+	const item = items[index];
+	if (item === undefined) {
+		throw new Error(`Expected item at index ${index}`);
+	}
+	return item;
+}
+
+/**
+ * Unit tests for Dunnett-style many-to-one comparisons
+ *
+ * REFERENCE VALUES:
+ * Two-sided Dunnett critical values for equal group sizes (correlation 0.5) and infinite degrees
+ * of freedom, from Dunnett (1955) / standard Dunnett tables:
+ * - 95%: k = 2 → 2.212, k = 3 → 2.349, k = 4 → 2.442
+ * - 99%: k = 2 → 2.794, k = 3 → 2.915, k = 4 → 2.998
+ * One-sided, 95%: k = 2 → 1.916, k = 3 → 2.062, k = 4 → 2.160
+ */
+
+describe("Dunnett critical values", () => {
+	const equalLoading = Math.sqrt(0.5);
+
+	it("reduces to the normal quantile for a single comparison", () => {
+		expect(dunnettCriticalValue([equalLoading], 0.95)).toBeCloseTo(1.96, 2);
+	});
+
+	it("matches published two-sided Dunnett table values", () => {
+		expect(dunnettCriticalValue([equalLoading, equalLoading], 0.95)).toBeCloseTo(2.212, 2);
+		expect(dunnettCriticalValue(Array(3).fill(equalLoading), 0.95)).toBeCloseTo(2.349, 2);
+		expect(dunnettCriticalValue(Array(4).fill(equalLoading), 0.95)).toBeCloseTo(2.442, 2);
+		expect(dunnettCriticalValue([equalLoading, equalLoading], 0.99)).toBeCloseTo(2.794, 2);
+		expect(dunnettCriticalValue(Array(3).fill(equalLoading), 0.99)).toBeCloseTo(2.915, 2);
+		expect(dunnettCriticalValue(Array(4).fill(equalLoading), 0.99)).toBeCloseTo(2.998, 2);
+	});
+
+	it("matches published one-sided Dunnett table values", () => {
+		expect(dunnettCriticalValue([equalLoading], 0.95, "one-sided")).toBeCloseTo(1.645, 2);
+		expect(dunnettCriticalValue([equalLoading, equalLoading], 0.95, "one-sided")).toBeCloseTo(
+			1.916,
+			2
+		);
+		expect(dunnettCriticalValue(Array(3).fill(equalLoading), 0.95, "one-sided")).toBeCloseTo(
+			2.062,
+			2
+		);
+		expect(dunnettCriticalValue(Array(4).fill(equalLoading), 0.95, "one-sided")).toBeCloseTo(
+			2.16,
+			2
+		);
+	});
+});
+
+describe("Many-to-one comparisons against control", () => {
+	const variations: TestVariation[] = [
+		{ name: "Control", visitors: 8000, conversions: 400 },
+		{ name: "Version A", visitors: 8000, conversions: 600 },
+		{ name: "Version B", visitors: 8000, conversions: 420 },
+		{ name: "Version C", visitors: 8000, conversions: 330 }
+	];
+
+	it("flags winners and losers with simultaneous intervals", () => {
+		const result = dunnettComparisons(variations, 0.95);
+		const versionA = expectItem(result.comparisons, 0);
+		const versionB = expectItem(result.comparisons, 1);
+		const versionC = expectItem(result.comparisons, 2);
+
+		expect(result.control.name).toBe("Control");
+		expect(result.comparisons).toHaveLength(3);
+
+		expect(versionA.difference).toBeCloseTo(0.025, 10);
+		expect(versionA.isSignificant).toBe(true);
+		expect(versionA.simultaneousInterval.lower).toBeGreaterThan(0);
+
+		expect(versionB.isSignificant).toBe(false);
+		expect(versionB.simultaneousInterval.lower).toBeLessThan(0);
+		expect(versionB.simultaneousInterval.upper).toBeGreaterThan(0);
+
+		expect(versionC.isSignificant).toBe(true);
+		expect(versionC.simultaneousInterval.upper).toBeLessThan(0);
+	});
+
+	it("uses wider intervals and larger p-values than an uncorrected test", () => {
+		const result = dunnettComparisons(variations, 0.95);
+		const versionB = expectItem(result.comparisons, 1);
+		const control = expectItem(variations, 0);
+		const uncorrected = twoProportionTest(
+			formatTwoProportionData(control, expectItem(variations, 2), 0.95)
+		);
+
+		expect(result.criticalValue).toBeGreaterThan(1.96);
+		expect(result.criticalValue).toBeLessThan(2.39); // less strict than Bonferroni for 3 comparisons
+		expect(versionB.adjustedPValue).toBeGreaterThan(uncorrected.pValue);
+	});
+
+	it("keeps adjusted p-values consistent with the simultaneous intervals", () => {
+		const result = dunnettComparisons(variations, 0.95);
+
+		for (const comparison of result.comparisons) {
+			const excludesZero =
+				comparison.simultaneousInterval.lower > 0 || comparison.simultaneousInterval.upper < 0;
+			expect(comparison.isSignificant).toBe(excludesZero);
+		}
+	});
+
+	it("handles variations with no conversions", () => {
+		const result = dunnettComparisons(
+			[
+				{ name: "Control", visitors: 1000, conversions: 0 },
+				{ name: "B", visitors: 1000, conversions: 0 },
+				{ name: "C", visitors: 1000, conversions: 10 }
+			],
+			0.95
+		);
+
+		expect(expectItem(result.comparisons, 0).adjustedPValue).toBe(1);
+		expect(Number.isFinite(expectItem(result.comparisons, 1).adjustedPValue)).toBe(true);
+	});
+
+	it("requires a control and at least one variation", () => {
+		expect(() =>
+			dunnettComparisons([{ name: "Control", visitors: 100, conversions: 5 }], 0.95)
+		).toThrow("need a control and at least one variation");
+	});
+});
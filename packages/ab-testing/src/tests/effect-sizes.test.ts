@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { cohensH, cramersV, numberNeededToTreat, oddsRatio, riskRatio } from "../effect-sizes";
+import { chiSquareTest, twoProportionTest } from "../statistical-tests";
+
+/**
+ * Unit tests for effect sizes
+ *
+ * TEST DATA SOURCES:
+ * 1. Cohen (1988): φ = 2·arcsin√p, so h between 25% and 50% is π/2 − π/3 = π/6 ≈ 0.5236
+ * 2. 1200/10,000 vs 1440/10,000: OR = (1440/8560) ÷ (1200/8800) = 1.2336, Woolf 95% interval
+ *    1.1363 to 1.3393; RR = 1.2 with the same Katz interval as the relative lift (+11.73% to +28.88%)
+ * 3. 0/100 vs 10/100 with 0.5 added to every cell: OR = 23.32, Woolf 95% interval 1.347 to 403.6
+ */
+
+const emailTest = { n1: 10000, x1: 1200, n2: 10000, x2: 1440, confidenceLevel: 0.95 };
+
+describe("cohensH", () => {
+	it("matches Cohen's arcsine transformation", () => {
+		expect(cohensH(0.25, 0.5)).toBeCloseTo(Math.PI / 6, 10);
+		expect(cohensH(0.5, 0.25)).toBeCloseTo(-Math.PI / 6, 10);
+	});
+
+	it("gives a bigger effect for the same gap on a lower baseline", () => {
+		expect(cohensH(0.02, 0.03)).toBeGreaterThan(cohensH(0.4, 0.41));
+	});
+});
+
+describe("oddsRatio", () => {
+	it("matches the Woolf interval", () => {
+		const result = oddsRatio(emailTest);
+
+		expect(result.estimate).toBeCloseTo(1.23364, 5);
+		expect(result.interval.lower).toBeCloseTo(1.13631, 5);
+		expect(result.interval.upper).toBeCloseTo(1.33931, 5);
+	});
+
+	it("stays finite when a group has no conversions", () => {
+		const result = oddsRatio({ n1: 100, x1: 0, n2: 100, x2: 10, confidenceLevel: 0.95 });
+
+		expect(result.estimate).toBeCloseTo(23.3204, 4);
+		expect(result.interval.lower).toBeCloseTo(1.3473, 4);
+		expect(result.interval.upper).toBeCloseTo(403.65, 2);
+	});
+});
+
+describe("riskRatio", () => {
+	it("matches the relative lift interval as a multiple", () => {
+		const result = riskRatio(emailTest);
+
+		expect(result.estimate).toBeCloseTo(1.2, 10);
+		expect(result.interval.lower).toBeCloseTo(1.117287, 5);
+		expect(result.interval.upper).toBeCloseTo(1.2888, 4);
+	});
+
+	it("is 1 with an interval around it when neither group converts", () => {
+		const result = riskRatio({ n1: 200, x1: 0, n2: 200, x2: 0, confidenceLevel: 0.95 });
+
+		expect(result.estimate).toBe(1);
+		expect(result.interval.lower).toBeLessThan(1);
+		expect(result.interval.upper).toBeGreaterThan(1);
+	});
+});
+
+describe("numberNeededToTreat", () => {
+	it("is one over the difference, negative when the variation is worse", () => {
+		expect(numberNeededToTreat(0.005)).toBeCloseTo(200, 10);
+		expect(numberNeededToTreat(-0.02)).toBeCloseTo(-50, 10);
+		expect(numberNeededToTreat(0)).toBeNull();
+	});
+});
+
+describe("cramersV", () => {
+	it("equals the absolute phi coefficient for two groups", () => {
+		const result = twoProportionTest(emailTest);
+
+		// With two groups χ² = z², so V = |z| / √N
+		expect(cramersV(result.testStatistic ** 2, 20000, 2)).toBeCloseTo(
+			Math.abs(result.testStatistic) / Math.sqrt(20000),
+			12
+		);
+	});
+
+	it("is included in the chi-square result and is 0 when groups are identical", () => {
+		const identical = chiSquareTest(
+			[
+				{ name: "A", visitors: 1000, conversions: 100 },
+				{ name: "B", visitors: 1000, conversions: 100 },
+				{ name: "C", visitors: 1000, conversions: 100 }
+			],
+			0.95
+		);
+		const different = chiSquareTest(
+			[
+				{ name: "A", visitors: 1000, conversions: 100 },
+				{ name: "B", visitors: 1000, conversions: 150 },
+				{ name: "C", visitors: 1000, conversions: 120 }
+			],
+			0.95
+		);
+
+		expect(identical.cramersV).toBe(0);
+		expect(different.cramersV).toBeCloseTo(Math.sqrt(different.testStatistic / 3000), 12);
+		expect(different.cramersV).toBeGreaterThan(0);
+		expect(different.cramersV).toBeLessThan(1);
+	});
+});
+
+describe("twoProportionTest effect sizes", () => {
+	it("reports every effect size with the result", () => {
+		const { effectSize } = twoProportionTest(emailTest);
+
+		expect(effectSize.cohensH).toBeCloseTo(cohensH(0.12, 0.144), 12);
+		expect(effectSize.oddsRatio).toEqual(oddsRatio(emailTest));
+		expect(effectSize.riskRatio).toEqual(riskRatio(emailTest));
+		expect(effectSize.numberNeededToTreat).toBeCloseTo(1 / 0.024, 8);
+	});
+
+	it("gives one-sided bounds that match the one-sided test", () => {
+		const { effectSize } = twoProportionTest({ ...emailTest, sidedness: "one-sided" });
+
+		expect(effectSize.riskRatio).toEqual(riskRatio({ ...emailTest, confidenceLevel: 0.9 }));
+		expect(effectSize.oddsRatio.interval.lower).toBeGreaterThan(
+			oddsRatio(emailTest).interval.lower
+		);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { fisherExactPValue } from "../exact-tests";
+import { compareTwoProportions, pairwiseComparisons } from "../statistical-tests";
+import { getNormalApproximationIssue, validateStatisticalRequirements } from "../validation";
+
+/**
+ * Unit tests for Fisher's exact test and the automatic small-sample fallback
+ *
+ * TEST DATA SOURCES:
+ * 1. Fisher's "lady tasting tea" experiment: [[3, 1], [1, 3]], two-sided p = 0.4857
+ * 2. Wikipedia "Fisher's exact test" dieting example: [[1, 9], [11, 3]], two-sided p = 0.002759
+ *    (both match R's fisher.test())
+ * 3. Lady tasting tea, one-sided: P(X ≥ 3) = 17/70 = 0.2429 (R: alternative = "greater")
+ */
+
+describe("Fisher's exact test", () => {
+	it("matches the lady tasting tea example", () => {
+		const pValue = fisherExactPValue({ n1: 4, x1: 3, n2: 4, x2: 1 });
+
+		expect(pValue).toBeCloseTo(0.4857, 4);
+	});
+
+	it("matches the Wikipedia dieting example", () => {
+		// Men: 1 of 12 dieting, Women: 9 of 12 dieting
+		const pValue = fisherExactPValue({ n1: 12, x1: 1, n2: 12, x2: 9 });
+
+		expect(pValue).toBeCloseTo(0.002759, 5);
+	});
+
+	it("is symmetric in which group is the control", () => {
+		const forward = fisherExactPValue({ n1: 400, x1: 2, n2: 380, x2: 9 });
+		const reverse = fisherExactPValue({ n1: 380, x1: 9, n2: 400, x2: 2 });
+
+		expect(forward).toBeCloseTo(reverse, 10);
+	});
+
+	it("matches the one-sided lady tasting tea example", () => {
+		// Variation better: 3 of 4 against 1 of 4
+		const pValue = fisherExactPValue({ n1: 4, x1: 1, n2: 4, x2: 3 }, "one-sided");
+
+		expect(pValue).toBeCloseTo(17 / 70, 10);
+	});
+
+	it("gives a large one-sided p-value when the variation is worse", () => {
+		const pValue = fisherExactPValue({ n1: 4, x1: 3, n2: 4, x2: 1 }, "one-sided");
+
+		expect(pValue).toBeCloseTo(69 / 70, 10);
+	});
+
+	it("returns 1 when both groups have identical outcomes", () => {
+		expect(fisherExactPValue({ n1: 50, x1: 0, n2: 50, x2: 0 })).toBeCloseTo(1, 10);
+		expect(fisherExactPValue({ n1: 10, x1: 2, n2: 10, x2: 2 })).toBeCloseTo(1, 10);
+	});
+});
+
+describe("Automatic test selection", () => {
+	it("uses the z-test when expected counts are large enough", () => {
+		const result = compareTwoProportions({
+			n1: 1000,
+			x1: 100,
+			n2: 1000,
+			x2: 150,
+			confidenceLevel: 0.95
+		});
+
+		expect(result.testMethod).toBe("z-test");
+		expect(
+			getNormalApproximationIssue({ n1: 1000, x1: 100, n2: 1000, x2: 150, confidenceLevel: 0.95 })
+		).toBeNull();
+	});
+
+	it("falls back to Fisher's exact test for small SMS tests and says why", () => {
+		const data = { n1: 400, x1: 1, n2: 400, x2: 7, confidenceLevel: 0.95 };
+
+		const result = compareTwoProportions(data, "SMS A", "SMS B");
+
+		expect(result.testMethod).toBe("fisher-exact");
+		expect(result.testMethodReason).toContain("conversions in SMS A");
+		expect(result.testMethodReason).toContain("Fisher's exact test");
+		expect(result.pValue).toBeCloseTo(fisherExactPValue(data), 10);
+		expect(result.isSignificant).toBe(result.pValue < 0.05);
+
+		// Effect estimates are unchanged by the fallback
+		expect(result.improvement.absolute).toBeCloseTo(6 / 400, 10);
+	});
+
+	it("applies the fallback to pairwise comparisons", () => {
+		const results = pairwiseComparisons(
+			[
+				{ name: "Control", visitors: 300, conversions: 2 },
+				{ name: "Short text", visitors: 300, conversions: 5 },
+				{ name: "Long text", visitors: 300, conversions: 6 }
+			],
+			0.95
+		);
+
+		expect(results.map((result) => result.testMethod)).toEqual(["fisher-exact", "fisher-exact"]);
+	});
+
+	it("explains the fallback in the statistical requirements", () => {
+		const warnings = validateStatisticalRequirements({
+			controlVariation: { name: "A", visitors: 200, conversions: 1 },
+			variations: [{ name: "B", visitors: 200, conversions: 4 }],
+			confidenceLevel: 0.95
+		});
+
+		expect(warnings.some((w) => w.includes("Variation 1 vs Control"))).toBe(true);
+		expect(warnings.some((w) => w.includes("Fisher's exact test was used instead"))).toBe(true);
+	});
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { funnelAnalysis } from "../funnel";
+import {
+	chiSquareTest,
+	compareTwoProportions,
+	formatTwoProportionData
+} from "../statistical-tests";
+import { validateFunnelTestData } from "../validation";
+import type { FunnelTestData } from "../types/ab-testing";
+
+/**
+ * Unit tests for multi-step funnel analysis
+ *
+ * Each stage should give exactly what the single-step engines give for the same numbers:
+ * a stage from step A to step B treats the people at A as visitors and those at B as conversions.
+ */
+
+const donationFunnel: FunnelTestData = {
+	stepNames: ["Landing", "Details", "Payment", "Completed"],
+	variations: [
+		{ name: "Control", stepCounts: [10000, 4000, 2000, 1000] },
+		{ name: "Short form", stepCounts: [10000, 4000, 2400, 1300] }
+	],
+	confidenceLevel: 0.95
+};
+
+describe("funnelAnalysis", () => {
+	it("tests every step-to-step stage and the funnel end to end", () => {
+		const result = funnelAnalysis(donationFunnel);
+
+		expect(result.controlName).toBe("Control");
+		expect(result.steps.map((step) => `${step.fromStep} → ${step.toStep}`)).toEqual([
+			"Landing → Details",
+			"Details → Payment",
+			"Payment → Completed"
+		]);
+		expect(result.endToEnd.fromStep).toBe("Landing");
+		expect(result.endToEnd.toStep).toBe("Completed");
+		expect(result.endToEnd.variations.map((variation) => variation.conversionRate)).toEqual([
+			0.1, 0.13
+		]);
+	});
+
+	it("matches the two-proportion test at each stage", () => {
+		const [, detailsToPayment] = funnelAnalysis(donationFunnel).steps;
+		const expected = compareTwoProportions(
+			formatTwoProportionData(
+				{ name: "Control", visitors: 4000, conversions: 2000 },
+				{ name: "Short form", visitors: 4000, conversions: 2400 },
+				0.95
+			),
+			"Control",
+			"Short form"
+		);
+
+		expect(detailsToPayment?.comparisons).toEqual([expected]);
+		expect(detailsToPayment?.pValue).toBe(expected.pValue);
+		expect(detailsToPayment?.overallTest).toBeNull();
+	});
+
+	it("shows where a variation wins and where it makes no difference", () => {
+		const result = funnelAnalysis(donationFunnel);
+		const [landingToDetails, detailsToPayment] = result.steps;
+
+		expect(landingToDetails?.isSignificant).toBe(false);
+		expect(landingToDetails?.performanceGroups).toHaveLength(1);
+		expect(landingToDetails?.performanceGroups[0]?.label).toBe("Similar Performance");
+
+		expect(detailsToPayment?.isSignificant).toBe(true);
+		expect(detailsToPayment?.performanceGroups.map((tier) => tier.variations[0]?.name)).toEqual([
+			"Short form",
+			"Control"
+		]);
+		expect(result.endToEnd.isSignificant).toBe(true);
+	});
+
+	it("uses the chi-square test and corrected pairwise tiers with 3+ variations", () => {
+		const result = funnelAnalysis({
+			...donationFunnel,
+			variations: [
+				...donationFunnel.variations,
+				{ name: "Long form", stepCounts: [10000, 4000, 1700, 800] }
+			],
+			correctionMethod: "holm"
+		});
+		const [, detailsToPayment] = result.steps;
+
+		expect(result.correctionMethod).toBe("holm");
+		expect(detailsToPayment?.overallTest?.pValue).toBe(
+			chiSquareTest(
+				[
+					{ name: "Control", visitors: 4000, conversions: 2000 },
+					{ name: "Short form", visitors: 4000, conversions: 2400 },
+					{ name: "Long form", visitors: 4000, conversions: 1700 }
+				],
+				0.95
+			).pValue
+		);
+		expect(detailsToPayment?.comparisons).toHaveLength(3);
+		expect(detailsToPayment?.performanceGroups.map((tier) => tier.variations[0]?.name)).toEqual([
+			"Short form",
+			"Control",
+			"Long form"
+		]);
+	});
+
+	it("handles a final step nobody reached", () => {
+		const result = funnelAnalysis({
+			...donationFunnel,
+			variations: [
+				{ name: "Control", stepCounts: [200, 50, 20, 0] },
+				{ name: "Short form", stepCounts: [200, 60, 25, 0] }
+			]
+		});
+
+		expect(result.endToEnd.isSignificant).toBe(false);
+		expect(result.steps[2]?.pValue).toBe(1);
+	});
+});
+
+describe("validateFunnelTestData", () => {
+	it("accepts a valid funnel", () => {
+		expect(validateFunnelTestData(donationFunnel).success).toBe(true);
+	});
+
+	it("rejects counts that rise from one step to the next", () => {
+		const result = validateFunnelTestData({
+			...donationFunnel,
+			variations: [
+				donationFunnel.variations[0],
+				{ name: "Short form", stepCounts: [10000, 4000, 4100, 1300] }
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toEqual([
+				"Variation 1 step counts: More people can't reach a step than the one before it. Please check your numbers"
+			]);
+		}
+	});
+
+	it("needs a count for every step and someone at every step before the last", () => {
+		const result = validateFunnelTestData({
+			...donationFunnel,
+			variations: [
+				{ name: "Control", stepCounts: [10000, 0, 0, 0] },
+				{ name: "Short form", stepCounts: [10000, 4000, 2400] }
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toContain(
+				"Control step counts: Every step before the last needs at least one person, or there's nothing to test after it"
+			);
+		}
+	});
+
+	it("names the step when a count is invalid", () => {
+		const result = validateFunnelTestData({
+			...donationFunnel,
+			variations: [
+				donationFunnel.variations[0],
+				{ name: "Short form", stepCounts: [10000, 4000, 2400.5, 1300] }
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toBe(
+				"Variation 1 step 3 count: Please enter whole numbers of people (no decimals)"
+			);
+		}
+	});
+});
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+import { guardrailTests } from "../guardrails";
+import { createABTestReport, insightToHTML } from "../report";
+import {
+	comprehensivePairwiseAnalysis,
+	compareTwoProportions,
+	formatTwoProportionData
+} from "../statistical-tests";
+import { validateABTestInput } from "../validation";
+import type { ABTestInput, GuardrailMetric, TestVariation } from "../types/ab-testing";
+
+/**
+ * Unit tests for guardrail metrics
+ *
+ * Guardrail checks are one-sided in the harmful direction, so a guardrail that moved the
+ * "good" way must pass however large the change, and a decrease-harm check must match an
+ * increase-harm check with the groups swapped.
+ */
+
+const unsubscribes: GuardrailMetric = { name: "Unsubscribes", harmfulDirection: "increase" };
+const repeatGifts: GuardrailMetric = { name: "Repeat gifts", harmfulDirection: "decrease" };
+
+const withCounts = (
+	name: string,
+	conversions: number,
+	unsubscribeCount: number,
+	repeatGiftCount: number
+): TestVariation => ({
+	name,
+	visitors: 10000,
+	conversions,
+	metrics: [
+		{ name: "Unsubscribes", count: unsubscribeCount },
+		{ name: "Repeat gifts", count: repeatGiftCount }
+	]
+});
+
+describe("guardrailTests", () => {
+	it("fails a variation that significantly raises an increase-harm metric", () => {
+		const [result] = guardrailTests(
+			[withCounts("Control", 500, 100, 300), withCounts("Urgent", 600, 160, 300)],
+			[unsubscribes],
+			0.95
+		);
+
+		expect(result?.variationName).toBe("Urgent");
+		expect(result?.controlRate).toBeCloseTo(0.01, 10);
+		expect(result?.variationRate).toBeCloseTo(0.016, 10);
+		expect(result?.failed).toBe(true);
+		expect(result?.pValue).toBeLessThan(0.05);
+	});
+
+	it("passes a guardrail that moved in the harmless direction", () => {
+		const [result] = guardrailTests(
+			[withCounts("Control", 500, 160, 300), withCounts("Calm", 600, 100, 300)],
+			[unsubscribes],
+			0.95
+		);
+
+		expect(result?.failed).toBe(false);
+		expect(result?.pValue).toBeGreaterThan(0.5);
+	});
+
+	it("treats a drop as harm for decrease-harm metrics", () => {
+		const variations = [withCounts("Control", 500, 100, 300), withCounts("Pushy", 600, 100, 220)];
+		const [result] = guardrailTests(variations, [repeatGifts], 0.95);
+		const swapped = compareTwoProportions(
+			formatTwoProportionData(
+				{ name: "Pushy", visitors: 10000, conversions: 220 },
+				{ name: "Control", visitors: 10000, conversions: 300 },
+				0.95,
+				"one-sided"
+			),
+			"Pushy",
+			"Control"
+		);
+
+		expect(result?.failed).toBe(true);
+		expect(result?.pValue).toBe(swapped.pValue);
+		expect(result?.variationRate).toBeCloseTo(0.022, 10);
+	});
+
+	it("checks every variation against every guardrail, in input order", () => {
+		const results = guardrailTests(
+			[
+				withCounts("A", 500, 100, 300),
+				withCounts("B", 600, 160, 300),
+				withCounts("C", 550, 100, 300)
+			],
+			[unsubscribes, repeatGifts],
+			0.95
+		);
+
+		expect(results.map((result) => [result.variationName, result.metricName])).toEqual([
+			["B", "Unsubscribes"],
+			["B", "Repeat gifts"],
+			["C", "Unsubscribes"],
+			["C", "Repeat gifts"]
+		]);
+	});
+
+	it("needs a count for every guardrail", () => {
+		expect(() =>
+			guardrailTests(
+				[withCounts("A", 500, 100, 300), { name: "B", visitors: 10000, conversions: 600 }],
+				[unsubscribes],
+				0.95
+			)
+		).toThrow("B needs a count for the Unsubscribes guardrail");
+	});
+});
+
+describe("guardrails in recommendations", () => {
+	const variations = [
+		withCounts("Control", 500, 100, 300),
+		withCounts("Urgent", 700, 170, 300),
+		withCounts("Friendly", 510, 100, 300)
+	];
+
+	it("refuses to recommend a leader that failed a guardrail", () => {
+		const guardrailResults = guardrailTests(variations, [unsubscribes], 0.95);
+		const analysis = comprehensivePairwiseAnalysis(variations, 0.95, "holm", guardrailResults);
+		const titles = analysis.insights.map((insight) => insight.title);
+
+		expect(analysis.guardrailResults).toBe(guardrailResults);
+		expect(analysis.performanceGroups[0]?.variations.map((v) => v.name)).toEqual(["Urgent"]);
+		expect(titles).toContain("Guardrail failed");
+		expect(titles).not.toContain("Top Performers That Pass Every Guardrail");
+		expect(
+			analysis.insights.find((insight) => insight.title === "Strong Evidence")?.actionable
+		).toBe("Choose only from variants that passed every guardrail.");
+		expect(analysis.insights.find((insight) => insight.title === "Guardrail failed")).toEqual({
+			type: "warning",
+			title: "Guardrail failed",
+			message:
+				"<em>Urgent</em> did well on the main goal, but <em>Unsubscribes</em> rose from 1.00% to 1.70% compared with the control. That harm is unlikely to be chance.",
+			actionable:
+				"Don't implement Urgent yet. Find out what caused the harm, or test a version that avoids it."
+		});
+	});
+
+	it("keeps markup in guardrail names out of the rendered warning", () => {
+		const name = "<svg onload=alert(1)>";
+		const renamed = variations.map((variation) => ({
+			...variation,
+			metrics: (variation.metrics ?? []).map((metric) =>
+				metric.name === "Unsubscribes" ? { ...metric, name } : metric
+			)
+		}));
+		const analysis = comprehensivePairwiseAnalysis(
+			renamed,
+			0.95,
+			"holm",
+			guardrailTests(renamed, [{ ...unsubscribes, name }], 0.95)
+		);
+		const warning = analysis.insights.find((insight) => insight.title === "Guardrail failed");
+		const html = insightToHTML(warning?.message ?? "");
+
+		expect(html).toContain("<em>&lt;svg onload=alert(1)&gt;</em> rose");
+		expect(html).not.toContain("<svg");
+	});
+
+	it("leaves the recommendation alone when every guardrail passes", () => {
+		const analysis = comprehensivePairwiseAnalysis(
+			variations,
+			0.95,
+			"holm",
+			guardrailTests(variations, [repeatGifts], 0.95)
+		);
+		const titles = analysis.insights.map((insight) => insight.title);
+
+		expect(titles).not.toContain("Guardrail failed");
+		expect(
+			analysis.insights.find((insight) => insight.title === "Strong Evidence")?.actionable
+		).toBe("Use these results to decide what to implement.");
+	});
+
+	it("reports a two-variation winner that failed a guardrail as a warning", () => {
+		const input: ABTestInput = {
+			controlVariation: withCounts("Control", 500, 100, 300),
+			variations: [withCounts("Urgent", 700, 170, 300)],
+			confidenceLevel: 0.95,
+			guardrails: [unsubscribes]
+		};
+		const result = compareTwoProportions(
+			formatTwoProportionData(input.controlVariation, withCounts("Urgent", 700, 170, 300), 0.95),
+			"Control",
+			"Urgent"
+		);
+
+		const report = createABTestReport(input, result);
+
+		expect(result.isSignificant).toBe(true);
+		expect(report.insights).toHaveLength(1);
+		expect(report.insights[0]?.title).toBe("Guardrail failed");
+		expect(
+			createABTestReport({ ...input, guardrails: [repeatGifts] }, result).insights[0]?.title
+		).toBe("Significant result");
+	});
+});
+
+describe("validateABTestInput with guardrails", () => {
+	const input = {
+		controlVariation: withCounts("Control", 500, 100, 300),
+		variations: [withCounts("Urgent", 700, 170, 300)],
+		confidenceLevel: 0.95,
+		sidedness: "two-sided",
+		guardrails: [unsubscribes, repeatGifts]
+	};
+
+	it("accepts counts for every guardrail and keeps them", () => {
+		const result = validateABTestInput(input);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.guardrails).toEqual([unsubscribes, repeatGifts]);
+			expect(result.data.variations[0]?.metrics).toHaveLength(2);
+		}
+	});
+
+	it("rejects metric counts above the sample size", () => {
+		const result = validateABTestInput({
+			...input,
+			variations: [withCounts("Urgent", 700, 17000, 300)]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toEqual([
+				"Variation 1 guardrail counts: Metric counts can't be higher than sample size. Please check your numbers"
+			]);
+		}
+	});
+
+	it("needs a count for each guardrail from every variant", () => {
+		const result = validateABTestInput({
+			...input,
+			controlVariation: { name: "Control", visitors: 10000, conversions: 500 }
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toEqual([
+				"guardrails: Please enter a count for every guardrail for every variant, including the control"
+			]);
+		}
+	});
+
+	it("gives friendly names to guardrail fields", () => {
+		const result = validateABTestInput({
+			...input,
+			guardrails: [{ name: "", harmfulDirection: "increase" }]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toBe(
+				"Guardrail 1 name: Please give each guardrail a name (e.g. 'Unsubscribes' or 'Complaints')"
+			);
+		}
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+	agrestiCaffoInterval,
+	differenceInterval,
+	newcombeInterval,
+	relativeLiftInterval,
+	wilsonInterval
+} from "../intervals";
+import { twoProportionTest } from "../statistical-tests";
+
+/**
+ * Unit tests for Wilson, Newcombe, Agresti–Caffo and delta-method intervals
+ *
+ * TEST DATA SOURCES:
+ * 1. Newcombe (1998a) single proportion 81/263: Wilson 95% interval 0.2553 to 0.3662
+ * 2. Newcombe (1998a) 0/10: Wilson 95% interval 0 to 0.2775
+ * 3. Newcombe (1998b) 56/70 − 48/80: hybrid score 95% interval 0.0524 to 0.3339
+ * 4. Agresti & Caffo (2000), same data: (57/72 − 49/82) ± 1.96 × SE = 0.0525 to 0.3358
+ * 5. 1200/10,000 vs 1440/10,000: log rate ratio ± 1.96 × 0.0451 gives +11.73% to +28.88% lift
+ */
+
+describe("wilsonInterval", () => {
+	it("matches Newcombe's published example", () => {
+		const interval = wilsonInterval(81, 263, 0.95);
+
+		expect(interval.lower).toBeCloseTo(0.2553, 4);
+		expect(interval.upper).toBeCloseTo(0.3662, 4);
+	});
+
+	it("gives a useful interval when nobody converted", () => {
+		const interval = wilsonInterval(0, 10, 0.95);
+
+		expect(interval.lower).toBe(0);
+		expect(interval.upper).toBeCloseTo(0.2775, 4);
+	});
+
+	it("stays within 0% and 100% when everyone converted", () => {
+		const interval = wilsonInterval(20, 20, 0.99);
+
+		expect(interval.upper).toBe(1);
+		expect(interval.lower).toBeGreaterThan(0.7);
+	});
+});
+
+describe("difference intervals", () => {
+	const data = { n1: 80, x1: 48, n2: 70, x2: 56, confidenceLevel: 0.95 };
+
+	it("matches Newcombe's hybrid score example", () => {
+		const interval = newcombeInterval(data);
+
+		expect(interval.lower).toBeCloseTo(0.0524, 4);
+		expect(interval.upper).toBeCloseTo(0.3339, 4);
+	});
+
+	it("matches the Agresti–Caffo adjusted Wald interval", () => {
+		const interval = agrestiCaffoInterval(data);
+
+		expect(interval.lower).toBeCloseTo(0.0525, 4);
+		expect(interval.upper).toBeCloseTo(0.3358, 4);
+	});
+
+	it("uses Newcombe by default", () => {
+		expect(differenceInterval(data)).toEqual(newcombeInterval(data));
+		expect(differenceInterval(data, "agresti-caffo")).toEqual(agrestiCaffoInterval(data));
+	});
+
+	it("doesn't collapse to zero width when neither group converts", () => {
+		const interval = newcombeInterval({ n1: 200, x1: 0, n2: 200, x2: 0, confidenceLevel: 0.95 });
+
+		expect(interval.lower).toBeLessThan(0);
+		expect(interval.upper).toBeGreaterThan(0);
+	});
+});
+
+describe("relativeLiftInterval", () => {
+	it("matches the log rate ratio interval", () => {
+		const interval = relativeLiftInterval({
+			n1: 10000,
+			x1: 1200,
+			n2: 10000,
+			x2: 1440,
+			confidenceLevel: 0.95
+		});
+
+		expect(interval?.lower).toBeCloseTo(11.7287, 3);
+		expect(interval?.upper).toBeCloseTo(28.8837, 3);
+	});
+
+	it("never falls below −100%, even when the variation converts nobody", () => {
+		const interval = relativeLiftInterval({
+			n1: 500,
+			x1: 10,
+			n2: 500,
+			x2: 0,
+			confidenceLevel: 0.95
+		});
+
+		expect(interval?.lower).toBeGreaterThan(-100);
+		expect(interval?.upper).toBeLessThan(0);
+	});
+
+	it("is undefined when the control converts nobody", () => {
+		expect(
+			relativeLiftInterval({ n1: 1000, x1: 0, n2: 1000, x2: 50, confidenceLevel: 0.95 })
+		).toBeNull();
+	});
+});
+
+describe("twoProportionTest intervals", () => {
+	it("reports Wilson, Newcombe and relative lift intervals alongside the Wald interval", () => {
+		const result = twoProportionTest({
+			n1: 10000,
+			x1: 1200,
+			n2: 10000,
+			x2: 1440,
+			confidenceLevel: 0.95
+		});
+
+		expect(result.control.rateInterval.lower).toBeCloseTo(0.11378, 5);
+		expect(result.control.rateInterval.upper).toBeCloseTo(0.12652, 5);
+		expect(result.improvement.absoluteInterval.lower).toBeCloseTo(0.014622, 6);
+		expect(result.improvement.absoluteInterval.upper).toBeCloseTo(0.03338, 5);
+		expect(result.improvement.relativeInterval?.lower).toBeCloseTo(11.7287, 3);
+	});
+});
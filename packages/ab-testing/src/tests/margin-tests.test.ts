@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { generateMarginInsights, marginTest } from "../margin-tests";
+import { insightToHTML } from "../report";
+import { calculateMarginSampleSize } from "../sample-size";
+import { validateMarginSampleSizeInput, validateMarginTestData } from "../validation";
+
+/**
+ * Unit tests for non-inferiority and equivalence (TOST) tests and their sample sizes
+ *
+ * REFERENCE VALUES:
+ * 1. 1000/10,000 vs 990/10,000, margin 1 point: SE = √(0.09 + 0.08920)/100 = 0.004232,
+ *    z = (−0.001 + 0.01)/0.004232 = 2.1261, one-sided p = 0.0167
+ * 2. 1000/10,000 vs 950/10,000, margin 1 point: z = 1.1919, p = 0.1166
+ * 3. Chow, Shao & Wang (2008) §4.2: n = (z₁₋α + z₁₋β)² × 2p(1−p)/(δ − |d|)²; with p = 10%,
+ *    δ = 2 points, α = 5%, power 80% and d = 0, non-inferiority needs 2783 per group and
+ *    equivalence (z₁₋β/₂ as d = 0) needs 3854
+ */
+
+const baseData = { n1: 10000, x1: 1000, n2: 10000, confidenceLevel: 0.95, margin: 0.01 };
+
+describe("marginTest", () => {
+	it("shows non-inferiority when the drop is well inside the margin", () => {
+		const result = marginTest({ ...baseData, x2: 990, testType: "non-inferiority" });
+
+		expect(result.testStatistic).toBeCloseTo(2.1261, 4);
+		expect(result.pValue).toBeCloseTo(0.0167, 4);
+		expect(result.isSignificant).toBe(true);
+		expect(result.upperTest).toBeNull();
+	});
+
+	it("doesn't show non-inferiority when the data can't rule out a bigger drop", () => {
+		const result = marginTest({ ...baseData, x2: 950, testType: "non-inferiority" });
+
+		expect(result.testStatistic).toBeCloseTo(1.1919, 4);
+		expect(result.pValue).toBeCloseTo(0.1166, 4);
+		expect(result.isSignificant).toBe(false);
+	});
+
+	it("uses the larger of the two one-sided p-values for equivalence", () => {
+		const result = marginTest({ ...baseData, x2: 990, testType: "equivalence" });
+
+		expect(result.upperTest).not.toBeNull();
+		expect(result.upperTest?.bound).toBe(0.01);
+		expect(result.pValue).toBe(Math.max(result.lowerTest.pValue, result.upperTest?.pValue ?? 0));
+		expect(result.isSignificant).toBe(true);
+	});
+
+	it("doesn't show equivalence when one side fails", () => {
+		const result = marginTest({ ...baseData, x2: 950, testType: "equivalence" });
+
+		expect(result.upperTest?.pValue).toBeLessThan(0.05);
+		expect(result.lowerTest.pValue).toBeGreaterThan(0.05);
+		expect(result.isSignificant).toBe(false);
+	});
+
+	it("agrees with the 1 − 2α confidence interval", () => {
+		for (const x2 of [850, 900, 950, 990, 1050]) {
+			const nonInferiority = marginTest({ ...baseData, x2, testType: "non-inferiority" });
+			const equivalence = marginTest({ ...baseData, x2, testType: "equivalence" });
+			const { lower, upper } = equivalence.confidenceInterval;
+
+			expect(nonInferiority.intervalLevel).toBeCloseTo(0.9, 10);
+			expect(nonInferiority.isSignificant).toBe(lower > -baseData.margin);
+			expect(equivalence.isSignificant).toBe(lower > -baseData.margin && upper < baseData.margin);
+		}
+	});
+
+	it("returns p = 1 when nobody converted in either group", () => {
+		const result = marginTest({ ...baseData, x1: 0, x2: 0, testType: "non-inferiority" });
+
+		expect(result.pValue).toBe(1);
+		expect(result.isSignificant).toBe(false);
+	});
+});
+
+describe("generateMarginInsights", () => {
+	const titlesFor = (x2: number, testType: "non-inferiority" | "equivalence"): string[] =>
+		generateMarginInsights(
+			marginTest({ ...baseData, x2, testType }, "Long form", "Short form")
+		).map((insight) => insight.title);
+
+	it("explains each non-inferiority outcome", () => {
+		expect(titlesFor(990, "non-inferiority")).toEqual(["Not Meaningfully Worse"]);
+		expect(titlesFor(1150, "non-inferiority")).toEqual([
+			"Not Meaningfully Worse",
+			"Possibly Better"
+		]);
+		expect(titlesFor(950, "non-inferiority")).toEqual(["Non-Inferiority Not Shown"]);
+		expect(titlesFor(700, "non-inferiority")).toEqual(["Meaningfully Worse"]);
+	});
+
+	it("explains each equivalence outcome", () => {
+		expect(titlesFor(990, "equivalence")).toEqual(["Practically Equivalent"]);
+		expect(titlesFor(950, "equivalence")).toEqual(["Equivalence Not Shown"]);
+		expect(titlesFor(1300, "equivalence")).toEqual(["Meaningfully Different"]);
+	});
+
+	it("names the variations in the message", () => {
+		const [insight] = generateMarginInsights(
+			marginTest({ ...baseData, x2: 990, testType: "non-inferiority" }, "Long form", "Short form")
+		);
+
+		expect(insight?.message).toContain("<em>Short form</em>");
+		expect(insight?.message).toContain("<em>Long form</em>");
+	});
+
+	it("keeps markup in variation names out of the rendered message", () => {
+		const [insight] = generateMarginInsights(
+			marginTest(
+				{ ...baseData, x2: 990, testType: "non-inferiority" },
+				"Long form",
+				'<a href="https://example.org">Short form</a>'
+			)
+		);
+		const html = insightToHTML(insight?.message ?? "");
+
+		expect(html).toContain(
+			"<em>&lt;a href=&quot;https://example.org&quot;&gt;Short form&lt;/a&gt;</em>"
+		);
+		expect(html).not.toContain("<a ");
+	});
+});
+
+describe("calculateMarginSampleSize", () => {
+	const input = {
+		baselineRate: 0.1,
+		margin: 0.02,
+		expectedDifference: 0,
+		significanceLevel: 0.05,
+		power: 0.8
+	};
+
+	it("matches the non-inferiority formula", () => {
+		const result = calculateMarginSampleSize({ ...input, testType: "non-inferiority" });
+
+		expect(result.sampleSizePerVariant).toBe(2783);
+		expect(result.totalSampleSize).toBe(5566);
+		expect(result.criticalValue).toBeCloseTo(1.6449, 4);
+	});
+
+	it("needs more people to show equivalence", () => {
+		const result = calculateMarginSampleSize({ ...input, testType: "equivalence" });
+
+		expect(result.sampleSizePerVariant).toBe(3854);
+	});
+
+	it("needs fewer people for non-inferiority when the variant is expected to be better", () => {
+		const result = calculateMarginSampleSize({
+			...input,
+			testType: "non-inferiority",
+			expectedDifference: 0.01
+		});
+
+		expect(result.sampleSizePerVariant).toBeLessThan(2783);
+	});
+
+	it("throws when the expected difference leaves no room inside the margin", () => {
+		expect(() =>
+			calculateMarginSampleSize({ ...input, testType: "equivalence", expectedDifference: 0.02 })
+		).toThrow();
+	});
+});
+
+describe("margin validation", () => {
+	it("accepts valid margin test data", () => {
+		const result = validateMarginTestData({ ...baseData, x2: 990, testType: "equivalence" });
+
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects a margin of zero", () => {
+		const result = validateMarginTestData({
+			...baseData,
+			x2: 990,
+			margin: 0,
+			testType: "non-inferiority"
+		});
+
+		expect(result.success).toBe(false);
+	});
+
+	it("rejects an expected difference outside the margin", () => {
+		const result = validateMarginSampleSizeInput({
+			testType: "equivalence",
+			baselineRate: 0.1,
+			margin: 0.01,
+			expectedDifference: 0.015,
+			significanceLevel: 0.05,
+			power: 0.8
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { chiSquareTest, pairwiseComparisons } from "../statistical-tests";
 import { applyBonferroniToTests } from "../bonferroni";
-import type { TestVariation } from "../../../types/ab-testing";
+import type { TestVariation } from "../types/ab-testing";
 
 function expectItem<T>(items: readonly T[], index: number): T {
 	const item = items[index];
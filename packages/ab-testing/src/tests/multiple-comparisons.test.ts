@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { multipleComparisonCorrection } from "../multiple-comparisons";
+import { comprehensivePairwiseAnalysis } from "../statistical-tests";
+import { validateMultiVariationTestData } from "../validation";
+import type { TestVariation } from "../types/ab-testing";
+
+/**
+ * Unit tests for Holm, Hochberg and Benjamini–Hochberg corrections
+ *
+ * Adjusted p-values below were calculated by hand with the definitions used by R's p.adjust()
+ * for p = (0.01, 0.035, 0.028, 0.005, 0.2), m = 5:
+ * - Sorted: 0.005, 0.01, 0.028, 0.035, 0.2
+ * - Holm:     cummax(5p₁, 4p₂, 3p₃, 2p₄, p₅)          = 0.025, 0.04, 0.084, 0.084, 0.2
+ * - Hochberg: reverse cummin(5p₁, 4p₂, 3p₃, 2p₄, p₅)  = 0.025, 0.04, 0.07, 0.07, 0.2
+ * - BH:       reverse cummin(5p₍ᵢ₎ / i)                = 0.025, 0.025, 0.04375, 0.04375, 0.2
+ */
+
+const pValues = [0.01, 0.035, 0.028, 0.005, 0.2];
+
+function adjustedValues(method: Parameters<typeof multipleComparisonCorrection>[2]): number[] {
+	return multipleComparisonCorrection(pValues, 0.05, method).results.map((r) => r.adjustedPValue);
+}
+
+describe("Multiple comparison corrections", () => {
+	it("calculates Holm step-down adjusted p-values", () => {
+		const adjusted = adjustedValues("holm");
+		[0.04, 0.084, 0.084, 0.025, 0.2].forEach((expected, index) => {
+			expect(adjusted[index]).toBeCloseTo(expected, 10);
+		});
+	});
+
+	it("calculates Hochberg step-up adjusted p-values", () => {
+		const adjusted = adjustedValues("hochberg");
+		[0.04, 0.07, 0.07, 0.025, 0.2].forEach((expected, index) => {
+			expect(adjusted[index]).toBeCloseTo(expected, 10);
+		});
+	});
+
+	it("calculates Benjamini–Hochberg adjusted p-values", () => {
+		const adjusted = adjustedValues("benjamini-hochberg");
+		[0.025, 0.04375, 0.04375, 0.025, 0.2].forEach((expected, index) => {
+			expect(adjusted[index]).toBeCloseTo(expected, 10);
+		});
+	});
+
+	it("keeps Bonferroni results identical to the original implementation", () => {
+		const correction = multipleComparisonCorrection(pValues, 0.05, "bonferroni");
+
+		expect(correction.methodName).toBe("Bonferroni");
+		expect(correction.correctedAlpha).toBeCloseTo(0.01, 10);
+		expect(correction.results.map((r) => r.isSignificant)).toEqual([
+			true,
+			false,
+			false,
+			true,
+			false
+		]);
+	});
+
+	it("reports the effective threshold for step-wise methods", () => {
+		const holm = multipleComparisonCorrection(pValues, 0.05, "holm");
+		const bh = multipleComparisonCorrection(pValues, 0.05, "benjamini-hochberg");
+
+		// Holm rejects ranks 1 and 2: thresholds 0.05/5 and 0.05/4
+		expect(holm.results.filter((r) => r.isSignificant)).toHaveLength(2);
+		expect(holm.correctedAlpha).toBeCloseTo(0.0125, 10);
+
+		// BH rejects ranks 1 to 4: largest threshold 4 × 0.05 / 5
+		expect(bh.results.filter((r) => r.isSignificant)).toHaveLength(4);
+		expect(bh.correctedAlpha).toBeCloseTo(0.04, 10);
+	});
+
+	it("lets Hochberg find winners that Holm misses", () => {
+		const holm = multipleComparisonCorrection([0.03, 0.04], 0.05, "holm");
+		const hochberg = multipleComparisonCorrection([0.03, 0.04], 0.05, "hochberg");
+
+		expect(holm.results.some((r) => r.isSignificant)).toBe(false);
+		expect(hochberg.results.every((r) => r.isSignificant)).toBe(true);
+		expect(holm.correctedAlpha).toBeCloseTo(0.025, 10);
+	});
+});
+
+describe("Comprehensive analysis with a chosen correction", () => {
+	const variations: TestVariation[] = [
+		{ name: "A", visitors: 2000, conversions: 200 },
+		{ name: "B", visitors: 2000, conversions: 240 },
+		{ name: "C", visitors: 2000, conversions: 250 },
+		{ name: "D", visitors: 2000, conversions: 205 },
+		{ name: "E", visitors: 2000, conversions: 245 }
+	];
+
+	it("reports the method name and never finds fewer winners than Bonferroni", () => {
+		const bonferroni = comprehensivePairwiseAnalysis(variations, 0.95);
+		const bh = comprehensivePairwiseAnalysis(variations, 0.95, "benjamini-hochberg");
+
+		expect(bonferroni.correctionMethod).toBe("bonferroni");
+		expect(bonferroni.bonferroniCorrected).toBe(true);
+		expect(bh.correctionMethod).toBe("benjamini-hochberg");
+		expect(bh.correctionMethodName).toBe("Benjamini–Hochberg");
+		expect(bh.bonferroniCorrected).toBe(false);
+
+		const significantCount = (result: typeof bh) =>
+			result.allComparisons.filter((c) => c.isSignificant).length;
+		expect(significantCount(bh)).toBeGreaterThanOrEqual(significantCount(bonferroni));
+		expect(bh.correctedAlpha).toBeGreaterThanOrEqual(bonferroni.correctedAlpha);
+	});
+
+	it("accepts a correction method in multi-variation test data", () => {
+		const result = validateMultiVariationTestData({
+			variations,
+			confidenceLevel: 0.95,
+			bonferroniCorrection: false,
+			correctionMethod: "holm"
+		});
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.correctionMethod).toBe("holm");
+		}
+	});
+
+	it("rejects an unknown correction method", () => {
+		const result = validateMultiVariationTestData({
+			variations,
+			confidenceLevel: 0.95,
+			bonferroniCorrection: false,
+			correctionMethod: "sidak"
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
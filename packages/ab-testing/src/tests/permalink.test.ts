@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import { createABTestPermalink, encodeABTestPermalink, readABTestPermalink } from "../permalink";
+import { insightToHTML } from "../report";
+import { comprehensivePairwiseAnalysis } from "../statistical-tests";
+import type { ABTestPermalinkState } from "../types/ab-testing";
+
+/**
+ * Unit tests for shareable A/B analysis links
+ */
+
+const pageURL = "https://example.org/tools/ab-testing/";
+
+const state: ABTestPermalinkState = {
+	input: {
+		controlVariation: { name: "Blue Button", visitors: 10000, conversions: 1200 },
+		variations: [
+			{ name: "Red Button", visitors: 10000, conversions: 1440 },
+			{ name: "Grüner Knopf 💚", visitors: 9800, conversions: 1300 }
+		],
+		confidenceLevel: 0.9,
+		allocationRatios: [1, 1, 1],
+		sidedness: "one-sided"
+	},
+	analysisMethod: "bayesian",
+	correctionMethod: "holm",
+	comparisonMode: "versus-control",
+	priorType: "historical",
+	historicalPrior: { rate: 0.12, strength: 500 }
+};
+
+/** Builds a link around a hand-made payload, as a tampered link would be */
+const linkWithPayload = (payload: unknown): string =>
+	`${pageURL}#ab1=${btoa(JSON.stringify(payload)).replace(/=+$/, "")}`;
+
+describe("ABTestPermalink", () => {
+	it("round-trips an analysis, including non-ASCII names", () => {
+		const link = createABTestPermalink(state, pageURL);
+
+		expect(link.startsWith(`${pageURL}#ab1=`)).toBe(true);
+		expect(readABTestPermalink(link)).toEqual({ success: true, data: state });
+	});
+
+	it("round-trips guardrails and each variant's guardrail counts", () => {
+		const withGuardrails: ABTestPermalinkState = {
+			...state,
+			input: {
+				...state.input,
+				controlVariation: {
+					...state.input.controlVariation,
+					metrics: [
+						{ name: "Unsubscribes", count: 40 },
+						{ name: "Donations", count: 300 }
+					]
+				},
+				variations: state.input.variations.map((variation, index) => ({
+					...variation,
+					metrics: [
+						{ name: "Unsubscribes", count: 90 + index },
+						{ name: "Donations", count: 280 - index }
+					]
+				})),
+				guardrails: [
+					{ name: "Unsubscribes", harmfulDirection: "increase" },
+					{ name: "Donations", harmfulDirection: "decrease" }
+				]
+			}
+		};
+
+		expect(readABTestPermalink(createABTestPermalink(withGuardrails, pageURL))).toEqual({
+			success: true,
+			data: withGuardrails
+		});
+	});
+
+	it("uses only URL-safe characters", () => {
+		expect(encodeABTestPermalink(state)).toMatch(/^#ab1=[A-Za-z0-9_-]+$/);
+	});
+
+	it("replaces an existing fragment", () => {
+		const link = createABTestPermalink(state, `${pageURL}#results`);
+
+		expect(link).not.toContain("#results");
+	});
+
+	it("ignores pages without a shared analysis", () => {
+		expect(readABTestPermalink(pageURL)).toBeNull();
+		expect(readABTestPermalink(`${pageURL}#results`)).toBeNull();
+	});
+
+	it("reports links that have been cut short", () => {
+		const link = createABTestPermalink(state, pageURL);
+		const result = readABTestPermalink(link.slice(0, -10));
+
+		expect(result?.success).toBe(false);
+	});
+
+	it("rejects links from another version", () => {
+		const result = readABTestPermalink(`${pageURL}#ab9=abc`);
+
+		expect(result?.success).toBe(false);
+		if (result && !result.success) {
+			expect(result.errors[0]).toContain("different version");
+		}
+	});
+
+	it("validates tampered numbers against the usual input rules", () => {
+		const result = readABTestPermalink(
+			linkWithPayload({
+				c: 0.95,
+				v: [
+					["A", 100, 500],
+					["B", 100, 10]
+				],
+				a: "frequentist",
+				m: "bonferroni",
+				k: "all-pairs",
+				p: "uniform"
+			})
+		);
+
+		expect(result?.success).toBe(false);
+		if (result && !result.success) {
+			expect(result.errors.some((error) => error.includes("higher than sample size"))).toBe(true);
+		}
+	});
+
+	it("opens links made before the test direction was stored as two-sided", () => {
+		const result = readABTestPermalink(
+			linkWithPayload({
+				c: 0.95,
+				v: [
+					["A", 100, 5],
+					["B", 100, 10]
+				],
+				a: "frequentist",
+				m: "bonferroni",
+				k: "all-pairs",
+				p: "uniform"
+			})
+		);
+
+		expect(result?.success).toBe(true);
+		if (result?.success) {
+			expect(result.data.input.sidedness).toBe("two-sided");
+		}
+	});
+
+	it("rejects one-sided links that compare every pair", () => {
+		const result = readABTestPermalink(
+			linkWithPayload({
+				c: 0.95,
+				v: [
+					["A", 100, 5],
+					["B", 100, 10],
+					["C", 100, 12]
+				],
+				a: "frequentist",
+				m: "bonferroni",
+				k: "all-pairs",
+				p: "uniform",
+				s: "one-sided"
+			})
+		);
+
+		expect(result?.success).toBe(false);
+	});
+
+	it("rejects unsupported options", () => {
+		const result = readABTestPermalink(
+			linkWithPayload({
+				c: 0.95,
+				v: [
+					["A", 100, 5],
+					["B", 100, 10]
+				],
+				a: "frequentist",
+				m: "made-up",
+				k: "all-pairs",
+				p: "uniform"
+			})
+		);
+
+		expect(result?.success).toBe(false);
+	});
+
+	it("restores names with markup so insights can render them as text, not HTML", () => {
+		const attack = "<img src=x onerror=alert(document.domain)>";
+		const result = readABTestPermalink(
+			createABTestPermalink(
+				{
+					...state,
+					analysisMethod: "frequentist",
+					comparisonMode: "all-pairs",
+					input: {
+						controlVariation: { name: "A", visitors: 5000, conversions: 250 },
+						variations: [
+							{ name: attack, visitors: 5000, conversions: 400 },
+							{ name: "C", visitors: 5000, conversions: 400 }
+						],
+						confidenceLevel: 0.95,
+						sidedness: "two-sided"
+					}
+				},
+				pageURL
+			)
+		);
+		if (!result?.success) {
+			throw new Error("Expected the link to be restored");
+		}
+
+		const { controlVariation, variations, confidenceLevel } = result.data.input;
+		const insights = comprehensivePairwiseAnalysis(
+			[controlVariation, ...variations],
+			confidenceLevel,
+			"holm"
+		).insights;
+		const html = insights.map((insight) => insightToHTML(insight.message)).join("");
+
+		expect(insights.some((insight) => insight.message.includes(attack))).toBe(true);
+		expect(html).toContain("<em>&lt;img src=x onerror=alert(document.domain)&gt;</em>");
+		expect(html).not.toContain("<img");
+	});
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import {
+	createABTestReport,
+	formatReport,
+	formatReportAsHTML,
+	formatReportAsMarkdown,
+	formatReportAsText,
+	reportFileName
+} from "../report";
+import {
+	comprehensivePairwiseAnalysis,
+	compareTwoProportions,
+	formatTwoProportionData
+} from "../statistical-tests";
+import type { ABTestInput } from "../types/ab-testing";
+
+/**
+ * Unit tests for downloadable A/B test reports
+ */
+
+const generatedAt = new Date("2026-10-19T09:30:00Z");
+
+const twoVariationInput: ABTestInput = {
+	controlVariation: { name: "Blue Button", visitors: 10000, conversions: 1200 },
+	variations: [{ name: "Red Button", visitors: 10000, conversions: 1440 }],
+	confidenceLevel: 0.95
+};
+
+const twoVariationResult = compareTwoProportions(
+	formatTwoProportionData(
+		twoVariationInput.controlVariation,
+		twoVariationInput.variations[0] ?? twoVariationInput.controlVariation,
+		0.95
+	),
+	"Blue Button",
+	"Red Button"
+);
+
+const multiVariationInput: ABTestInput = {
+	controlVariation: { name: "A", visitors: 5000, conversions: 250 },
+	variations: [
+		{ name: "B", visitors: 5000, conversions: 330 },
+		{ name: "C", visitors: 5000, conversions: 260 }
+	],
+	confidenceLevel: 0.95
+};
+
+const multiVariationResult = comprehensivePairwiseAnalysis(
+	[multiVariationInput.controlVariation, ...multiVariationInput.variations],
+	0.95,
+	"holm"
+);
+
+describe("createABTestReport", () => {
+	it("summarises a two-variation result with a single tiered winner", () => {
+		const report = createABTestReport(twoVariationInput, twoVariationResult, generatedAt);
+
+		expect(report.version).toBe(1);
+		expect(report.generatedAt).toBe("2026-10-19T09:30:00.000Z");
+		expect(report.title).toBe("A/B test results: Blue Button vs Red Button");
+		expect(report.correctionMethod).toBeNull();
+		expect(report.correctedAlpha).toBeCloseTo(0.05, 10);
+		expect(report.comparisons).toEqual([twoVariationResult]);
+		expect(report.performanceGroups.map((tier) => tier.variations[0]?.name)).toEqual([
+			"Red Button",
+			"Blue Button"
+		]);
+		expect(report.insights[0]?.title).toBe("Significant result");
+	});
+
+	it("carries the correction, tiers and insights of a multi-variation analysis", () => {
+		const report = createABTestReport(multiVariationInput, multiVariationResult, generatedAt);
+
+		expect(report.correctionMethod).toBe("holm");
+		expect(report.correctionMethodName).toBe(multiVariationResult.correctionMethodName);
+		expect(report.comparisons).toHaveLength(3);
+		expect(report.performanceGroups).toEqual(multiVariationResult.performanceGroups);
+		expect(report.insights).toEqual(multiVariationResult.insights);
+	});
+});
+
+describe("report formats", () => {
+	const report = createABTestReport(multiVariationInput, multiVariationResult, generatedAt);
+
+	it("writes Markdown tables with p-values and intervals", () => {
+		const markdown = formatReportAsMarkdown(report);
+
+		expect(markdown).toContain("# A/B test results: A vs B vs C");
+		expect(markdown).toContain("| A (control) | 5,000 | 250 | 5.00% |");
+		expect(markdown).toContain("95% confidence interval");
+		expect(markdown).toContain("Multiple comparison correction: Holm");
+		expect(markdown).not.toContain("<em>");
+	});
+
+	it("lists effect sizes for comparing tests across campaigns", () => {
+		const markdown = formatReportAsMarkdown(
+			createABTestReport(twoVariationInput, twoVariationResult, generatedAt)
+		);
+
+		expect(markdown).toContain("## Effect sizes");
+		expect(markdown).toContain(
+			"| Red Button vs Blue Button | 0.071 | 1.200 (1.117 to 1.289) | 1.234 (1.136 to 1.339) | 42 per extra conversion |"
+		);
+	});
+
+	it("writes a self-contained HTML page and escapes variant names", () => {
+		const html = formatReportAsHTML(
+			createABTestReport(
+				{
+					...twoVariationInput,
+					controlVariation: { name: "<b>Old</b>", visitors: 10000, conversions: 1200 }
+				},
+				twoVariationResult,
+				generatedAt
+			)
+		);
+
+		expect(html.startsWith("<!doctype html>")).toBe(true);
+		expect(html).toContain("&lt;b&gt;Old&lt;/b&gt;");
+		expect(html).not.toContain("<b>Old</b>");
+		expect(html).toContain("<em>Red Button</em>");
+		expect(html).not.toMatch(/<link|<script/);
+	});
+
+	it("embeds accessible charts in the HTML page", () => {
+		const html = formatReportAsHTML(report);
+
+		expect(html.match(/<svg /g)).toHaveLength(3);
+		expect(html).toContain('role="img"');
+		expect(html).toContain("<figcaption>Conversion rates with 95% confidence intervals.");
+	});
+
+	it("describes one-sided results as lower bounds", () => {
+		const oneSidedInput: ABTestInput = { ...twoVariationInput, sidedness: "one-sided" };
+		const oneSidedResult = compareTwoProportions(
+			formatTwoProportionData(
+				oneSidedInput.controlVariation,
+				oneSidedInput.variations[0] ?? oneSidedInput.controlVariation,
+				0.95,
+				"one-sided"
+			),
+			"Blue Button",
+			"Red Button"
+		);
+		const markdown = formatReportAsMarkdown(
+			createABTestReport(oneSidedInput, oneSidedResult, generatedAt)
+		);
+
+		expect(markdown).toContain("Hypothesis: One-sided");
+		expect(markdown).toContain("95% confidence bound");
+		expect(markdown).toContain("at least");
+	});
+
+	it("writes aligned plain-text tables for the command line", () => {
+		const lines = formatReportAsText(report).split("\n");
+
+		expect(lines[0]).toBe("A/B test results: A vs B vs C");
+		expect(lines).toContain(
+			"Multiple comparison correction: Holm–Bonferroni (corrected threshold 0.0250)"
+		);
+		expect(lines).toContain("Variant      Sample size  Conversions  Conversion rate");
+		expect(lines).toContain("-----------  -----------  -----------  ---------------");
+		expect(lines).toContain("A (control)        5,000          250            5.00%");
+		expect(lines).toContain(
+			"Comparison  Improvement  95% confidence interval  p-value  Significant"
+		);
+		expect(lines.every((line) => line === line.trimEnd())).toBe(true);
+	});
+
+	it("writes insights and warnings as plain text", () => {
+		const smallTest: ABTestInput = {
+			...twoVariationInput,
+			controlVariation: { name: "Blue Button", visitors: 40, conversions: 2 },
+			variations: [{ name: "Red Button", visitors: 40, conversions: 9 }]
+		};
+		const text = formatReportAsText(
+			createABTestReport(
+				smallTest,
+				compareTwoProportions(
+					formatTwoProportionData(
+						smallTest.controlVariation,
+						smallTest.variations[0] ?? smallTest.controlVariation,
+						0.95
+					),
+					"Blue Button",
+					"Red Button"
+				),
+				generatedAt
+			)
+		);
+
+		expect(text).toContain("What this means");
+		expect(text).toContain("Red Button");
+		expect(text).not.toContain("<em>");
+		expect(text).toContain("Things to bear in mind\n\n- ");
+	});
+
+	it("round-trips through JSON", () => {
+		expect(JSON.parse(formatReport(report, "json"))).toEqual(report);
+	});
+
+	it("names files by date and format", () => {
+		expect(reportFileName(report, "markdown")).toBe("ab-test-report-2026-10-19.md");
+		expect(reportFileName(report, "html")).toBe("ab-test-report-2026-10-19.html");
+	});
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+	describeSampleRatioMismatch,
+	parseAllocationRatios,
+	sampleRatioMismatchTest
+} from "../sample-ratio";
+import { validateABTestInput, validateStatisticalRequirements } from "../validation";
+import type { ABTestInput } from "../types/ab-testing";
+
+function expectItem<T>(items: readonly T[], index: number): T {
+	const item = items[index];
+	if (item === undefined) {
+		throw new Error(`Expected item at index ${index}`);
+	}
+	return item;
+}
+
+/**
+ * Unit tests for the sample ratio mismatch (SRM) check
+ *
+ * REFERENCE VALUES:
+ * Chi-square goodness of fit, e.g. R chisq.test(c(10000, 9500), p = c(0.5, 0.5)):
+ * X-squared = 12.821, df = 1, p-value = 0.0003430
+ */
+
+describe("Sample ratio mismatch test", () => {
+	it("matches a hand-calculated goodness-of-fit test", () => {
+		const result = sampleRatioMismatchTest([
+			{ name: "A", visitors: 10000, conversions: 500 },
+			{ name: "B", visitors: 9500, conversions: 480 }
+		]);
+
+		expect(result.testStatistic).toBeCloseTo(12.821, 3);
+		expect(result.degreesOfFreedom).toBe(1);
+		expect(result.pValue).toBeCloseTo(0.000343, 5);
+		expect(result.isSignificant).toBe(true);
+		expect(expectItem(result.groups, 0).expectedVisitors).toBe(9750);
+	});
+
+	it("tolerates ordinary random imbalance", () => {
+		const result = sampleRatioMismatchTest([
+			{ name: "A", visitors: 10000, conversions: 500 },
+			{ name: "B", visitors: 9900, conversions: 480 }
+		]);
+
+		expect(result.isSignificant).toBe(false);
+	});
+
+	it("checks against an intended unequal split", () => {
+		const variations = [
+			{ name: "A", visitors: 20000, conversions: 1000 },
+			{ name: "B", visitors: 10000, conversions: 520 },
+			{ name: "C", visitors: 10050, conversions: 510 }
+		];
+
+		expect(sampleRatioMismatchTest(variations, [2, 1, 1]).isSignificant).toBe(false);
+		expect(sampleRatioMismatchTest(variations).isSignificant).toBe(true);
+	});
+
+	it("requires one ratio per variation", () => {
+		expect(() =>
+			sampleRatioMismatchTest(
+				[
+					{ name: "A", visitors: 100, conversions: 5 },
+					{ name: "B", visitors: 100, conversions: 5 }
+				],
+				[1, 1, 1]
+			)
+		).toThrow("one allocation ratio per variation");
+	});
+
+	it("names the group that is furthest off", () => {
+		const result = sampleRatioMismatchTest([
+			{ name: "Control", visitors: 5000, conversions: 250 },
+			{ name: "New email", visitors: 4000, conversions: 220 }
+		]);
+
+		const message = describeSampleRatioMismatch(result);
+		expect(message).toContain("Sample ratio mismatch");
+		expect(message).toContain("55.6%");
+		expect(message).toContain("50.0%");
+	});
+});
+
+describe("Allocation ratio parsing", () => {
+	it("reads common ways of writing a split", () => {
+		expect(parseAllocationRatios("50/50")).toEqual([50, 50]);
+		expect(parseAllocationRatios("2:1:1")).toEqual([2, 1, 1]);
+		expect(parseAllocationRatios("40%, 30%, 30%")).toEqual([40, 30, 30]);
+	});
+
+	it("rejects text and zero shares", () => {
+		expect(parseAllocationRatios("half")).toBeNull();
+		expect(parseAllocationRatios("100/0")).toBeNull();
+		expect(parseAllocationRatios("")).toBeNull();
+	});
+});
+
+describe("Sample ratio mismatch in validation", () => {
+	const brokenSplit: ABTestInput = {
+		controlVariation: { name: "Control", visitors: 10000, conversions: 500 },
+		variations: [{ name: "Test A", visitors: 9000, conversions: 520 }],
+		confidenceLevel: 0.95,
+		sidedness: "two-sided"
+	};
+
+	it("reports a mismatch before any other warning", () => {
+		const warnings = validateStatisticalRequirements(brokenSplit);
+
+		expect(expectItem(warnings, 0)).toContain("Sample ratio mismatch");
+	});
+
+	it("uses the intended split when one is given", () => {
+		const warnings = validateStatisticalRequirements({
+			...brokenSplit,
+			allocationRatios: [10, 9]
+		});
+
+		expect(warnings.some((w) => w.includes("Sample ratio mismatch"))).toBe(false);
+	});
+
+	it("requires one share per variant", () => {
+		const result = validateABTestInput({ ...brokenSplit, allocationRatios: [1, 1, 1] });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("one intended traffic share"))).toBe(
+				true
+			);
+		}
+	});
+});
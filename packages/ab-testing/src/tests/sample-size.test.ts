@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateSampleSize,
+	criticalValueFor,
+	estimateSampleSizePerVariant,
+	planTestDuration
+} from "../sample-size";
+import { validateSampleSizeCalculationInput, validateTestDurationInput } from "../validation";
+import type { SampleSizeCalculationInput, TestDurationInput } from "../types/ab-testing";
+
+/**
+ * Unit tests for sample size and power planning
+ *
+ * REFERENCE VALUES:
+ * Fleiss, Levin & Paik, "Statistical Methods for Rates and Proportions" (2003), equal groups,
+ * no continuity correction: p₁ = 0.10, p₂ = 0.15, α = 0.05 two-sided, 80% power → 686 per group
+ */
+
+describe("estimateSampleSizePerVariant", () => {
+	it("estimates the sample size for a small non-significant A/B gap", () => {
+		const estimate = estimateSampleSizePerVariant({
+			rateA: 0.061875,
+			rateB: 0.06,
+			confidenceLevel: 0.95
+		});
+
+		expect(estimate).toBe(255513);
+	});
+
+	it("uses the standard equal-allocation two-proportion approximation", () => {
+		const estimate = estimateSampleSizePerVariant({
+			rateA: 0.144,
+			rateB: 0.12,
+			confidenceLevel: 0.95
+		});
+
+		expect(estimate).toBe(3122);
+	});
+
+	it("returns null when there is no observed difference to estimate from", () => {
+		const estimate = estimateSampleSizePerVariant({
+			rateA: 0.06,
+			rateB: 0.06,
+			confidenceLevel: 0.95
+		});
+
+		expect(estimate).toBeNull();
+	});
+
+	it("requires more sample for higher confidence", () => {
+		const lowerConfidence = estimateSampleSizePerVariant({
+			rateA: 0.08,
+			rateB: 0.07,
+			confidenceLevel: 0.9
+		});
+		const higherConfidence = estimateSampleSizePerVariant({
+			rateA: 0.08,
+			rateB: 0.07,
+			confidenceLevel: 0.99
+		});
+
+		expect(higherConfidence).toBeGreaterThan(lowerConfidence || 0);
+	});
+	it("needs fewer people for a one-sided test", () => {
+		const twoSided = estimateSampleSizePerVariant({
+			rateA: 0.1,
+			rateB: 0.12,
+			confidenceLevel: 0.95
+		});
+		const oneSided = estimateSampleSizePerVariant({
+			rateA: 0.1,
+			rateB: 0.12,
+			confidenceLevel: 0.95,
+			sidedness: "one-sided"
+		});
+
+		expect(twoSided).toBe(3841);
+		expect(oneSided).toBe(3026);
+	});
+});
+
+describe("criticalValueFor", () => {
+	it("uses exact quantiles for any significance level", () => {
+		expect(criticalValueFor(0.05, "two-sided")).toBeCloseTo(1.959964, 6);
+		expect(criticalValueFor(0.025, "two-sided")).toBeCloseTo(2.241403, 6);
+		expect(criticalValueFor(0.05, "one-sided")).toBeCloseTo(1.644854, 6);
+	});
+});
+
+describe("calculateSampleSize", () => {
+	const settings: SampleSizeCalculationInput = {
+		baselineRate: 0.1,
+		significanceLevel: 0.05,
+		sidedness: "two-sided",
+		allocationRatio: 1,
+		variantCount: 1,
+		correction: "none"
+	};
+	const plan: SampleSizeCalculationInput = {
+		...settings,
+		minimumDetectableEffect: 0.5,
+		power: 0.8
+	};
+
+	it("matches the published sample size", () => {
+		const result = calculateSampleSize(plan);
+
+		expect(result.solvedFor).toBe("sampleSize");
+		expect(result.controlSampleSize).toBe(686);
+		expect(result.variantSampleSize).toBe(686);
+		expect(result.totalSampleSize).toBe(1372);
+		expect(result.minimumDetectableEffect.absolute).toBeCloseTo(0.05, 10);
+	});
+
+	it("solves for power and minimum detectable effect consistently", () => {
+		const power = calculateSampleSize({
+			...settings,
+			minimumDetectableEffect: 0.5,
+			controlSampleSize: 686
+		});
+		const effect = calculateSampleSize({ ...settings, power: 0.8, controlSampleSize: 686 });
+
+		expect(power.solvedFor).toBe("power");
+		expect(power.power).toBeCloseTo(0.8, 3);
+		expect(effect.solvedFor).toBe("minimumDetectableEffect");
+		expect(effect.minimumDetectableEffect.relative).toBeCloseTo(0.5, 3);
+	});
+
+	it("needs fewer people for a one-sided test", () => {
+		expect(calculateSampleSize({ ...plan, sidedness: "one-sided" }).controlSampleSize).toBe(540);
+	});
+
+	it("supports powers other than 80, 85 and 90%", () => {
+		const seventy = calculateSampleSize({ ...plan, power: 0.7 }).controlSampleSize;
+		const eighty = calculateSampleSize(plan).controlSampleSize;
+
+		expect(seventy).toBeLessThan(eighty);
+	});
+
+	it("sizes unequal groups", () => {
+		const result = calculateSampleSize({ ...plan, allocationRatio: 2 });
+
+		expect(result.variantSampleSize).toBe(result.controlSampleSize * 2);
+		expect(result.controlSampleSize).toBeLessThan(686);
+		expect(result.totalSampleSize).toBeGreaterThan(1372);
+	});
+
+	it("splits alpha across variants with Bonferroni", () => {
+		const result = calculateSampleSize({ ...plan, variantCount: 3, correction: "bonferroni" });
+
+		expect(result.adjustedSignificanceLevel).toBeCloseTo(0.05 / 3, 10);
+		expect(result.criticalValue).toBeCloseTo(2.39398, 5);
+		expect(result.controlSampleSize).toBeGreaterThan(686);
+		expect(result.totalSampleSize).toBe(result.controlSampleSize * 4);
+	});
+
+	it("requires exactly one blank quantity", () => {
+		expect(() => calculateSampleSize({ ...plan, controlSampleSize: 500 })).toThrow(
+			"Leave exactly one"
+		);
+	});
+
+	it("explains when no effect can be detected", () => {
+		expect(() =>
+			calculateSampleSize({ ...settings, baselineRate: 0.5, controlSampleSize: 5, power: 0.99 })
+		).toThrow("too small");
+	});
+});
+
+describe("validateSampleSizeCalculationInput", () => {
+	it("accepts a plan with one blank", () => {
+		const result = validateSampleSizeCalculationInput({
+			baselineRate: 0.05,
+			minimumDetectableEffect: 0.1,
+			significanceLevel: 0.05,
+			power: 0.8,
+			sidedness: "two-sided",
+			allocationRatio: 1,
+			variantCount: 1,
+			correction: "none"
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("asks users to leave exactly one value blank", () => {
+		const result = validateSampleSizeCalculationInput({
+			baselineRate: 0.05,
+			significanceLevel: 0.05,
+			sidedness: "two-sided",
+			allocationRatio: 1,
+			variantCount: 1,
+			correction: "none"
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("exactly one"))).toBe(true);
+		}
+	});
+
+	it("rejects an improvement that would take the conversion rate above 100%", () => {
+		const result = validateSampleSizeCalculationInput({
+			baselineRate: 0.5,
+			minimumDetectableEffect: 2,
+			significanceLevel: 0.05,
+			power: 0.8,
+			sidedness: "two-sided",
+			allocationRatio: 1,
+			variantCount: 1,
+			correction: "none"
+		});
+
+		expect(result).toEqual({
+			success: false,
+			errors: [
+				"minimumDetectableEffect: That improvement would take the conversion rate above 100%. Please enter a smaller one"
+			]
+		});
+	});
+});
+
+describe("planTestDuration", () => {
+	const plan: TestDurationInput = {
+		baselineRate: 0.1,
+		minimumDetectableEffect: 0.5,
+		variantCount: 1,
+		confidenceLevel: 0.95,
+		sidedness: "two-sided",
+		trafficSource: "daily",
+		trafficPerPeriod: 200
+	};
+
+	it("converts the sample size into days of traffic", () => {
+		const result = planTestDuration(plan);
+
+		expect(result.sampleSizePerVariant).toBe(686);
+		expect(result.totalSampleSize).toBe(1372);
+		expect(result.periods).toBe(7);
+		expect(result.recommendedDays).toBe(7);
+		expect(result.isShorterThanOneWeek).toBe(false);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("warns when the test would finish inside a week", () => {
+		const result = planTestDuration({ ...plan, trafficPerPeriod: 500 });
+
+		expect(result.periods).toBe(3);
+		expect(result.isShorterThanOneWeek).toBe(true);
+		expect(result.recommendedDays).toBe(7);
+		expect(result.warnings.some((w) => w.includes("at least 7 full days"))).toBe(true);
+	});
+
+	it("rounds longer tests up to whole weeks", () => {
+		const result = planTestDuration({ ...plan, trafficPerPeriod: 150 });
+
+		expect(result.periods).toBe(10);
+		expect(result.recommendedDays).toBe(14);
+	});
+
+	it("needs more people per group with more variants", () => {
+		const result = planTestDuration({ ...plan, variantCount: 3 });
+
+		expect(result.sampleSizePerVariant).toBeGreaterThan(686);
+		expect(result.totalSampleSize).toBe(result.sampleSizePerVariant * 4);
+	});
+
+	it("needs fewer people for a one-sided test", () => {
+		const result = planTestDuration({ ...plan, sidedness: "one-sided" });
+
+		expect(result.sampleSizePerVariant).toBeLessThan(686);
+		expect(result.totalSampleSize).toBe(result.sampleSizePerVariant * 2);
+	});
+
+	it("counts sends for list-based tests", () => {
+		const result = planTestDuration({ ...plan, trafficSource: "sends", trafficPerPeriod: 1000 });
+
+		expect(result.periods).toBe(2);
+		expect(result.recommendedDays).toBeNull();
+		expect(result.isShorterThanOneWeek).toBe(false);
+		expect(result.warnings.some((w) => w.includes("2 sends"))).toBe(true);
+	});
+
+	it("rejects improvements that would push the rate past 100%", () => {
+		const result = validateTestDurationInput({
+			...plan,
+			baselineRate: 0.6,
+			minimumDetectableEffect: 1
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import { insightToHTML } from "../report";
+import { cochranMantelHaenszelTest, segmentAnalysis } from "../segments";
+import { validateSegmentedTestData } from "../validation";
+import type { SegmentedTestData } from "../types/ab-testing";
+
+/**
+ * Unit tests for segment breakdowns and the Cochran–Mantel–Haenszel test
+ *
+ * REFERENCE VALUES:
+ * Kidney stone treatments (Charig et al., BMJ 1986), the classic Simpson's paradox:
+ * - Small stones: PCNL 234/270, open surgery 81/87
+ * - Large stones: PCNL 55/80, open surgery 192/263
+ * Open surgery does better for both stone sizes but worse overall (273/350 vs 289/350).
+ * R: mantelhaen.test(correct = FALSE) with open surgery as the variation:
+ * - X² = 2.4339 (z = 1.5601), p = 0.1187
+ * - Common odds ratio 1.4468, 95% interval 0.9158 to 2.2858
+ */
+
+const kidneyStones: SegmentedTestData = {
+	segments: [
+		{
+			name: "Small stones",
+			variations: [
+				{ name: "PCNL", visitors: 270, conversions: 234 },
+				{ name: "Open surgery", visitors: 87, conversions: 81 }
+			]
+		},
+		{
+			name: "Large stones",
+			variations: [
+				{ name: "PCNL", visitors: 80, conversions: 55 },
+				{ name: "Open surgery", visitors: 263, conversions: 192 }
+			]
+		}
+	],
+	confidenceLevel: 0.95
+};
+
+describe("cochranMantelHaenszelTest", () => {
+	const tables = [
+		{ n1: 270, x1: 234, n2: 87, x2: 81 },
+		{ n1: 80, x1: 55, n2: 263, x2: 192 }
+	];
+
+	it("matches R's mantelhaen.test for the kidney stone data", () => {
+		const result = cochranMantelHaenszelTest(tables, 0.95);
+
+		expect(result.testStatistic).toBeCloseTo(1.5601, 4);
+		expect(result.testStatistic ** 2).toBeCloseTo(2.4339, 4);
+		expect(result.pValue).toBeCloseTo(0.1187, 4);
+		expect(result.isSignificant).toBe(false);
+		expect(result.commonOddsRatio).toBeCloseTo(1.4468, 4);
+		expect(result.oddsRatioInterval?.lower).toBeCloseTo(0.9158, 4);
+		expect(result.oddsRatioInterval?.upper).toBeCloseTo(2.2858, 4);
+		expect(result.adjustedDifference).toBeGreaterThan(0);
+	});
+
+	it("halves the p-value for a one-sided test in the variation's favour", () => {
+		const twoSided = cochranMantelHaenszelTest(tables, 0.95);
+		const oneSided = cochranMantelHaenszelTest(tables, 0.95, "one-sided");
+
+		expect(oneSided.sidedness).toBe("one-sided");
+		expect(oneSided.pValue).toBeCloseTo(twoSided.pValue / 2, 10);
+	});
+
+	it("agrees with the z-test when there is only one segment", () => {
+		const result = cochranMantelHaenszelTest([{ n1: 10000, x1: 1000, n2: 10000, x2: 1100 }], 0.95);
+
+		// Pooled z-test: 2.3066. The hypergeometric variance divides by N − 1, a negligible change here
+		expect(result.testStatistic).toBeCloseTo(2.3066, 3);
+		expect(result.adjustedDifference).toBeCloseTo(0.01, 10);
+	});
+
+	it("gives a neutral result when nobody converts", () => {
+		const result = cochranMantelHaenszelTest(
+			[
+				{ n1: 100, x1: 0, n2: 100, x2: 0 },
+				{ n1: 50, x1: 0, n2: 50, x2: 0 }
+			],
+			0.95
+		);
+
+		expect(result.pValue).toBe(1);
+		expect(result.commonOddsRatio).toBeNull();
+		expect(result.oddsRatioInterval).toBeNull();
+	});
+});
+
+describe("segmentAnalysis", () => {
+	it("flags Simpson's paradox when every segment contradicts the totals", () => {
+		const result = segmentAnalysis(kidneyStones);
+		const [comparison] = result.comparisons;
+
+		expect(result.controlName).toBe("PCNL");
+		expect(result.segmentNames).toEqual(["Small stones", "Large stones"]);
+		expect(comparison?.variationName).toBe("Open surgery");
+		expect(comparison?.segmentResults.every((segment) => segment.improvement.absolute > 0)).toBe(
+			true
+		);
+		expect(comparison?.aggregate.improvement.absolute).toBeCloseTo(273 / 350 - 289 / 350, 10);
+		expect(comparison?.simpsonsParadox).toBe(true);
+		expect(comparison?.directionWarning).toContain("Simpson's paradox");
+	});
+
+	it("keeps markup in variant names out of the rendered warning", () => {
+		const renamed: SegmentedTestData = {
+			...kidneyStones,
+			segments: kidneyStones.segments.map((segment) => ({
+				...segment,
+				variations: segment.variations.map((variation) =>
+					variation.name === "PCNL"
+						? { ...variation, name: "<script>alert(1)</script>" }
+						: variation
+				)
+			}))
+		};
+		const [comparison] = segmentAnalysis(renamed).comparisons;
+		const html = insightToHTML(comparison?.directionWarning ?? "");
+
+		expect(html).toContain("<em>&lt;script&gt;alert(1)&lt;/script&gt;</em>");
+		expect(html).not.toContain("<script>");
+	});
+
+	it("builds the overall comparison from the added-up segments", () => {
+		const [comparison] = segmentAnalysis(kidneyStones).comparisons;
+
+		expect(comparison?.aggregate.control.visitors).toBe(350);
+		expect(comparison?.aggregate.control.conversions).toBe(289);
+		expect(comparison?.aggregate.variation.visitors).toBe(350);
+		expect(comparison?.aggregate.variation.conversions).toBe(273);
+	});
+
+	it("stays quiet when segments and totals agree", () => {
+		const result = segmentAnalysis({
+			segments: [
+				{
+					name: "Mobile",
+					variations: [
+						{ name: "A", visitors: 5000, conversions: 200 },
+						{ name: "B", visitors: 5000, conversions: 250 },
+						{ name: "C", visitors: 5000, conversions: 190 }
+					]
+				},
+				{
+					name: "Desktop",
+					variations: [
+						{ name: "A", visitors: 3000, conversions: 240 },
+						{ name: "B", visitors: 3000, conversions: 270 },
+						{ name: "C", visitors: 3000, conversions: 250 }
+					]
+				}
+			],
+			confidenceLevel: 0.95,
+			sidedness: "two-sided"
+		});
+
+		expect(result.comparisons.map((comparison) => comparison.variationName)).toEqual(["B", "C"]);
+		expect(result.comparisons[0]?.stratified.isSignificant).toBe(true);
+		expect(result.comparisons.every((comparison) => comparison.directionWarning === null)).toBe(
+			true
+		);
+	});
+
+	it("passes the test direction through to every comparison", () => {
+		const result = segmentAnalysis({ ...kidneyStones, sidedness: "one-sided" });
+		const [comparison] = result.comparisons;
+
+		expect(result.sidedness).toBe("one-sided");
+		expect(comparison?.aggregate.sidedness).toBe("one-sided");
+		expect(comparison?.segmentResults.every((segment) => segment.sidedness === "one-sided")).toBe(
+			true
+		);
+		expect(comparison?.stratified.sidedness).toBe("one-sided");
+	});
+});
+
+describe("validateSegmentedTestData", () => {
+	it("defaults to a two-sided test", () => {
+		const result = validateSegmentedTestData(kidneyStones);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.data.sidedness).toBe("two-sided");
+		}
+	});
+
+	it("requires every segment to list the same variations", () => {
+		const result = validateSegmentedTestData({
+			...kidneyStones,
+			segments: [
+				kidneyStones.segments[0],
+				{
+					name: "Large stones",
+					variations: [
+						{ name: "Open surgery", visitors: 263, conversions: 192 },
+						{ name: "PCNL", visitors: 80, conversions: 55 }
+					]
+				}
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("same variations, in the same order");
+		}
+	});
+
+	it("names the segment and group in field errors", () => {
+		const result = validateSegmentedTestData({
+			...kidneyStones,
+			segments: [
+				kidneyStones.segments[0],
+				{
+					name: "Large stones",
+					variations: [
+						{ name: "PCNL", visitors: 80, conversions: 90 },
+						{ name: "Open surgery", visitors: 263, conversions: 192 }
+					]
+				}
+			]
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toContain(
+				"Segment 2 Control conversions: Conversions can't be higher than sample size. Please check your numbers"
+			);
+		}
+	});
+});
@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+import {
+	alphaSpent,
+	createSequentialPlan,
+	sequentialAnalysis,
+	sequentialBoundaries
+} from "../sequential";
+import { validateSequentialLooks, validateSequentialPlanInput } from "../validation";
+import type { SequentialLookData, SequentialPlanInput } from "../types/ab-testing";
+
+/**
+ * Unit tests for group-sequential testing
+ *
+ * REFERENCE VALUES:
+ * Lan & DeMets (1983) spending functions, α = 0.05 two-sided, 5 equally spaced looks
+ * (Jennison & Turnbull, "Group Sequential Methods", 2000, table 7.6; R gsDesign/ldbounds):
+ * - O'Brien–Fleming type: 4.877, 3.357, 2.680, 2.290, 2.031
+ * - Pocock type: 2.438, 2.427, 2.410, 2.397, 2.386
+ */
+
+const fiveLooks = [0.2, 0.4, 0.6, 0.8, 1];
+
+const look = (
+	controlVisitors: number,
+	controlConversions: number,
+	variationVisitors: number,
+	variationConversions: number
+): SequentialLookData => ({
+	control: { name: "Control", visitors: controlVisitors, conversions: controlConversions },
+	variation: { name: "Variation", visitors: variationVisitors, conversions: variationConversions }
+});
+
+describe("alphaSpent", () => {
+	it("spends the whole budget by the end", () => {
+		expect(alphaSpent("obrien-fleming", 1, 0.05)).toBeCloseTo(0.05, 10);
+		expect(alphaSpent("pocock", 1, 0.05)).toBeCloseTo(0.05, 10);
+		expect(alphaSpent("pocock", 0, 0.05)).toBe(0);
+	});
+
+	it("spends far less early with O'Brien–Fleming than with Pocock", () => {
+		expect(alphaSpent("obrien-fleming", 0.2, 0.05)).toBeLessThan(0.0001);
+		expect(alphaSpent("pocock", 0.2, 0.05)).toBeGreaterThan(0.01);
+	});
+});
+
+describe("sequentialBoundaries", () => {
+	it("matches published O'Brien–Fleming type boundaries", () => {
+		const boundaries = sequentialBoundaries(fiveLooks, 0.05, "obrien-fleming");
+		[4.877, 3.357, 2.68, 2.29, 2.031].forEach((expected, index) => {
+			expect(boundaries[index]).toBeCloseTo(expected, 2);
+		});
+	});
+
+	it("matches published Pocock type boundaries", () => {
+		const boundaries = sequentialBoundaries(fiveLooks, 0.05, "pocock");
+		[2.438, 2.427, 2.41, 2.397, 2.386].forEach((expected, index) => {
+			expect(boundaries[index]).toBeCloseTo(expected, 2);
+		});
+	});
+
+	it("reduces to the fixed-horizon critical value with a single look", () => {
+		expect(sequentialBoundaries([1], 0.05, "obrien-fleming")[0]).toBeCloseTo(1.96, 3);
+	});
+
+	it("spends the whole budget on the upper boundary for one-sided tests", () => {
+		expect(sequentialBoundaries([1], 0.05, "obrien-fleming", "one-sided")[0]).toBeCloseTo(1.645, 3);
+
+		// Crossing the lower boundary is so rare that one-sided α = 0.025 matches two-sided 0.05
+		const oneSided = sequentialBoundaries(fiveLooks, 0.025, "obrien-fleming", "one-sided");
+		[4.877, 3.357, 2.68, 2.29, 2.031].forEach((expected, index) => {
+			expect(oneSided[index]).toBeCloseTo(expected, 2);
+		});
+	});
+
+	it("rejects looks that go backwards", () => {
+		expect(() => sequentialBoundaries([0.5, 0.4, 1], 0.05, "pocock")).toThrow("increasing");
+	});
+});
+
+describe("createSequentialPlan", () => {
+	const input: SequentialPlanInput = {
+		spendingFunction: "obrien-fleming",
+		plannedLooks: 5,
+		confidenceLevel: 0.95,
+		power: 0.8,
+		baselineRate: 0.1,
+		minimumDetectableEffect: 0.5
+	};
+
+	it("inflates the fixed sample size slightly for O'Brien–Fleming", () => {
+		const plan = createSequentialPlan(input);
+
+		expect(plan.fixedSampleSizePerVariant).toBe(686);
+		// Published inflation factor for 5 looks is about 1.026
+		expect(plan.maximumSampleSizePerVariant / plan.fixedSampleSizePerVariant).toBeCloseTo(1.026, 2);
+	});
+
+	it("needs fewer people for a one-sided plan", () => {
+		const twoSided = createSequentialPlan(input);
+		const oneSided = createSequentialPlan({ ...input, sidedness: "one-sided" });
+
+		expect(oneSided.fixedSampleSizePerVariant).toBeLessThan(twoSided.fixedSampleSizePerVariant);
+		expect(oneSided.maximumSampleSizePerVariant).toBeLessThan(twoSided.maximumSampleSizePerVariant);
+
+		// One-sided at 97.5% puts the same 2.5% in the upper tail as two-sided at 95%
+		const halfAlpha = createSequentialPlan({
+			...input,
+			confidenceLevel: 0.975,
+			sidedness: "one-sided"
+		});
+		expect(
+			Math.abs(halfAlpha.maximumSampleSizePerVariant - twoSided.maximumSampleSizePerVariant)
+		).toBeLessThanOrEqual(2);
+	});
+
+	it("inflates more for Pocock", () => {
+		const plan = createSequentialPlan({ ...input, spendingFunction: "pocock" });
+
+		// Published inflation factor for 5 looks is about 1.2
+		expect(plan.maximumSampleSizePerVariant / plan.fixedSampleSizePerVariant).toBeGreaterThan(1.15);
+		expect(plan.maximumSampleSizePerVariant / plan.fixedSampleSizePerVariant).toBeLessThan(1.25);
+	});
+});
+
+describe("sequentialAnalysis", () => {
+	const plan = createSequentialPlan({
+		spendingFunction: "obrien-fleming",
+		plannedLooks: 4,
+		confidenceLevel: 0.95,
+		power: 0.8,
+		baselineRate: 0.1,
+		minimumDetectableEffect: 0.2
+	});
+	const quarter = Math.round(plan.maximumSampleSizePerVariant / 4);
+
+	it("does not stop early on a result that is only nominally significant", () => {
+		// z ≈ 2.1 at the first look: significant in a fixed test, far below the boundary
+		const result = sequentialAnalysis(plan, [
+			look(quarter, Math.round(quarter * 0.1), quarter, Math.round(quarter * 0.13))
+		]);
+
+		expect(result.looks[0]?.pValue).toBeLessThan(0.05);
+		expect(result.decision).toBe("continue");
+		expect(result.remainingBoundaries).toHaveLength(3);
+		expect(result.isFinalLook).toBe(false);
+	});
+
+	it("stops for efficacy when the boundary is crossed", () => {
+		const result = sequentialAnalysis(plan, [
+			look(quarter, Math.round(quarter * 0.1), quarter, Math.round(quarter * 0.17))
+		]);
+
+		expect(result.decision).toBe("stop-efficacy");
+		expect(result.looks[0]?.crossedEfficacy).toBe(true);
+		expect(result.decisionReason).toContain("better");
+	});
+
+	it("only stops for a winner in the chosen direction of a one-sided plan", () => {
+		const oneSidedPlan = createSequentialPlan({
+			spendingFunction: "obrien-fleming",
+			plannedLooks: 4,
+			confidenceLevel: 0.95,
+			power: 0.8,
+			baselineRate: 0.1,
+			minimumDetectableEffect: 0.2,
+			sidedness: "one-sided"
+		});
+		const oneSidedQuarter = Math.round(oneSidedPlan.maximumSampleSizePerVariant / 4);
+		const result = sequentialAnalysis(oneSidedPlan, [
+			look(
+				oneSidedQuarter,
+				Math.round(oneSidedQuarter * 0.17),
+				oneSidedQuarter,
+				Math.round(oneSidedQuarter * 0.1)
+			)
+		]);
+
+		expect(result.looks[0]?.zScore).toBeLessThan(-4);
+		expect(result.looks[0]?.crossedEfficacy).toBe(false);
+		expect(result.decision).toBe("stop-futility");
+	});
+
+	it("stops for futility when a winner has become very unlikely", () => {
+		const result = sequentialAnalysis(plan, [
+			look(quarter, Math.round(quarter * 0.1), quarter, Math.round(quarter * 0.1)),
+			look(quarter * 2, Math.round(quarter * 0.2), quarter * 2, Math.round(quarter * 0.199))
+		]);
+
+		expect(result.decision).toBe("stop-futility");
+		expect(result.looks[1]?.conditionalPower).toBeLessThan(0.1);
+	});
+
+	it("treats the last planned look as final", () => {
+		const max = plan.maximumSampleSizePerVariant;
+		const atRates = (visitors: number): SequentialLookData =>
+			look(visitors, Math.round(visitors * 0.1), visitors, Math.round(visitors * 0.11));
+		const result = sequentialAnalysis(plan, [
+			atRates(quarter),
+			atRates(quarter * 2),
+			atRates(quarter * 3),
+			atRates(max)
+		]);
+
+		expect(result.isFinalLook).toBe(true);
+		expect(result.looks[3]?.informationFraction).toBe(1);
+		expect(result.looks[3]?.conditionalPower).toBeNull();
+		expect(result.remainingBoundaries).toEqual([]);
+		expect(result.decision).toBe("stop-futility");
+	});
+
+	it("rejects more looks than planned", () => {
+		const looks = Array.from({ length: 5 }, (_, index) =>
+			look(quarter * (index + 1), 10, quarter * (index + 1), 10)
+		);
+
+		expect(() => sequentialAnalysis(plan, looks)).toThrow("allows 4 looks");
+	});
+});
+
+describe("sequential validation", () => {
+	it("requires at least two planned looks", () => {
+		const result = validateSequentialPlanInput({
+			spendingFunction: "pocock",
+			plannedLooks: 1,
+			confidenceLevel: 0.95,
+			power: 0.8,
+			baselineRate: 0.1,
+			minimumDetectableEffect: 0.1
+		});
+
+		expect(result.success).toBe(false);
+	});
+
+	it("rejects running totals that go down", () => {
+		const result = validateSequentialLooks([look(1000, 100, 1000, 110), look(900, 120, 2000, 200)]);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("running totals"))).toBe(true);
+		}
+	});
+
+	it("rejects a look with no new visitors", () => {
+		const result = validateSequentialLooks([
+			look(1000, 100, 1000, 110),
+			look(1000, 100, 1000, 110)
+		]);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.some((error) => error.includes("arrived since the last one"))).toBe(
+				true
+			);
+		}
+	});
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { createRandomGenerator, sampleBinomial } from "../random";
+import { simulateABTests } from "../simulation";
+import { validateSimulationInput } from "../validation";
+import type { SimulationInput } from "../types/ab-testing";
+
+/**
+ * Unit tests for the A/A and false-positive simulator
+ *
+ * Simulations are seeded, so these rates are exact for the seed used. The bounds are set from
+ * theory with room for Monte Carlo error (2,000 tests: standard error ≈ 0.5 points at α = 5%):
+ * - A/A test at 95% confidence: ≈ 5% false positives
+ * - 10 uncorrected looks: ≈ 19% (Armitage, McPherson & Rowe, 1969)
+ * - 4 identical variants, no correction: 1 − 0.95⁴ ≈ 19% if independent, less as they share a control
+ * - 10% vs 12% with 3,841 per group: the sample size planner's 80% power
+ */
+
+const aaTest: SimulationInput = {
+	trueRates: [0.1, 0.1],
+	visitorsPerVariation: 2000,
+	simulations: 2000,
+	confidenceLevel: 0.95,
+	sidedness: "two-sided",
+	correctionMethod: null,
+	looks: 1,
+	seed: 1
+};
+
+describe("sampleBinomial", () => {
+	const draws = (trials: number, probability: number): number[] => {
+		const random = createRandomGenerator(7);
+		return Array.from({ length: 4000 }, () => sampleBinomial(trials, probability, random));
+	};
+
+	const meanAndVariance = (values: number[]): { mean: number; variance: number } => {
+		const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+		const variance =
+			values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+		return { mean, variance };
+	};
+
+	it("matches the binomial mean and variance for small counts", () => {
+		const { mean, variance } = meanAndVariance(draws(200, 0.05));
+
+		expect(mean).toBeCloseTo(10, 0);
+		expect(variance).toBeGreaterThan(9.5 * 0.9);
+		expect(variance).toBeLessThan(9.5 * 1.1);
+	});
+
+	it("matches the binomial mean and variance on the normal approximation path", () => {
+		const { mean, variance } = meanAndVariance(draws(100000, 0.3));
+
+		expect(Math.abs(mean - 30000)).toBeLessThan(5);
+		expect(variance).toBeGreaterThan(21000 * 0.9);
+		expect(variance).toBeLessThan(21000 * 1.1);
+	});
+
+	it("handles rates above 50% and the edges", () => {
+		const random = createRandomGenerator(3);
+
+		expect(meanAndVariance(draws(200, 0.95)).mean).toBeCloseTo(190, 0);
+		expect(sampleBinomial(100, 0, random)).toBe(0);
+		expect(sampleBinomial(100, 1, random)).toBe(100);
+		expect(sampleBinomial(0, 0.5, random)).toBe(0);
+	});
+});
+
+describe("simulateABTests", () => {
+	it("keeps false positives near the promised rate in an A/A test", () => {
+		const result = simulateABTests(aaTest);
+
+		expect(result.falsePositiveRate).toBeGreaterThan(0.035);
+		expect(result.falsePositiveRate).toBeLessThan(0.065);
+		expect(result.power).toBeNull();
+		expect(result.calibration?.status).toBe("calibrated");
+		expect(result.variations[0]?.observedLift?.median).toBeCloseTo(0, 1);
+	});
+
+	it("shows peeking inflating the false-positive rate", () => {
+		const result = simulateABTests({ ...aaTest, looks: 10 });
+
+		expect(result.falsePositiveRate).toBeLessThan(0.065);
+		expect(result.falsePositiveRateWithPeeking).toBeGreaterThan(0.15);
+	});
+
+	it("shows many uncorrected variants inflating false positives, and corrections fixing it", () => {
+		const trueRates = [0.1, 0.1, 0.1, 0.1, 0.1];
+		const uncorrected = simulateABTests({ ...aaTest, trueRates });
+		const holm = simulateABTests({ ...aaTest, trueRates, correctionMethod: "holm" });
+
+		expect(uncorrected.falsePositiveRate).toBeGreaterThan(0.12);
+		expect(holm.falsePositiveRate).toBeLessThan(0.065);
+	});
+
+	it("reaches the power the sample size planner promises", () => {
+		const result = simulateABTests({
+			...aaTest,
+			trueRates: [0.1, 0.12],
+			visitorsPerVariation: 3841
+		});
+
+		expect(result.falsePositiveRate).toBeNull();
+		expect(result.calibration).toBeNull();
+		expect(result.power).toBeGreaterThan(0.77);
+		expect(result.power).toBeLessThan(0.83);
+		expect(result.variations[0]?.trueLift).toBeCloseTo(0.2, 10);
+	});
+
+	it("shows significant results overstating the true lift when power is low", () => {
+		const result = simulateABTests({
+			...aaTest,
+			trueRates: [0.1, 0.12],
+			visitorsPerVariation: 500
+		});
+		const observedLift = result.variations[0]?.observedLift;
+
+		expect(result.power).toBeLessThan(0.3);
+		expect(observedLift?.meanSignificantLift).toBeGreaterThan(0.4);
+		expect(observedLift?.lower).toBeLessThan(0);
+	});
+
+	it("flags Fisher's exact test as conservative with tiny samples", () => {
+		const result = simulateABTests({
+			...aaTest,
+			trueRates: [0.05, 0.05],
+			visitorsPerVariation: 40
+		});
+
+		expect(result.calibration?.status).toBe("conservative");
+	});
+
+	it("gives the same answer for the same seed and reports progress", () => {
+		const progress: number[] = [];
+		const first = simulateABTests({ ...aaTest, simulations: 300 }, (completed) =>
+			progress.push(completed)
+		);
+		const second = simulateABTests({ ...aaTest, simulations: 300 });
+
+		expect(second).toEqual(first);
+		expect(progress).toEqual([100, 200, 300]);
+	});
+});
+
+describe("validateSimulationInput", () => {
+	it("accepts valid settings", () => {
+		expect(validateSimulationInput(aaTest).success).toBe(true);
+	});
+
+	it("rejects impossible rates and oversized runs", () => {
+		const result = validateSimulationInput({
+			...aaTest,
+			trueRates: [0.1, 1.2],
+			simulations: 50000
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toHaveLength(2);
+		}
+	});
+
+	it("needs at least one new person per version at every look", () => {
+		const result = validateSimulationInput({ ...aaTest, visitorsPerVariation: 20, looks: 25 });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0]).toContain("fewer looks");
+		}
+	});
+});
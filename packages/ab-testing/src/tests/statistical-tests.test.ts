@@ -6,7 +6,7 @@ import {
 	formatTwoProportionData,
 	pairwiseComparisons
 } from "../statistical-tests";
-import type { TestVariation } from "../../../types/ab-testing";
+import type { TestVariation } from "../types/ab-testing";
 
 function expectItem<T>(items: readonly T[], index: number): T {
 	const item = items[index];
@@ -315,6 +315,65 @@ describe("Two-Proportion Z-Test", () => {
 		expect(result.isSignificant).toBe(false);
 		expect(result.improvement.relative).toBe(0);
 	});
+
+	it("explains from the expected counts whether the z-test's approximation holds", () => {
+		const large = twoProportionTest({
+			n1: 1000,
+			x1: 100,
+			n2: 1000,
+			x2: 150,
+			confidenceLevel: 0.95
+		});
+		expect(large.testMethodReason).toContain("enough expected conversions");
+
+		const small = twoProportionTest(
+			{ n1: 40, x1: 1, n2: 40, x2: 4, confidenceLevel: 0.95 },
+			"SMS A",
+			"SMS B"
+		);
+		expect(small.testMethod).toBe("z-test");
+		expect(small.testMethodReason).toContain("expected number of conversions in SMS A is 2.5");
+		expect(small.testMethodReason).toContain("approximate");
+	});
+});
+
+describe("One-sided two-proportion z-test", () => {
+	// z = 1.78: short of 1.96 for a two-sided test, but beyond 1.645 for a one-sided one
+	const data = { n1: 10000, x1: 1000, n2: 10000, x2: 1077, confidenceLevel: 0.95 };
+
+	it("is two-sided unless asked otherwise", () => {
+		expect(twoProportionTest(data).sidedness).toBe("two-sided");
+	});
+
+	it("halves the p-value when the variation is better", () => {
+		const twoSided = twoProportionTest(data);
+		const oneSided = twoProportionTest({ ...data, sidedness: "one-sided" });
+
+		expect(oneSided.sidedness).toBe("one-sided");
+		expect(oneSided.pValue).toBeCloseTo(twoSided.pValue / 2, 10);
+		expect(twoSided.isSignificant).toBe(false);
+		expect(oneSided.isSignificant).toBe(true);
+	});
+
+	it("never finds a worse variation significant", () => {
+		const result = twoProportionTest({ ...data, x2: 900, sidedness: "one-sided" });
+
+		expect(result.pValue).toBeGreaterThan(0.5);
+		expect(result.isSignificant).toBe(false);
+	});
+
+	it("uses a lower bound that agrees with the p-value", () => {
+		const twoSided = twoProportionTest(data);
+		const oneSided = twoProportionTest({ ...data, sidedness: "one-sided" });
+		const ninetyPercent = twoProportionTest({ ...data, confidenceLevel: 0.9 });
+
+		expect(twoSided.improvement.absoluteInterval.lower).toBeLessThan(0);
+		expect(oneSided.improvement.absoluteInterval.lower).toBeGreaterThan(0);
+		expect(oneSided.improvement.absoluteInterval.lower).toBeCloseTo(
+			ninetyPercent.improvement.absoluteInterval.lower,
+			10
+		);
+	});
 });
 
 describe("Chi-Square Test for Multi-Variation", () => {
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import {
+	createTestLogEntry,
+	exportTestLog,
+	mergeTestLogs,
+	parseTestLogExport,
+	sortTestLog,
+	summariseTestLogEntry
+} from "../test-log";
+import { insightToHTML } from "../report";
+import { comprehensivePairwiseAnalysis } from "../statistical-tests";
+import { validateTestLogDetails } from "../validation";
+import type { ABTestPermalinkState, TestLogDetails } from "../types/ab-testing";
+
+/**
+ * Unit tests for the local test log: saving, summarising, exporting and merging past tests
+ */
+
+const analysis: ABTestPermalinkState = {
+	input: {
+		controlVariation: { name: "Long form", visitors: 10000, conversions: 500 },
+		variations: [
+			{ name: "Short form", visitors: 10000, conversions: 600 },
+			{ name: "Two-step form", visitors: 10000, conversions: 520 }
+		],
+		confidenceLevel: 0.95,
+		sidedness: "two-sided"
+	},
+	analysisMethod: "frequentist",
+	correctionMethod: "holm",
+	comparisonMode: "all-pairs",
+	priorType: "uniform"
+};
+
+const details: TestLogDetails = {
+	campaign: "Winter appeal",
+	hypothesis: "A shorter donation form will increase completed gifts",
+	startDate: "2026-01-05",
+	endDate: "2026-01-19",
+	decision: "implemented",
+	notes: ""
+};
+
+const entry = createTestLogEntry(details, analysis, new Date("2026-01-20T09:00:00Z"), "test-1");
+
+describe("createTestLogEntry", () => {
+	it("stores the details, analysis, ID and save time", () => {
+		expect(entry).toEqual({
+			...details,
+			id: "test-1",
+			savedAt: "2026-01-20T09:00:00.000Z",
+			analysis
+		});
+	});
+
+	it("generates a unique ID by default", () => {
+		const first = createTestLogEntry(details, analysis);
+		const second = createTestLogEntry(details, analysis);
+
+		expect(first.id).not.toBe(second.id);
+	});
+});
+
+describe("summariseTestLogEntry", () => {
+	it("compares the best variant with the control", () => {
+		const summary = summariseTestLogEntry(entry);
+
+		expect(summary.variantCount).toBe(2);
+		expect(summary.controlName).toBe("Long form");
+		expect(summary.controlRate).toBeCloseTo(0.05, 10);
+		expect(summary.bestName).toBe("Short form");
+		expect(summary.bestRate).toBeCloseTo(0.06, 10);
+		expect(summary.relativeLift).toBeCloseTo(20, 6);
+		expect(summary.isSignificant).toBe(true);
+	});
+});
+
+describe("sortTestLog", () => {
+	it("puts the most recently finished tests first", () => {
+		const older = createTestLogEntry(
+			{ ...details, endDate: "2025-11-30" },
+			analysis,
+			new Date("2026-02-01T00:00:00Z"),
+			"older"
+		);
+		const sameDayLaterSave = createTestLogEntry(
+			details,
+			analysis,
+			new Date("2026-01-21T00:00:00Z"),
+			"later"
+		);
+
+		expect(sortTestLog([older, entry, sameDayLaterSave]).map(({ id }) => id)).toEqual([
+			"later",
+			"test-1",
+			"older"
+		]);
+	});
+});
+
+describe("mergeTestLogs", () => {
+	it("adds new tests and ignores ones already in the log", () => {
+		const colleague = createTestLogEntry(
+			{ ...details, campaign: "Spring raffle" },
+			analysis,
+			new Date("2026-01-22T00:00:00Z"),
+			"test-2"
+		);
+		const merged = mergeTestLogs([entry], [entry, colleague]);
+
+		expect(merged.added).toBe(1);
+		expect(merged.updated).toBe(0);
+		expect(merged.entries.map(({ id }) => id).sort()).toEqual(["test-1", "test-2"]);
+	});
+
+	it("keeps the most recently saved copy of the same test", () => {
+		const edited = { ...entry, decision: "retest" as const, savedAt: "2026-02-01T00:00:00.000Z" };
+
+		expect(mergeTestLogs([entry], [edited])).toEqual({ entries: [edited], added: 0, updated: 1 });
+		expect(mergeTestLogs([edited], [entry])).toEqual({ entries: [edited], added: 0, updated: 0 });
+	});
+});
+
+describe("exportTestLog and parseTestLogExport", () => {
+	it("round-trips a log", () => {
+		const text = exportTestLog([entry], new Date("2026-03-01T00:00:00Z"));
+
+		expect(JSON.parse(text)).toMatchObject({ version: 1, exportedAt: "2026-03-01T00:00:00.000Z" });
+		expect(parseTestLogExport(text)).toEqual({ success: true, data: [entry] });
+	});
+
+	it("reads logs exported before the test direction was recorded as two-sided", () => {
+		// JSON.stringify leaves out undefined fields, as in files saved before the option existed
+		const legacy = {
+			...entry,
+			analysis: { ...analysis, input: { ...analysis.input, sidedness: undefined } }
+		};
+
+		const text = JSON.stringify({ version: 1, entries: [legacy] });
+
+		expect(parseTestLogExport(text)).toEqual({ success: true, data: [entry] });
+	});
+
+	it("rejects files that aren't JSON", () => {
+		const result = parseTestLogExport("Variant,Visitors\nA,100");
+
+		expect(result.success).toBe(false);
+	});
+
+	it("rejects entries with impossible results", () => {
+		const broken = {
+			...entry,
+			analysis: {
+				...analysis,
+				input: {
+					...analysis.input,
+					controlVariation: { name: "Long form", visitors: 100, conversions: 500 }
+				}
+			}
+		};
+
+		expect(parseTestLogExport(exportTestLog([broken])).success).toBe(false);
+	});
+
+	it("imports names with markup so reopened insights render them as text, not HTML", () => {
+		const attack = '<img src=x onerror="alert(1)">';
+		const shared = createTestLogEntry(
+			details,
+			{
+				...analysis,
+				input: {
+					...analysis.input,
+					variations: [
+						{ name: attack, visitors: 10000, conversions: 700 },
+						{ name: "Two-step form", visitors: 10000, conversions: 700 }
+					]
+				}
+			},
+			new Date("2026-01-22T00:00:00Z"),
+			"shared-1"
+		);
+
+		const imported = parseTestLogExport(exportTestLog([shared]));
+		if (!imported.success) {
+			throw new Error("Expected the shared log to import");
+		}
+		const [reopened] = mergeTestLogs([], imported.data).entries;
+		if (!reopened) {
+			throw new Error("Expected the shared test in the log");
+		}
+
+		const { controlVariation, variations, confidenceLevel } = reopened.analysis.input;
+		const html = comprehensivePairwiseAnalysis(
+			[controlVariation, ...variations],
+			confidenceLevel,
+			reopened.analysis.correctionMethod
+		)
+			.insights.map((insight) => insightToHTML(insight.message))
+			.join("");
+
+		expect(html).toContain("<em>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</em>");
+		expect(html).not.toContain("<img");
+	});
+
+	it("rejects files from another version", () => {
+		const text = JSON.stringify({ version: 2, entries: [entry] });
+
+		expect(parseTestLogExport(text).success).toBe(false);
+	});
+});
+
+describe("validateTestLogDetails", () => {
+	it("trims text fields", () => {
+		const result = validateTestLogDetails({ ...details, campaign: "  Winter appeal  " });
+
+		expect(result).toEqual({ success: true, data: details });
+	});
+
+	it("requires a campaign name", () => {
+		expect(validateTestLogDetails({ ...details, campaign: " " }).success).toBe(false);
+	});
+
+	it("rejects an end date before the start date", () => {
+		const result = validateTestLogDetails({ ...details, endDate: "2026-01-01" });
+
+		expect(result.success).toBe(false);
+	});
+
+	it("rejects dates that aren't in YYYY-MM-DD form", () => {
+		expect(validateTestLogDetails({ ...details, startDate: "05/01/2026" }).success).toBe(false);
+	});
+});
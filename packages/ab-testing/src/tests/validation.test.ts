@@ -7,7 +7,7 @@ import {
 	validateStatisticalRequirements,
 	formatValidationErrors
 } from "../validation";
-import type { ABTestInput } from "../../../types/ab-testing";
+import type { ABTestInput } from "../types/ab-testing";
 
 function expectIssueMessage(
 	error: { issues: readonly { message: string }[] },
@@ -142,7 +142,8 @@ describe("abTestInputSchema", () => {
 				conversions: 65
 			}
 		],
-		confidenceLevel: 0.95
+		confidenceLevel: 0.95,
+		sidedness: "two-sided"
 	};
 
 	it("validates correct A/B test input", () => {
@@ -150,6 +151,14 @@ describe("abTestInputSchema", () => {
 		expect(result.success).toBe(true);
 	});
 
+	it("requires the test direction to be chosen", () => {
+		const result = abTestInputSchema.safeParse({ ...validABTest, sidedness: undefined });
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.issues[0]?.message).toContain("either direction (two-sided)");
+		}
+	});
+
 	it("rejects invalid confidence levels", () => {
 		const invalidTest = {
 			...validABTest,
@@ -277,7 +286,8 @@ describe("validateABTestInput helper function", () => {
 					conversions: 65
 				}
 			],
-			confidenceLevel: 0.95
+			confidenceLevel: 0.95,
+			sidedness: "one-sided"
 		};
 
 		const result = validateABTestInput(validInput);
@@ -303,7 +313,8 @@ describe("validateABTestInput helper function", () => {
 					conversionRate: undefined
 				}
 			],
-			confidenceLevel: 0.95
+			confidenceLevel: 0.95,
+			sidedness: "two-sided"
 		};
 
 		const result = validateABTestInput(input);
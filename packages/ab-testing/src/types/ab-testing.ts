@@ -0,0 +1,542 @@
+// TypeScript interfaces for A/B testing data and calculations
+
+/**
+ * Data for a single test variation (control or test group)
+ */
+export interface TestVariation {
+	/** Display name for this variation (e.g., "Control", "Red Button", "Version A") */
+	name: string;
+	/** Total number of people who saw this variation */
+	visitors: number;
+	/** Number of people who converted (completed the desired action) */
+	conversions: number;
+	/** Conversion rate as a decimal (calculated: conversions / visitors) */
+	conversionRate?: number;
+	/** Counts for extra yes/no metrics among the same visitors, such as unsubscribes or complaints */
+	metrics?: BinaryMetricCount[];
+}
+
+/**
+ * How many of a variation's visitors did something measured alongside the main conversion
+ */
+export interface BinaryMetricCount {
+	/** Metric name, matching a guardrail (e.g. "Unsubscribes") */
+	name: string;
+	/** Number of visitors who did it */
+	count: number;
+}
+
+/**
+ * Which way a guardrail metric moves when a variation does harm
+ * - "increase": higher is worse (unsubscribes, complaints)
+ * - "decrease": lower is worse (email opt-ins, Gift Aid declarations)
+ */
+export type GuardrailHarmDirection = "increase" | "decrease";
+
+/**
+ * A metric a winning variation must not make worse
+ */
+export interface GuardrailMetric {
+	/** Metric name, matching the name in each variation's metrics */
+	name: string;
+	/** Which way the metric moves when a variation does harm */
+	harmfulDirection: GuardrailHarmDirection;
+}
+
+/**
+ * Complete input data for an A/B test
+ * Used when user provides all test data at once
+ */
+export interface ABTestInput {
+	/** The control/baseline variation to compare against */
+	controlVariation: TestVariation;
+	/** Array of test variations to compare to the control */
+	variations: TestVariation[];
+	/** How confident you want to be in the results (0.90 = 90%, 0.95 = 95%, 0.99 = 99%) */
+	confidenceLevel: number;
+	/**
+	 * Intended traffic split, control first (e.g. [1, 1] for 50/50, [2, 1, 1] for 50/25/25)
+	 * Used to check for sample ratio mismatch; defaults to an equal split
+	 */
+	allocationRatios?: number[];
+	/**
+	 * Whether to look for a difference in either direction, or only for variations beating the
+	 * control. Choose before the test starts; defaults to two-sided
+	 */
+	sidedness?: TestSidedness;
+	/**
+	 * Metrics a variation must not make worse, each tested one-sided against the control. Every
+	 * variation needs a count for each one in its metrics
+	 */
+	guardrails?: GuardrailMetric[];
+}
+
+/**
+ * Data formatted specifically for two-proportion statistical tests
+ * This is the format most statistical libraries expect
+ */
+export interface TwoProportionTestData {
+	/** Control group sample size (number of visitors) */
+	n1: number;
+	/** Control group successes (number of conversions) */
+	x1: number;
+	/** Variation group sample size (number of visitors) */
+	n2: number;
+	/** Variation group successes (number of conversions) */
+	x2: number;
+	/** Confidence level for the test */
+	confidenceLevel: number;
+	/** Two-sided (default) or one-sided, where the alternative is variation better than control */
+	sidedness?: TestSidedness;
+}
+
+/**
+ * Methods for a confidence interval on the difference between two conversion rates
+ * - "newcombe": Newcombe's hybrid score interval, built from the two Wilson intervals
+ * - "agresti-caffo": Wald interval after adding one conversion and one non-conversion to each group
+ */
+export type DifferenceIntervalMethod = "newcombe" | "agresti-caffo";
+
+/**
+ * Multiple-comparison corrections available for multi-variation tests
+ * - "bonferroni", "holm" and "hochberg" control the family-wise error rate
+ * - "benjamini-hochberg" controls the false discovery rate
+ */
+export type MultipleComparisonMethod = "bonferroni" | "holm" | "hochberg" | "benjamini-hochberg";
+
+/**
+ * Which comparisons a multi-variation analysis makes
+ * - "all-pairs": every variation against every other (performance tiers)
+ * - "versus-control": each variation against the control only (Dunnett-style)
+ */
+export type MultiVariationComparisonMode = "all-pairs" | "versus-control";
+
+/**
+ * Tests that show a variant is "close enough" to the control rather than better
+ * - "non-inferiority": the variant is not worse than the control by more than the margin
+ * - "equivalence": the variant is within the margin of the control in both directions (TOST)
+ */
+export type MarginTestType = "non-inferiority" | "equivalence";
+
+/**
+ * Data for a non-inferiority or equivalence test between control and one variation
+ */
+export interface MarginTestData extends TwoProportionTestData {
+	/** Which question the test answers */
+	testType: MarginTestType;
+	/** Largest difference in conversion rate that doesn't matter, as a decimal (0.01 = 1 percentage point) */
+	margin: number;
+}
+
+/**
+ * Data for multi-variation tests (3+ groups)
+ */
+export interface MultiVariationTestData {
+	/** All variations including control */
+	variations: TestVariation[];
+	/** Confidence level for the overall test */
+	confidenceLevel: number;
+	/** Whether to apply Bonferroni correction for multiple comparisons */
+	bonferroniCorrection: boolean;
+	/** Which multiple-comparison correction to apply (defaults to Bonferroni) */
+	correctionMethod?: MultipleComparisonMethod;
+}
+
+/**
+ * Results for one segment of a test, such as mobile visitors or returning supporters
+ */
+export interface TestSegment {
+	/** Display name for the segment (e.g. "Mobile", "Returning supporters") */
+	name: string;
+	/** Results within this segment: control first, then the variations in the same order as every segment */
+	variations: TestVariation[];
+}
+
+/**
+ * Data for a segment breakdown: the same test split into segments
+ */
+export interface SegmentedTestData {
+	/** Two or more segments, each with every variation's results */
+	segments: TestSegment[];
+	/** Confidence level for the segment, overall and stratified tests */
+	confidenceLevel: number;
+	/** Two-sided (default) or one-sided, where the alternative is variation better than control */
+	sidedness?: TestSidedness;
+}
+
+/**
+ * One variation's results in a multi-step funnel
+ */
+export interface FunnelVariation {
+	/** Display name for the variation (e.g. "Control", "Short form") */
+	name: string;
+	/** People reaching each step, in funnel order: the first step is everyone who entered */
+	stepCounts: number[];
+}
+
+/**
+ * Data for a funnel analysis, such as landing page → details → payment → completed
+ */
+export interface FunnelTestData {
+	/** Name of each step, in funnel order */
+	stepNames: string[];
+	/** Control first, then the variations, each with a count for every step */
+	variations: FunnelVariation[];
+	/** Confidence level for every step's tests */
+	confidenceLevel: number;
+	/** Correction applied within each step when there are 3+ variations (default: Bonferroni) */
+	correctionMethod?: MultipleComparisonMethod;
+}
+
+/**
+ * Configuration settings for the statistical test
+ */
+export interface TestConfiguration {
+	/** Type of test to perform based on number of variations */
+	testType: "two-proportion" | "multi-variation";
+	/** Whether to apply correction for multiple testing */
+	bonferroniCorrection: boolean;
+	/** Confidence level for statistical significance */
+	confidenceLevel: number;
+}
+
+/**
+ * Parameters of a Beta distribution, used as the prior belief about a conversion rate
+ * Beta(alpha, beta) behaves like having already seen (alpha - 1) conversions and (beta - 1) non-conversions
+ */
+export interface BetaPrior {
+	/** Prior "successes" plus one; must be greater than 0 */
+	alpha: number;
+	/** Prior "failures" plus one; must be greater than 0 */
+	beta: number;
+}
+
+/**
+ * Named priors users can pick from, plus a prior built from historical results
+ */
+export type BayesianPriorType = "uniform" | "jeffreys" | "historical";
+
+/**
+ * Data for a Bayesian Beta-Binomial analysis
+ */
+export interface BayesianTestData {
+	/** All variations, control first */
+	variations: TestVariation[];
+	/** Probability mass inside the reported credible intervals (e.g. 0.95) */
+	credibleLevel: number;
+	/** Prior applied to every variation's conversion rate */
+	prior: BetaPrior;
+}
+
+/**
+ * Data for recommending how to split the next period's traffic between variations (a bandit)
+ */
+export interface BanditAllocationInput {
+	/** Results so far for every variation; on an always-on page no variation needs to be the control */
+	variations: TestVariation[];
+	/** Prior applied to every variation's conversion rate */
+	prior: BetaPrior;
+	/** Visitors expected in the next period, used to turn rates into conversions */
+	visitorsNextPeriod: number;
+	/** Smallest share of traffic any variation gets, so the tool keeps learning (e.g. 0.05 for 5%) */
+	minimumShare: number;
+}
+
+/**
+ * Summary statistics for a continuous metric (e.g. gift amounts) in one variation
+ */
+export interface ContinuousMetricSummary {
+	/** Display name for this variation */
+	name: string;
+	/** Number of observations (donors for average gift, visitors for revenue per visitor) */
+	count: number;
+	/** Mean of the metric */
+	mean: number;
+	/** Sample standard deviation of the metric */
+	standardDeviation: number;
+}
+
+/**
+ * Raw observations for a continuous metric in one variation
+ */
+export interface ContinuousMetricSample {
+	/** Display name for this variation */
+	name: string;
+	/** Individual amounts (e.g. each gift) */
+	values: number[];
+	/**
+	 * Optional total visitors: when larger than the number of values, the difference is counted as
+	 * visitors who gave 0, turning average gift into revenue per visitor
+	 */
+	visitors?: number;
+}
+
+/**
+ * Data for comparing a continuous metric between control and one variation
+ * Summary statistics support the t-test only; raw values also allow Mann–Whitney and bootstrap
+ */
+export type ContinuousMetricTestData =
+	| {
+			inputType: "summary";
+			control: ContinuousMetricSummary;
+			variation: ContinuousMetricSummary;
+			confidenceLevel: number;
+	  }
+	| {
+			inputType: "raw";
+			control: ContinuousMetricSample;
+			variation: ContinuousMetricSample;
+			confidenceLevel: number;
+	  };
+
+/**
+ * Whether a test looks for a difference in either direction or only in one
+ * - "two-sided": detects improvements and declines
+ * - "one-sided": only detects the variation beating the control, needing fewer people. Only
+ *   honest when chosen before the test, and when a worse variation would simply not be shipped
+ */
+export type TestSidedness = "two-sided" | "one-sided";
+
+/**
+ * Correction applied to the significance level when several variants are each compared with
+ * the control. Bonferroni is also a safe plan for Holm and Hochberg, which are never stricter.
+ */
+export type SampleSizeCorrection = "none" | "bonferroni";
+
+/**
+ * Inputs for planning a conversion-rate test
+ * Leave exactly one of controlSampleSize, minimumDetectableEffect and power undefined to solve for it
+ */
+export interface SampleSizeCalculationInput {
+	/** Expected conversion rate of the control as a decimal (0.05 = 5%) */
+	baselineRate: number;
+	/** Smallest relative lift worth detecting as a decimal (0.1 = +10%) */
+	minimumDetectableEffect?: number;
+	/** People in the control group; each variant gets allocationRatio × this */
+	controlSampleSize?: number;
+	/** Chance of detecting the effect if it's real, as a decimal (0.8 = 80%) */
+	power?: number;
+	/** Chance of a false positive you accept, as a decimal (0.05 = 95% confidence) */
+	significanceLevel: number;
+	/** One- or two-sided test */
+	sidedness: TestSidedness;
+	/** Size of each variant group relative to the control (1 = equal split) */
+	allocationRatio: number;
+	/** Number of variants compared with the control (not counting the control) */
+	variantCount: number;
+	/** Correction for comparing several variants with the control */
+	correction: SampleSizeCorrection;
+}
+
+/**
+ * Inputs for planning a non-inferiority or equivalence test (equal group sizes)
+ */
+export interface MarginSampleSizeInput {
+	/** Which question the test answers */
+	testType: MarginTestType;
+	/** Expected conversion rate of the control as a decimal (0.05 = 5%) */
+	baselineRate: number;
+	/** Largest difference that doesn't matter, as a decimal (0.01 = 1 percentage point) */
+	margin: number;
+	/** True difference (variant − control) you expect, usually 0 */
+	expectedDifference: number;
+	/** Chance of a false positive you accept, as a decimal (0.05 = 95% confidence) */
+	significanceLevel: number;
+	/** Chance of showing non-inferiority or equivalence if the expected difference is right */
+	power: number;
+}
+
+/**
+ * How traffic reaches a test
+ * - "daily": a web page or form with a steady number of visitors per day
+ * - "sends": emails or SMS sent to a list, one batch per send
+ */
+export type TrafficSource = "daily" | "sends";
+
+/**
+ * Inputs for working out how long a test needs to run
+ */
+export interface TestDurationInput {
+	/** Expected conversion rate of the control as a decimal (0.05 = 5%) */
+	baselineRate: number;
+	/** Smallest relative lift worth detecting as a decimal (0.1 = +10%) */
+	minimumDetectableEffect: number;
+	/** Number of variants compared with the control (not counting the control) */
+	variantCount: number;
+	/** Confidence level (e.g. 0.95) */
+	confidenceLevel: number;
+	/** Chance of detecting the effect if it's real (default 0.8) */
+	power?: number;
+	/** Two-sided, or one-sided (variation better than control) */
+	sidedness: TestSidedness;
+	/** Whether traffic arrives daily or in sends */
+	trafficSource: TrafficSource;
+	/** Visitors per day, or people per send */
+	trafficPerPeriod: number;
+}
+
+/**
+ * Alpha-spending functions for group-sequential tests (Lan–DeMets approximations)
+ * - "obrien-fleming": spends almost nothing early, so early stops need overwhelming evidence
+ * - "pocock": spends evenly, making early stops easier but the final look stricter
+ */
+export type AlphaSpendingFunction = "obrien-fleming" | "pocock";
+
+/**
+ * Settings chosen before a group-sequential test starts
+ */
+export interface SequentialPlanInput {
+	/** How the false-positive budget is spread across looks */
+	spendingFunction: AlphaSpendingFunction;
+	/** Number of times results will be checked, including the final look */
+	plannedLooks: number;
+	/** Overall confidence level across all looks (e.g. 0.95) */
+	confidenceLevel: number;
+	/** Chance of detecting the minimum detectable effect by the final look */
+	power: number;
+	/** Expected conversion rate of the control as a decimal */
+	baselineRate: number;
+	/** Smallest relative lift worth detecting as a decimal (0.1 = +10%) */
+	minimumDetectableEffect: number;
+	/** Two-sided (default) or one-sided, where the alternative is variation better than control */
+	sidedness?: TestSidedness;
+}
+
+/**
+ * A stored group-sequential plan: the settings plus the sample size they imply
+ */
+export interface SequentialTestPlan extends SequentialPlanInput {
+	/** People per group a fixed-horizon test would need */
+	fixedSampleSizePerVariant: number;
+	/** People per group needed by the final look (larger, to pay for the interim looks) */
+	maximumSampleSizePerVariant: number;
+}
+
+/**
+ * Cumulative results at one interim or final look of a sequential test
+ */
+export interface SequentialLookData {
+	/** Control totals so far */
+	control: TestVariation;
+	/** Variation totals so far */
+	variation: TestVariation;
+}
+
+/**
+ * Settings for a Monte Carlo simulation of many A/B tests with known true conversion rates
+ */
+export interface SimulationInput {
+	/** True conversion rates as decimals, control first. Equal rates make an A/A test */
+	trueRates: number[];
+	/** People each variation gets by the end of each simulated test */
+	visitorsPerVariation: number;
+	/** Number of simulated tests to run */
+	simulations: number;
+	/** Confidence level each simulated test is analysed at (e.g. 0.95) */
+	confidenceLevel: number;
+	/** Two-sided, or one-sided (variation better than control) */
+	sidedness: TestSidedness;
+	/** Correction across the variants compared with the control; null tests each one on its own */
+	correctionMethod: MultipleComparisonMethod | null;
+	/**
+	 * Equally spaced looks at the results, stopping at the first significant one. 1 = only look
+	 * at the end; more looks show what peeking does to the false-positive rate
+	 */
+	looks: number;
+	/** Seed for the random numbers, so the same settings always give the same answer */
+	seed: number;
+}
+
+/**
+ * Rows and columns read from pasted or uploaded CSV/TSV text
+ */
+export interface DelimitedTable {
+	/** Column separator detected in the text */
+	delimiter: "," | "\t" | ";";
+	/** Column names from the first row */
+	headers: string[];
+	/** Data rows, one cell per column */
+	rows: string[][];
+}
+
+/**
+ * Whether the mapped conversions column holds counts or rates (e.g. "12.5%" click rate)
+ */
+export type ImportedConversionFormat = "count" | "rate";
+
+/**
+ * Which column (by index) holds each piece of variation data
+ */
+export interface ImportColumnMapping {
+	/** Variation name, e.g. "Variant", "Campaign" or "Subject line" */
+	name: number;
+	/** Sample size, e.g. "Sessions", "Recipients" or "Delivered" */
+	visitors: number;
+	/** Conversions, e.g. "Conversions", "Clicks" or "Signatures" */
+	conversions: number;
+	/** Whether the conversions column is a count or a rate */
+	conversionFormat: ImportedConversionFormat;
+}
+
+/**
+ * Downloadable report formats: printable HTML, Markdown for Slack or docs, JSON for archiving
+ */
+export type ReportFormat = "html" | "markdown" | "json";
+
+/**
+ * How the A/B calculator analyses conversion data
+ */
+export type AnalysisMethod = "frequentist" | "bayesian";
+
+/**
+ * Everything needed to restore an A/B analysis from a shared link
+ */
+export interface ABTestPermalinkState {
+	/** The numbers analysed, confidence level and any intended traffic split */
+	input: ABTestInput;
+	/** Frequentist tests or Bayesian probabilities */
+	analysisMethod: AnalysisMethod;
+	/** Correction for comparing every pair of variations */
+	correctionMethod: MultipleComparisonMethod;
+	/** Every pair, or each variation against the control */
+	comparisonMode: MultiVariationComparisonMode;
+	/** Prior used by the Bayesian analysis */
+	priorType: BayesianPriorType;
+	/** Historical conversion rate (decimal) and strength, when priorType is "historical" */
+	historicalPrior?: { rate: number; strength: number };
+}
+
+/**
+ * What was done after a test finished
+ */
+export type TestLogDecision = "implemented" | "kept-control" | "retest" | "inconclusive";
+
+/**
+ * Details a user records when saving an analysis to the test log
+ */
+export interface TestLogDetails {
+	/** Campaign or appeal the test ran in */
+	campaign: string;
+	/** What the test set out to show, e.g. "A shorter form will increase sign-ups" */
+	hypothesis: string;
+	/** First day of the test (YYYY-MM-DD) */
+	startDate: string;
+	/** Last day of the test (YYYY-MM-DD) */
+	endDate: string;
+	/** What was done with the result */
+	decision: TestLogDecision;
+	/** Anything else worth remembering */
+	notes: string;
+}
+
+/**
+ * One saved test in the local test log
+ */
+export interface TestLogEntry extends TestLogDetails {
+	/** Unique ID, kept when logs are exported and merged */
+	id: string;
+	/** When the entry was saved or last updated (ISO 8601) */
+	savedAt: string;
+	/** The analysis, in the same form as a shared link so it can be reopened */
+	analysis: ABTestPermalinkState;
+}
@@ -1,8 +1,18 @@
 declare module "jstat" {
 	interface JStat {
+		gammaln(x: number): number;
 		fn: {
 			twoSidedDifferenceOfProportions(p1: number, n1: number, p2: number, n2: number): number;
 		};
+		beta: {
+			cdf(x: number, alpha: number, beta: number): number;
+			inv(p: number, alpha: number, beta: number): number;
+			pdf(x: number, alpha: number, beta: number): number;
+		};
+		studentt: {
+			cdf(x: number, dof: number): number;
+			inv(p: number, dof: number): number;
+		};
 		chisquare: {
 			cdf(x: number, df: number): number;
 		};
@@ -0,0 +1,921 @@
+// TypeScript interfaces for statistical test results
+
+import type {
+	ABTestInput,
+	GuardrailHarmDirection,
+	MarginTestType,
+	MultipleComparisonMethod,
+	SampleSizeCorrection,
+	SequentialTestPlan,
+	SimulationInput,
+	TestSidedness,
+	TrafficSource
+} from "./ab-testing";
+
+/**
+ * Base interface for all statistical test results
+ * Contains common properties returned by statistical tests
+ */
+export interface StatisticalTestResult {
+	/** Whether the test result is statistically significant at the given confidence level */
+	isSignificant: boolean;
+	/** The p-value from the statistical test (probability of observing this result by chance) */
+	pValue: number;
+	/** The confidence level used for the test (e.g., 0.95 for 95% confidence) */
+	confidenceLevel: number;
+	/** The calculated test statistic (z-score, t-statistic, chi-square value, etc.) */
+	testStatistic: number;
+	/**
+	 * Degrees of freedom: A statistical concept that roughly means "how many independent pieces of data we have"
+	 * For chi-square tests: (number of rows - 1) × (number of columns - 1)
+	 * For t-tests: roughly the sample size minus 1
+	 * Higher degrees of freedom generally mean more reliable results
+	 */
+	degreesOfFreedom?: number;
+}
+
+/**
+ * Which test produced the p-value for a two-group comparison
+ * - "z-test": two-proportion z-test (normal approximation)
+ * - "fisher-exact": Fisher's exact test, used when expected counts are too small for the z-test
+ */
+export type TwoProportionTestMethod = "z-test" | "fisher-exact";
+
+/**
+ * Results from a two-proportion z-test comparing control vs single variation
+ * Used for simple A/B tests with one control and one variation
+ */
+export interface TwoProportionResult extends StatisticalTestResult {
+	/** The test used to calculate the p-value */
+	testMethod: TwoProportionTestMethod;
+	/** Plain-English explanation of why this test was used */
+	testMethodReason: string;
+	/**
+	 * Two-sided, or one-sided (variation better than control). One-sided intervals for the
+	 * difference use the one-sided critical value, so their lower limit is the confidence bound
+	 * that matches the p-value
+	 */
+	sidedness: TestSidedness;
+	/** Control group data and metrics */
+	control: {
+		/** Display name for the control group */
+		name: string;
+		/** Conversion rate as a decimal (e.g., 0.15 for 15%) */
+		conversionRate: number;
+		/** Total number of visitors/users in control group */
+		visitors: number;
+		/** Number of conversions in control group */
+		conversions: number;
+		/** Wilson score interval for the conversion rate (decimals) */
+		rateInterval: {
+			lower: number;
+			upper: number;
+		};
+	};
+	/** Variation group data and metrics */
+	variation: {
+		/** Display name for the variation group */
+		name: string;
+		/** Conversion rate as a decimal (e.g., 0.18 for 18%) */
+		conversionRate: number;
+		/** Total number of visitors/users in variation group */
+		visitors: number;
+		/** Number of conversions in variation group */
+		conversions: number;
+		/** Wilson score interval for the conversion rate (decimals) */
+		rateInterval: {
+			lower: number;
+			upper: number;
+		};
+	};
+	/** Calculated improvement metrics comparing variation to control */
+	improvement: {
+		/** Absolute difference in conversion rates (variation - control) */
+		absolute: number;
+		/** Relative improvement as a percentage (e.g., 20.5 for 20.5% improvement), or null if control has 0 conversions */
+		relative: number | null;
+		/**
+		 * Wald interval for the difference, in the units of `relative` (or percentage points when the
+		 * control is 0). Kept for compatibility: absoluteInterval and relativeInterval behave better
+		 * near 0% and 100%
+		 */
+		confidenceInterval: {
+			/** Lower bound of the confidence interval */
+			lower: number;
+			/** Upper bound of the confidence interval */
+			upper: number;
+		};
+		/** Newcombe hybrid score interval for the absolute difference (decimals) */
+		absoluteInterval: {
+			lower: number;
+			upper: number;
+		};
+		/** Delta-method interval for the relative improvement (percentages), or null if control has 0 conversions */
+		relativeInterval: {
+			lower: number;
+			upper: number;
+		} | null;
+	};
+	/**
+	 * Effect sizes that don't depend on sample size, for comparing tests with different baselines.
+	 * Intervals use the same confidence level as the improvement intervals
+	 */
+	effectSize: {
+		/** Cohen's h (2·arcsin√p₂ − 2·arcsin√p₁); positive when the variation converts better */
+		cohensH: number;
+		/** Odds of converting with the variation ÷ odds with the control (Woolf interval) */
+		oddsRatio: RatioEstimate;
+		/** Variation conversion rate ÷ control conversion rate (Katz interval) */
+		riskRatio: RatioEstimate;
+		/**
+		 * People to send the variation to for one extra conversion (1 ÷ absolute difference).
+		 * Negative when the variation converts worse, null when the rates are equal
+		 */
+		numberNeededToTreat: number | null;
+	};
+}
+
+/**
+ * A ratio between two groups with its confidence interval (1 = no difference)
+ */
+export interface RatioEstimate {
+	/** Point estimate */
+	estimate: number;
+	/** Confidence interval, on the ratio scale */
+	interval: {
+		lower: number;
+		upper: number;
+	};
+}
+
+/**
+ * One of the one-sided tests against a margin
+ */
+export interface MarginBoundTest {
+	/** The difference tested against, in decimals (−margin or +margin) */
+	bound: number;
+	/** z-statistic for the difference minus the bound */
+	testStatistic: number;
+	/** One-sided p-value */
+	pValue: number;
+}
+
+/**
+ * Results from a non-inferiority or TOST equivalence test
+ * isSignificant means non-inferiority (or equivalence) was shown
+ */
+export interface MarginTestResult extends StatisticalTestResult {
+	/** Which question the test answered */
+	testType: MarginTestType;
+	/** Largest difference that doesn't matter, as a decimal */
+	margin: number;
+	/** Control group data */
+	control: {
+		name: string;
+		conversionRate: number;
+		visitors: number;
+		conversions: number;
+	};
+	/** Variation group data */
+	variation: {
+		name: string;
+		conversionRate: number;
+		visitors: number;
+		conversions: number;
+	};
+	/** Difference in conversion rates (variation − control), as a decimal */
+	difference: number;
+	/**
+	 * Interval for the difference at 1 − 2α (90% for 95% confidence), the interval that
+	 * matches one-sided tests at level α
+	 */
+	confidenceInterval: {
+		lower: number;
+		upper: number;
+	};
+	/** Coverage of the confidence interval (e.g. 0.9) */
+	intervalLevel: number;
+	/** Test that the variant isn't worse than −margin */
+	lowerTest: MarginBoundTest;
+	/** Test that the variant isn't better than +margin (equivalence only) */
+	upperTest: MarginBoundTest | null;
+}
+
+/**
+ * Sample size for a non-inferiority or equivalence test
+ */
+export interface MarginSampleSizeResult {
+	/** People needed in each group */
+	sampleSizePerVariant: number;
+	/** People needed across both groups */
+	totalSampleSize: number;
+	/** Critical z-value for each one-sided test */
+	criticalValue: number;
+}
+
+/**
+ * Summary of a continuous metric in one group, as used in the analysis
+ */
+export interface ContinuousMetricGroup {
+	/** Display name for the group */
+	name: string;
+	/** Number of observations */
+	count: number;
+	/** Mean of the metric */
+	mean: number;
+	/** Sample standard deviation */
+	standardDeviation: number;
+}
+
+/**
+ * Results from comparing a continuous metric (average gift, revenue per visitor)
+ * The main test is Welch's t-test; rank and bootstrap checks are added when raw values are available
+ */
+export interface ContinuousMetricResult extends StatisticalTestResult {
+	/** Control group summary */
+	control: ContinuousMetricGroup;
+	/** Variation group summary */
+	variation: ContinuousMetricGroup;
+	/** Difference in means (variation - control) */
+	difference: {
+		/** Absolute difference in means, in the metric's units */
+		absolute: number;
+		/** Relative difference as a percentage, or null if the control mean is 0 */
+		relative: number | null;
+		/** Welch confidence interval for the absolute difference */
+		confidenceInterval: {
+			lower: number;
+			upper: number;
+		};
+	};
+	/** Mann–Whitney U test (only with raw values); robust to a few very large gifts */
+	mannWhitney: {
+		/** U statistic for the variation */
+		uStatistic: number;
+		/** Normal approximation z-score with tie and continuity corrections */
+		zScore: number;
+		/** Two-sided p-value */
+		pValue: number;
+		/** Whether the rank test is significant at the chosen confidence level */
+		isSignificant: boolean;
+		/** Probability that a random variation value exceeds a random control value (ties count half) */
+		probabilityOfSuperiority: number;
+	} | null;
+	/** Percentile bootstrap interval for the difference in means (only with raw values) */
+	bootstrap: {
+		/** Number of bootstrap resamples */
+		resamples: number;
+		/** Bootstrap confidence interval for the absolute difference */
+		confidenceInterval: {
+			lower: number;
+			upper: number;
+		};
+	} | null;
+}
+
+/**
+ * Observed and expected traffic for one group in a sample ratio mismatch check
+ */
+export interface SampleRatioGroup {
+	/** Display name for the group */
+	name: string;
+	/** Visitors actually observed */
+	visitors: number;
+	/** Visitors expected from the intended allocation */
+	expectedVisitors: number;
+	/** Intended share of traffic (0-1) */
+	expectedShare: number;
+	/** Observed share of traffic (0-1) */
+	observedShare: number;
+}
+
+/**
+ * Results from a sample ratio mismatch (SRM) check
+ * A chi-square goodness-of-fit test of visitors per group against the intended split;
+ * isSignificant means the split is broken and the test results shouldn't be trusted
+ */
+export interface SampleRatioMismatchResult extends StatisticalTestResult {
+	/** p-value below which a mismatch is reported */
+	threshold: number;
+	/** Observed and expected traffic for each group, control first */
+	groups: SampleRatioGroup[];
+}
+
+/**
+ * Bayesian posterior summary for a single variation
+ */
+export interface BayesianVariationResult {
+	/** Display name for the variation */
+	name: string;
+	/** Total number of visitors/users in this variation */
+	visitors: number;
+	/** Number of conversions in this variation */
+	conversions: number;
+	/** Beta posterior parameters after combining the prior with the observed data */
+	posterior: {
+		alpha: number;
+		beta: number;
+	};
+	/** Posterior mean conversion rate as a decimal */
+	posteriorMean: number;
+	/** Equal-tailed credible interval for the conversion rate (decimals) */
+	credibleInterval: {
+		lower: number;
+		upper: number;
+	};
+	/** Probability that this variation's true rate is higher than the control's, or null for the control itself */
+	probabilityBeatsControl: number | null;
+	/** Probability that this variation has the highest true rate of all variations */
+	probabilityBest: number;
+	/**
+	 * Expected loss: how much conversion rate (as a decimal) we expect to give up
+	 * by choosing this variation if it turns out not to be the best
+	 */
+	expectedLoss: number;
+}
+
+/**
+ * Results from a Beta-Binomial Bayesian analysis
+ * Answers "how likely is B better than A?" directly, instead of via p-values
+ */
+export interface BayesianResult {
+	/** Prior used for every variation */
+	prior: {
+		alpha: number;
+		beta: number;
+	};
+	/** Probability mass inside the credible intervals (e.g. 0.95) */
+	credibleLevel: number;
+	/** Posterior summary for the control */
+	control: BayesianVariationResult;
+	/** Posterior summaries for each test variation, in input order */
+	variations: BayesianVariationResult[];
+}
+
+/**
+ * One variation's recommended share of traffic from the bandit allocator
+ */
+export interface BanditArmAllocation extends BayesianVariationResult {
+	/** Share of next period's traffic to send to this variation (decimal) */
+	recommendedShare: number;
+	/** Visitors that share works out to over the next period */
+	expectedVisitors: number;
+}
+
+/**
+ * Thompson-sampling traffic recommendation for the next period
+ */
+export interface BanditAllocationResult {
+	/** Prior used for every variation */
+	prior: {
+		alpha: number;
+		beta: number;
+	};
+	/** Visitors expected in the next period */
+	visitorsNextPeriod: number;
+	/** Smallest share any variation was given (decimal) */
+	minimumShare: number;
+	/** Recommendation for each variation, in input order */
+	arms: BanditArmAllocation[];
+	/** Expected conversions next period with the recommended split and with an even split */
+	expectedConversions: {
+		recommended: number;
+		evenSplit: number;
+	};
+	/**
+	 * Expected regret next period: conversions lost compared with sending everyone to the best
+	 * variation, with the recommended split and with an even split
+	 */
+	expectedRegret: {
+		recommended: number;
+		evenSplit: number;
+	};
+	/** Conversions the recommended split is expected to save compared with an even split */
+	regretAvoided: number;
+}
+
+/**
+ * Results from a chi-square test of independence
+ * Used for multi-variation tests and contingency table analysis
+ */
+export interface ChiSquareResult extends StatisticalTestResult {
+	/**
+	 * Expected frequencies: What we would expect to see in each group if there were no real differences
+	 * Calculated based on the overall conversion rate applied to each group's sample size
+	 * This is a 2D array: [group1_conversions, group1_non_conversions], [group2_conversions, group2_non_conversions], etc.
+	 */
+	expectedFrequencies: number[][];
+	/**
+	 * Observed frequencies: What we actually saw in the test results
+	 * This is a 2D array showing actual conversions and non-conversions for each group
+	 * Format: [group1_conversions, group1_non_conversions], [group2_conversions, group2_non_conversions], etc.
+	 */
+	observedFrequencies: number[][];
+	/**
+	 * Cramér's V: how strongly conversion depends on the group, from 0 (not at all) to 1.
+	 * Unlike the chi-square statistic it doesn't grow with sample size
+	 */
+	cramersV: number;
+	/**
+	 * Residuals: Show which groups contributed most to the overall chi-square result
+	 * Larger absolute values indicate groups that deviate most from expected results
+	 * Positive values = more conversions than expected, negative = fewer conversions than expected
+	 */
+	residuals: number[][];
+}
+
+/**
+ * Complete results for multi-variation A/B tests (3+ variations)
+ * Includes the overall significance test used by the technical details panel.
+ */
+export interface MultiVariationResult {
+	/** Overall chi-square test to determine if any variations differ significantly */
+	overallTest: ChiSquareResult;
+	/** Whether multiple comparison correction was applied in the comprehensive analysis */
+	bonferroniCorrected: boolean;
+	/** Which multiple comparison correction was applied */
+	correctionMethod: MultipleComparisonMethod;
+}
+
+/**
+ * One variation compared against the control in a many-to-one (Dunnett-style) analysis
+ */
+export interface ManyToOneComparison {
+	/** Display name for the variation */
+	name: string;
+	/** Total number of visitors/users in this variation */
+	visitors: number;
+	/** Number of conversions in this variation */
+	conversions: number;
+	/** Conversion rate as a decimal */
+	conversionRate: number;
+	/** Absolute difference in conversion rates (variation - control) */
+	difference: number;
+	/** Unpooled standard error of the difference */
+	standardError: number;
+	/** Difference divided by its standard error */
+	testStatistic: number;
+	/** P-value adjusted for comparing every variation with the same control */
+	adjustedPValue: number;
+	/** Whether this variation differs significantly from the control */
+	isSignificant: boolean;
+	/** Simultaneous confidence interval for the difference (decimals), valid for all comparisons at once */
+	simultaneousInterval: {
+		lower: number;
+		upper: number;
+	};
+}
+
+/**
+ * Results from Dunnett-style many-to-one comparisons (each variation vs control)
+ */
+export interface DunnettResult {
+	/** Simultaneous confidence level for all intervals together */
+	confidenceLevel: number;
+	/** Critical value used instead of the usual z-value (e.g. 2.21 instead of 1.96 for 2 variants) */
+	criticalValue: number;
+	/** Two-sided, or one-sided (variations better than control); one-sided lower limits are the bounds */
+	sidedness: TestSidedness;
+	/** Control group data */
+	control: {
+		name: string;
+		visitors: number;
+		conversions: number;
+		conversionRate: number;
+	};
+	/** One comparison per test variation, in input order */
+	comparisons: ManyToOneComparison[];
+}
+
+/**
+ * Cochran–Mantel–Haenszel test of one variation against the control, stratified by segment
+ * Compares like with like inside each segment, so a different segment mix between the
+ * versions can't create or hide a difference
+ */
+export interface CochranMantelHaenszelResult extends StatisticalTestResult {
+	/** Two-sided, or one-sided (variation better than control) */
+	sidedness: TestSidedness;
+	/**
+	 * testStatistic is the signed z-score Σ(xᵢ − E[xᵢ]) / √ΣVar[xᵢ] for the variation's
+	 * conversions; the usual CMH chi-square (1 degree of freedom) is its square
+	 */
+	testStatistic: number;
+	/** Segment-weighted (Mantel–Haenszel) difference in conversion rates, variation − control */
+	adjustedDifference: number;
+	/** Mantel–Haenszel common odds ratio of converting, variation vs control (null if undefined) */
+	commonOddsRatio: number | null;
+	/** Robins–Breslow–Greenland interval for the common odds ratio (null if undefined) */
+	oddsRatioInterval: { lower: number; upper: number } | null;
+}
+
+/**
+ * One variation compared with the control within each segment, overall and stratified
+ */
+export interface SegmentedComparison {
+	/** Name of the variation compared with the control */
+	variationName: string;
+	/** The comparison within each segment, in segment order */
+	segmentResults: TwoProportionResult[];
+	/** The comparison with every segment added together */
+	aggregate: TwoProportionResult;
+	/** The stratified comparison across segments */
+	stratified: CochranMantelHaenszelResult;
+	/**
+	 * Whether every segment points the opposite way to the added-up totals (Simpson's paradox):
+	 * the variation wins in each segment but loses overall, or the reverse
+	 */
+	simpsonsParadox: boolean;
+	/** Plain-language warning when segment-level and overall directions disagree, or null */
+	directionWarning: string | null;
+}
+
+/**
+ * Results from a segment breakdown analysis
+ * Segment-level results are exploratory: they are not corrected for the number of segments
+ */
+export interface SegmentAnalysisResult {
+	/** Confidence level used throughout */
+	confidenceLevel: number;
+	/** Two-sided, or one-sided (variation better than control) */
+	sidedness: TestSidedness;
+	/** Segment names, in the order of each comparison's segmentResults */
+	segmentNames: string[];
+	/** Name of the control */
+	controlName: string;
+	/** One comparison per variation, in input order */
+	comparisons: SegmentedComparison[];
+}
+
+/**
+ * Results for one stage of a funnel: a step-to-step conversion, or end to end
+ */
+export interface FunnelStepResult {
+	/** Step people started from (the first step for end to end) */
+	fromStep: string;
+	/** Step they had to reach to count as converting */
+	toStep: string;
+	/** Each variation's people at fromStep (visitors) and at toStep (conversions), in input order */
+	variations: PerformanceTier["variations"];
+	/** Chi-square test across all variations (3+ variations only) */
+	overallTest: ChiSquareResult | null;
+	/** The two-variation comparison, or every pairwise comparison with the correction applied */
+	comparisons: TwoProportionResult[];
+	/** p-value for any difference at this stage: the chi-square test, or the single comparison */
+	pValue: number;
+	/** Whether the variations differ at this stage */
+	isSignificant: boolean;
+	/** Variations grouped into performance tiers for this stage */
+	performanceGroups: PerformanceTier[];
+}
+
+/**
+ * Results from a multi-step funnel analysis
+ * Each stage is tested on its own; stages are not corrected for each other
+ */
+export interface FunnelAnalysisResult {
+	/** Confidence level used throughout */
+	confidenceLevel: number;
+	/** Correction applied within each stage (used only with 3+ variations) */
+	correctionMethod: MultipleComparisonMethod;
+	/** Step names, in funnel order */
+	stepNames: string[];
+	/** Name of the control */
+	controlName: string;
+	/** One result per step-to-step conversion, in funnel order */
+	steps: FunnelStepResult[];
+	/** First step to last step */
+	endToEnd: FunnelStepResult;
+}
+
+/**
+ * Individual validation error for specific input fields
+ */
+export interface ValidationError {
+	/** The field name that failed validation */
+	field: string;
+	/** User-friendly error message describing the problem */
+	message: string;
+	/** Error code for programmatic handling */
+	code: string;
+}
+
+/**
+ * Performance tier grouping for comprehensive analysis
+ * Groups variations by statistical performance levels
+ */
+export interface PerformanceTier {
+	/** Tier number (1 = highest performing) */
+	tier: number;
+	/** Human-readable tier label */
+	label: string;
+	/** Variations in this performance tier */
+	variations: Array<{
+		name: string;
+		visitors: number;
+		conversions: number;
+		conversionRate: number;
+	}>;
+}
+
+/**
+ * Business insight from comprehensive analysis
+ * Provides actionable interpretation of statistical results
+ */
+export interface BusinessInsight {
+	/** Type of insight for styling/iconography */
+	type: "success" | "warning" | "info";
+	/** Short descriptive title */
+	title: string;
+	/** Main insight message */
+	message: string;
+	/** Optional actionable recommendation */
+	actionable?: string;
+}
+
+/**
+ * One-sided check that a variation didn't make a guardrail metric worse than the control did
+ */
+export interface GuardrailTestResult {
+	/** Variation being checked */
+	variationName: string;
+	/** Guardrail metric */
+	metricName: string;
+	/** Which way the metric moves when a variation does harm */
+	harmfulDirection: GuardrailHarmDirection;
+	/** Share of the control's visitors with the metric (decimal) */
+	controlRate: number;
+	/** Share of the variation's visitors with the metric (decimal) */
+	variationRate: number;
+	/** One-sided p-value for harm: the metric moving in the harmful direction */
+	pValue: number;
+	/** Whether the variation significantly harmed the metric */
+	failed: boolean;
+}
+
+/**
+ * Comprehensive pairwise analysis results
+ * Provides business-friendly interpretation of all statistical comparisons
+ */
+export interface ComprehensiveAnalysisResult {
+	/** All pairwise comparisons with the multiple comparison correction applied */
+	allComparisons: TwoProportionResult[];
+	/** Variations grouped by statistical performance tiers */
+	performanceGroups: PerformanceTier[];
+	/** Business-friendly insights and recommendations */
+	insights: BusinessInsight[];
+	/** Whether Bonferroni correction was applied */
+	bonferroniCorrected: boolean;
+	/** Which multiple comparison correction was applied */
+	correctionMethod: MultipleComparisonMethod;
+	/** Display name of the correction (e.g. "Holm–Bonferroni") */
+	correctionMethodName: string;
+	/** The corrected alpha level used for significance testing */
+	correctedAlpha: number;
+	/** Guardrail checks for each variation against the control (empty without guardrails) */
+	guardrailResults: GuardrailTestResult[];
+}
+
+/**
+ * Which quantity a sample size calculation solved for
+ */
+export type SampleSizeSolveFor = "sampleSize" | "minimumDetectableEffect" | "power";
+
+/**
+ * Results from planning a conversion-rate test
+ * All three of sample size, detectable effect and power are filled in, whichever was solved for
+ */
+export interface SampleSizeResult {
+	/** Which quantity was calculated from the others */
+	solvedFor: SampleSizeSolveFor;
+	/** Expected control conversion rate */
+	baselineRate: number;
+	/** Conversion rate of a variant with exactly the minimum detectable effect */
+	targetRate: number;
+	/** Smallest effect the test can reliably detect */
+	minimumDetectableEffect: {
+		/** Relative lift as a decimal (0.1 = +10%) */
+		relative: number;
+		/** Absolute difference in conversion rate */
+		absolute: number;
+	};
+	/** People needed in the control group */
+	controlSampleSize: number;
+	/** People needed in each variant group */
+	variantSampleSize: number;
+	/** People needed across all groups */
+	totalSampleSize: number;
+	/** Chance of detecting the effect if it's real */
+	power: number;
+	/** Significance level before any correction */
+	significanceLevel: number;
+	/** Significance level used for each comparison after correction */
+	adjustedSignificanceLevel: number;
+	/** z-value a result must exceed to be significant */
+	criticalValue: number;
+	/** One- or two-sided test */
+	sidedness: TestSidedness;
+	/** Number of variants compared with the control */
+	variantCount: number;
+	/** Size of each variant group relative to the control */
+	allocationRatio: number;
+	/** Correction applied for several variants */
+	correction: SampleSizeCorrection;
+}
+
+/**
+ * How long a planned test needs to run
+ */
+export interface TestDurationPlan {
+	/** People needed in each group, control included */
+	sampleSizePerVariant: number;
+	/** People needed across all groups */
+	totalSampleSize: number;
+	/** Whether the duration is counted in days or sends */
+	trafficSource: TrafficSource;
+	/** Days or sends needed to reach the total sample size */
+	periods: number;
+	/** Days rounded up to whole weeks (null for sends) */
+	recommendedDays: number | null;
+	/** Whether a daily test would finish before a full week has passed */
+	isShorterThanOneWeek: boolean;
+	/** Plain-language warnings about the plan */
+	warnings: string[];
+}
+
+/**
+ * What to do after a look at a group-sequential test
+ * - "continue": keep collecting data until the next planned look
+ * - "stop-efficacy": the difference is significant; stop and act on it
+ * - "stop-futility": a significant difference is now very unlikely; stop and move on
+ */
+export type SequentialDecision = "continue" | "stop-efficacy" | "stop-futility";
+
+/**
+ * Boundary for one planned or completed look
+ */
+export interface SequentialBoundary {
+	/** 1-based look number */
+	lookNumber: number;
+	/** Share of the maximum sample collected by this look (0-1) */
+	informationFraction: number;
+	/** |z| at or above which the test stops for efficacy */
+	efficacyBoundary: number;
+	/** Equivalent two-sided p-value threshold for this look */
+	nominalAlpha: number;
+	/** False-positive budget spent up to and including this look */
+	cumulativeAlphaSpent: number;
+}
+
+/**
+ * Results at one completed look of a group-sequential test
+ */
+export interface SequentialLookResult extends SequentialBoundary {
+	/** Two-proportion z-score from the cumulative data */
+	zScore: number;
+	/** Unadjusted two-sided p-value from the cumulative data */
+	pValue: number;
+	/** Whether |z| reached the efficacy boundary at this look */
+	crossedEfficacy: boolean;
+	/** Chance of a significant final result if the current trend continues (null at the final look) */
+	conditionalPower: number | null;
+}
+
+/**
+ * Results from a group-sequential test after the latest look
+ */
+export interface SequentialTestResult {
+	/** The stored plan the looks were judged against */
+	plan: SequentialTestPlan;
+	/** Every completed look, in order */
+	looks: SequentialLookResult[];
+	/** Boundaries for the looks still to come, assuming equally spaced looks */
+	remainingBoundaries: SequentialBoundary[];
+	/** What to do now */
+	decision: SequentialDecision;
+	/** Plain-language explanation of the decision */
+	decisionReason: string;
+	/** Whether the latest look was the final one */
+	isFinalLook: boolean;
+}
+
+/**
+ * Spread of the relative lift observed across simulated tests, as decimals (0.1 = +10%)
+ */
+export interface SimulatedLiftDistribution {
+	/** Average observed lift */
+	mean: number;
+	/** 2.5th percentile: 95% of simulated tests saw a lift above this */
+	lower: number;
+	/** Middle observed lift */
+	median: number;
+	/** 97.5th percentile: 95% of simulated tests saw a lift below this */
+	upper: number;
+	/**
+	 * Average observed lift among the tests that declared this variation significant, or null
+	 * if none did. Usually bigger than the true lift, because only lucky tests reach significance
+	 */
+	meanSignificantLift: number | null;
+}
+
+/**
+ * How often one variation was declared significant across simulated tests
+ */
+export interface SimulatedVariationResult {
+	/** Display name ("Variant B", "Variant C", …) */
+	name: string;
+	/** True conversion rate the data were generated from */
+	trueRate: number;
+	/** True relative lift over the control as a decimal, or null when the control's true rate is 0 */
+	trueLift: number | null;
+	/** Whether the true rate equals the control's, so any significant result is a false positive */
+	isNull: boolean;
+	/**
+	 * Share of tests declaring a significant difference at the final look. For a real difference,
+	 * only results in the right direction count (this is the empirical power)
+	 */
+	detectionRate: number;
+	/** The same share when tests stop at the first significant look (equal to detectionRate with 1 look) */
+	detectionRateWithPeeking: number;
+	/** Relative lift observed at the final look, or null if the control never converted */
+	observedLift: SimulatedLiftDistribution | null;
+}
+
+/**
+ * Check that the tests produce false positives at the rate they promise
+ * - "calibrated": the false-positive rate is within Monte Carlo error of 1 − confidence level
+ * - "too-many-false-positives": significantly more false positives than promised
+ * - "conservative": significantly fewer, e.g. when Fisher's exact test takes over for small counts
+ */
+export type SimulationCalibrationStatus =
+	"calibrated" | "too-many-false-positives" | "conservative";
+
+/**
+ * Self-check comparing the uncorrected, final-look false-positive rate with the promised rate
+ */
+export interface SimulationCalibration {
+	/** Promised false-positive rate per comparison (1 − confidence level) */
+	expectedRate: number;
+	/** Observed share of comparisons between identical variations that were significant */
+	observedRate: number;
+	/** Monte Carlo standard error of the observed rate */
+	standardError: number;
+	/** Whether the observed rate is within three standard errors of the promised one */
+	status: SimulationCalibrationStatus;
+}
+
+/**
+ * Results from a Monte Carlo simulation of many A/B tests
+ */
+export interface SimulationResult {
+	/** The settings simulated */
+	input: SimulationInput;
+	/**
+	 * Share of tests declaring at least one identical variation significant at the final look,
+	 * or null when every variation truly differs from the control
+	 */
+	falsePositiveRate: number | null;
+	/** The same share when tests stop at the first significant look */
+	falsePositiveRateWithPeeking: number | null;
+	/**
+	 * Share of tests correctly detecting at least one real difference at the final look, or null
+	 * when no variation truly differs from the control
+	 */
+	power: number | null;
+	/** The same share when tests stop at the first significant look */
+	powerWithPeeking: number | null;
+	/** Per-variation detection rates and observed lifts */
+	variations: SimulatedVariationResult[];
+	/** Self-check of the tests, or null when no variation is identical to the control */
+	calibration: SimulationCalibration | null;
+}
+
+/**
+ * Self-contained record of an A/B test analysis, for sharing and archiving
+ * Two-variation and multi-variation results share this shape so every format renders both
+ */
+export interface ABTestReport {
+	/** Report format version, increased whenever fields change */
+	version: 1;
+	/** When the report was created (ISO 8601) */
+	generatedAt: string;
+	/** Report heading, e.g. "A/B test results: Blue Button vs Red Button" */
+	title: string;
+	/** The numbers that were analysed */
+	input: ABTestInput;
+	/** Confidence level used for the tests */
+	confidenceLevel: number;
+	/** Correction applied across comparisons (null for a single comparison) */
+	correctionMethod: MultipleComparisonMethod | null;
+	/** Display name of the correction (null for a single comparison) */
+	correctionMethodName: string | null;
+	/** Significance threshold after any correction */
+	correctedAlpha: number;
+	/** Every comparison made, with p-values and confidence intervals */
+	comparisons: TwoProportionResult[];
+	/** Variations grouped by performance */
+	performanceGroups: PerformanceTier[];
+	/** Plain-language interpretation */
+	insights: BusinessInsight[];
+	/** Data-quality warnings to bear in mind */
+	warnings: string[];
+}
@@ -0,0 +1,1606 @@
+import { z } from "zod";
+import type {
+	ABTestInput,
+	ABTestPermalinkState,
+	BanditAllocationInput,
+	BayesianTestData,
+	ContinuousMetricSample,
+	ContinuousMetricTestData,
+	FunnelTestData,
+	MarginSampleSizeInput,
+	MarginTestData,
+	MultiVariationTestData,
+	SampleSizeCalculationInput,
+	SegmentedTestData,
+	SequentialLookData,
+	SequentialPlanInput,
+	SimulationInput,
+	TestDurationInput,
+	TestLogDetails,
+	TestLogEntry,
+	TestVariation,
+	TwoProportionTestData
+} from "./types/ab-testing";
+import { describeSampleRatioMismatch, sampleRatioMismatchTest } from "./sample-ratio";
+
+const SIDEDNESS_MESSAGE =
+	"Please choose whether you're looking for a difference in either direction (two-sided) or only an improvement (one-sided)";
+
+/**
+ * Direction of the hypothesis: either direction, or only the variation beating the control
+ */
+const testSidednessSchema = z.enum(["two-sided", "one-sided"], { message: SIDEDNESS_MESSAGE });
+
+/**
+ * Shown when results are entered before the test direction is chosen
+ */
+export const SIDEDNESS_REQUIRED_MESSAGE = `${SIDEDNESS_MESSAGE} before entering results`;
+
+/**
+ * One-sided tests ask whether variations beat the control, so they can't rank variations
+ * against each other
+ */
+export const ONE_SIDED_COMPARISON_MESSAGE =
+	"One-sided tests only compare each variant with the control. Under advanced settings, compare each variant against the control only, or choose a two-sided test to compare every pair";
+
+/**
+ * Zod schema for validating a single test variation
+ * Provides clear, actionable error messages for both novices and experts
+ */
+export const testVariationSchema = z
+	.object({
+		name: z
+			.string()
+			.min(1, "Please give this variation a name (e.g., 'Control', 'Red Button', 'Version A')")
+			.max(50, "Please use a shorter name (50 characters or less)"),
+
+		visitors: z
+			.number()
+			.int("Please enter a whole number for sample size (no decimals)")
+			.min(1, "Sample size must be at least 1. Enter a value or remove any variant with 0.")
+			.max(1000000000, "Please enter a smaller sample size (less than 1 billion)"),
+
+		conversions: z
+			.number()
+			.int("Please enter a whole number for conversions (no decimals)")
+			.min(0, "Conversions can't be negative. Enter 0 if no one converted"),
+
+		conversionRate: z.number().optional(),
+
+		metrics: z
+			.array(
+				z.object({
+					name: z
+						.string()
+						.min(1, "Please give each metric a name (e.g. 'Unsubscribes')")
+						.max(50, "Please use a shorter metric name (50 characters or less)"),
+					count: z
+						.number()
+						.int("Please enter a whole number for each metric (no decimals)")
+						.min(0, "Metric counts can't be negative. Enter 0 if no one did it")
+				})
+			)
+			.optional()
+	})
+	.refine((data) => data.conversions <= data.visitors, {
+		message: "Conversions can't be higher than sample size. Please check your numbers",
+		path: ["conversions"]
+	})
+	.refine((data) => (data.metrics ?? []).every((metric) => metric.count <= data.visitors), {
+		message: "Metric counts can't be higher than sample size. Please check your numbers",
+		path: ["metrics"]
+	});
+
+/**
+ * Zod schema for a guardrail metric
+ */
+const guardrailMetricSchema = z.object({
+	name: z
+		.string()
+		.min(1, "Please give each guardrail a name (e.g. 'Unsubscribes' or 'Complaints')")
+		.max(50, "Please use a shorter guardrail name (50 characters or less)"),
+
+	harmfulDirection: z.enum(["increase", "decrease"], {
+		message: "Please choose whether a rise or a fall in this guardrail is harmful"
+	})
+});
+
+/**
+ * Zod schema for validating complete A/B test input
+ */
+export const abTestInputSchema = z
+	.object({
+		controlVariation: testVariationSchema,
+
+		variations: z
+			.array(testVariationSchema)
+			.min(1, "You need at least one test variation to compare against your control")
+			.max(10, "Testing more than 10 variations at once makes results hard to interpret"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "We recommend at least 80% confidence; anything lower isn't reliable")
+			.max(0.99, "99% is the highest confidence level we support")
+			.refine((level) => [0.8, 0.85, 0.9, 0.95, 0.99].includes(level), {
+				message: "Please choose a standard confidence level: 80%, 85%, 90%, 95%, or 99%"
+			}),
+
+		allocationRatios: z
+			.array(z.number().positive("Each part of the intended traffic split must be greater than 0"))
+			.optional(),
+
+		// Required so the direction is a decision made before seeing the data, not after
+		sidedness: testSidednessSchema,
+
+		guardrails: z
+			.array(guardrailMetricSchema)
+			.max(5, "Please use 5 guardrails or fewer: each extra check adds a chance of a false alarm")
+			.optional()
+	})
+	.refine(
+		(data) =>
+			data.allocationRatios === undefined ||
+			data.allocationRatios.length === data.variations.length + 1,
+		{
+			message: "Please give one intended traffic share for each variant, starting with the control",
+			path: ["allocationRatios"]
+		}
+	)
+	.refine(
+		(data) =>
+			new Set((data.guardrails ?? []).map((guardrail) => guardrail.name.trim().toLowerCase()))
+				.size === (data.guardrails ?? []).length,
+		{ message: "Please give each guardrail a different name", path: ["guardrails"] }
+	)
+	.refine(
+		(data) =>
+			(data.guardrails ?? []).every((guardrail) =>
+				[data.controlVariation, ...data.variations].every((variation) =>
+					variation.metrics?.some((metric) => metric.name === guardrail.name)
+				)
+			),
+		{
+			message: "Please enter a count for every guardrail for every variant, including the control",
+			path: ["guardrails"]
+		}
+	);
+
+/**
+ * Zod schema for an analysis restored from a shared link
+ * Links can be edited by hand, so everything is checked as strictly as typed input
+ */
+export const abTestPermalinkSchema = z
+	.object({
+		input: abTestInputSchema,
+
+		analysisMethod: z.enum(["frequentist", "bayesian"], {
+			message: "This link asks for an analysis method we don't support"
+		}),
+
+		correctionMethod: z.enum(["bonferroni", "holm", "hochberg", "benjamini-hochberg"], {
+			message:
+				"Please choose a supported correction: Bonferroni, Holm, Hochberg or Benjamini–Hochberg"
+		}),
+
+		comparisonMode: z.enum(["all-pairs", "versus-control"], {
+			message: "This link asks for a comparison mode we don't support"
+		}),
+
+		priorType: z.enum(["uniform", "jeffreys", "historical"], {
+			message: "This link asks for a prior we don't support"
+		}),
+
+		historicalPrior: z
+			.object({
+				rate: z
+					.number()
+					.gt(0, "The historical conversion rate must be above 0%")
+					.lt(1, "The historical conversion rate must be below 100%"),
+				strength: z.number().positive("The prior strength must be greater than 0")
+			})
+			.optional()
+	})
+	.refine((data) => data.priorType !== "historical" || data.historicalPrior !== undefined, {
+		message: "This link uses a historical prior but doesn't include the historical results",
+		path: ["historicalPrior"]
+	})
+	.refine(
+		(data) =>
+			data.input.sidedness === "two-sided" ||
+			data.input.variations.length === 1 ||
+			data.analysisMethod === "bayesian" ||
+			data.comparisonMode === "versus-control",
+		{
+			message: ONE_SIDED_COMPARISON_MESSAGE,
+			path: ["comparisonMode"]
+		}
+	);
+
+const isoDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Please enter dates as YYYY-MM-DD")
+	.refine((value) => !Number.isNaN(Date.parse(value)), "Please enter a real date");
+
+/**
+ * Zod schema for the details saved with a test in the test log
+ */
+export const testLogDetailsSchema = z
+	.object({
+		campaign: z
+			.string()
+			.trim()
+			.min(1, "Please enter the campaign or appeal this test ran in")
+			.max(100, "Please use a shorter campaign name (100 characters or less)"),
+
+		hypothesis: z
+			.string()
+			.trim()
+			.min(1, "Please write down what the test set out to show")
+			.max(500, "Please keep the hypothesis to 500 characters or less"),
+
+		startDate: isoDateSchema,
+
+		endDate: isoDateSchema,
+
+		decision: z.enum(["implemented", "kept-control", "retest", "inconclusive"], {
+			message: "Please choose what you decided to do"
+		}),
+
+		notes: z.string().trim().max(2000, "Please keep notes to 2,000 characters or less")
+	})
+	.refine((data) => data.endDate >= data.startDate, {
+		message: "The end date can't be before the start date",
+		path: ["endDate"]
+	});
+
+/**
+ * Analyses saved before the direction was recorded were all two-sided
+ */
+const withLegacySidedness = (analysis: unknown): unknown => {
+	if (!analysis || typeof analysis !== "object") return analysis;
+
+	const { input } = analysis as { input?: unknown };
+	if (!input || typeof input !== "object" || "sidedness" in input) return analysis;
+
+	return { ...analysis, input: { ...input, sidedness: "two-sided" } };
+};
+
+/**
+ * Zod schema for a test log exported as JSON, checked before merging into the local log
+ */
+export const testLogExportSchema = z.object({
+	version: z.literal(1, { message: "This file isn't a test log export we can read" }),
+	entries: z.array(
+		z.intersection(
+			testLogDetailsSchema,
+			z.object({
+				id: z.string().min(1, "Every test log entry needs an ID"),
+				savedAt: z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+					message: "Every test log entry needs a valid saved date"
+				}),
+				analysis: z.preprocess(withLegacySidedness, abTestPermalinkSchema)
+			})
+		)
+	)
+});
+
+/**
+ * Zod schema for two-proportion test data validation
+ */
+export const twoProportionTestDataSchema = z
+	.object({
+		n1: z
+			.number()
+			.int("Control sample size must be a whole number")
+			.min(1, "Control group needs a sample size of at least 1"),
+
+		x1: z
+			.number()
+			.int("Control conversions must be a whole number")
+			.min(0, "Control conversions can't be negative"),
+
+		n2: z
+			.number()
+			.int("Test sample size must be a whole number")
+			.min(1, "Test group needs a sample size of at least 1"),
+
+		x2: z
+			.number()
+			.int("Test conversions must be a whole number")
+			.min(0, "Test conversions can't be negative"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		sidedness: testSidednessSchema.default("two-sided")
+	})
+	.refine((data) => data.x1 <= data.n1, {
+		message: "Control conversions can't be higher than control sample size. Please double-check",
+		path: ["x1"]
+	})
+	.refine((data) => data.x2 <= data.n2, {
+		message: "Test conversions can't be higher than test sample size. Please double-check",
+		path: ["x2"]
+	});
+
+/** Margin for non-inferiority and equivalence tests, in decimals */
+const marginSchema = z
+	.number()
+	.gt(0, "Please enter a margin greater than 0 points")
+	.max(0.5, "Please enter a margin of 50 points or less");
+
+const marginTestTypeSchema = z.enum(["non-inferiority", "equivalence"], {
+	message: "Please choose a non-inferiority or equivalence test"
+});
+
+/**
+ * Zod schema for non-inferiority and equivalence test data
+ */
+export const marginTestDataSchema = z.intersection(
+	twoProportionTestDataSchema,
+	z.object({ testType: marginTestTypeSchema, margin: marginSchema })
+);
+
+/**
+ * Zod schema for multi-variation test data validation
+ */
+export const multiVariationTestDataSchema = z.object({
+	variations: z
+		.array(testVariationSchema)
+		.min(3, "Multi-variation tests need at least 3 groups (including control)")
+		.max(10, "Testing more than 10 variations makes results unreliable"),
+
+	confidenceLevel: z
+		.number()
+		.min(0.8, "Please use at least 80% confidence")
+		.max(0.99, "Maximum confidence level is 99%"),
+
+	bonferroniCorrection: z.boolean(),
+
+	correctionMethod: z
+		.enum(["bonferroni", "holm", "hochberg", "benjamini-hochberg"], {
+			message:
+				"Please choose a supported correction: Bonferroni, Holm, Hochberg or Benjamini–Hochberg"
+		})
+		.optional()
+});
+
+/**
+ * Zod schema for a segment breakdown
+ * Every segment must list the same variations in the same order, control first
+ */
+export const segmentedTestDataSchema = z
+	.object({
+		segments: z
+			.array(
+				z.object({
+					name: z
+						.string()
+						.min(1, "Please give each segment a name (e.g. 'Mobile' or 'Returning supporters')")
+						.max(50, "Please use a shorter segment name (50 characters or less)"),
+					variations: z
+						.array(testVariationSchema)
+						.min(2, "Each segment needs the control and at least one variation")
+						.max(11, "Testing more than 10 variations at once makes results hard to interpret")
+				})
+			)
+			.min(2, "Enter at least two segments to compare")
+			.max(10, "Please break results into 10 segments or fewer"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		sidedness: testSidednessSchema.default("two-sided")
+	})
+	.refine(
+		(data) => {
+			const names = data.segments[0]?.variations.map((variation) => variation.name).join("\n");
+			return data.segments.every(
+				(segment) => segment.variations.map((variation) => variation.name).join("\n") === names
+			);
+		},
+		{
+			message: "Every segment needs results for the same variations, in the same order",
+			path: ["segments"]
+		}
+	)
+	.refine(
+		(data) =>
+			new Set(data.segments.map((segment) => segment.name.trim().toLowerCase())).size ===
+			data.segments.length,
+		{ message: "Please give each segment a different name", path: ["segments"] }
+	);
+
+/**
+ * Zod schema for a multi-step funnel
+ * Counts can only fall from one step to the next, because each step includes everyone who got further
+ */
+export const funnelTestDataSchema = z
+	.object({
+		stepNames: z
+			.array(
+				z
+					.string()
+					.min(1, "Please give each step a name (e.g. 'Landing page' or 'Payment')")
+					.max(50, "Please use a shorter step name (50 characters or less)")
+			)
+			.min(3, "Enter at least three steps. For a single step, analyse conversion rates instead")
+			.max(10, "Please use 10 funnel steps or fewer"),
+
+		variations: z
+			.array(
+				z.object({
+					name: z
+						.string()
+						.min(
+							1,
+							"Please give this variation a name (e.g., 'Control', 'Red Button', 'Version A')"
+						)
+						.max(50, "Please use a shorter name (50 characters or less)"),
+					stepCounts: z
+						.array(
+							z
+								.number()
+								.int("Please enter whole numbers of people (no decimals)")
+								.min(0, "Step counts can't be negative")
+								.max(1000000000, "Please enter a smaller count (less than 1 billion)")
+						)
+						.refine(
+							(counts) => counts.every((count, index) => count <= (counts[index - 1] ?? count)),
+							"More people can't reach a step than the one before it. Please check your numbers"
+						)
+						.refine(
+							(counts) => counts.slice(0, -1).every((count) => count > 0),
+							"Every step before the last needs at least one person, or there's nothing to test after it"
+						)
+				})
+			)
+			.min(2, "A funnel test needs the control and at least one variation")
+			.max(11, "Testing more than 10 variations at once makes results hard to interpret"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		correctionMethod: z
+			.enum(["bonferroni", "holm", "hochberg", "benjamini-hochberg"], {
+				message:
+					"Please choose a supported correction: Bonferroni, Holm, Hochberg or Benjamini–Hochberg"
+			})
+			.optional()
+	})
+	.refine(
+		(data) =>
+			data.variations.every((variation) => variation.stepCounts.length === data.stepNames.length),
+		{ message: "Please enter a count for every step of every variation", path: ["variations"] }
+	)
+	.refine(
+		(data) =>
+			new Set(data.variations.map((variation) => variation.name.trim().toLowerCase())).size ===
+			data.variations.length,
+		{ message: "Please give each variation a different name", path: ["variations"] }
+	);
+
+/**
+ * Zod schema for a Beta prior
+ */
+export const betaPriorSchema = z.object({
+	alpha: z
+		.number()
+		.positive("Prior alpha must be greater than 0")
+		.max(1000000, "Prior alpha is too large; use a weaker prior"),
+	beta: z
+		.number()
+		.positive("Prior beta must be greater than 0")
+		.max(1000000, "Prior beta is too large; use a weaker prior")
+});
+
+/**
+ * Zod schema for Bayesian analysis data validation
+ */
+export const bayesianTestDataSchema = z.object({
+	variations: z
+		.array(testVariationSchema)
+		.min(2, "Bayesian analysis needs a control and at least one variation")
+		.max(11, "Testing more than 10 variations at once makes results hard to interpret"),
+
+	credibleLevel: z
+		.number()
+		.min(0.8, "Please use at least an 80% credible interval")
+		.max(0.99, "Maximum credible interval is 99%"),
+
+	prior: betaPriorSchema
+});
+
+/**
+ * Zod schema for the bandit allocator
+ * The minimum shares have to leave traffic to share out, so they can't add up to more than 100%
+ */
+export const banditAllocationInputSchema = z
+	.object({
+		variations: z
+			.array(testVariationSchema)
+			.min(2, "A bandit needs at least two variations to share traffic between")
+			.max(11, "Sharing traffic between more than 10 variations makes each one too slow to learn"),
+
+		prior: betaPriorSchema,
+
+		visitorsNextPeriod: z
+			.number()
+			.int("Please enter a whole number of visitors")
+			.min(1, "Please enter how many visitors you expect next period")
+			.max(1000000000, "Please enter fewer visitors (less than 1 billion)"),
+
+		minimumShare: z
+			.number()
+			.min(0, "The minimum share can't be negative")
+			.max(0.5, "Please keep the minimum share to 50% or less")
+	})
+	.refine((data) => data.minimumShare * data.variations.length <= 1, {
+		message:
+			"The minimum shares add up to more than 100% of traffic. Lower the minimum or test fewer variations",
+		path: ["minimumShare"]
+	})
+	.refine(
+		(data) =>
+			new Set(data.variations.map((variation) => variation.name.trim().toLowerCase())).size ===
+			data.variations.length,
+		{ message: "Please give each variation a different name", path: ["variations"] }
+	);
+
+/**
+ * Zod schema for a continuous metric's summary statistics in one group
+ */
+export const continuousMetricSummarySchema = z.object({
+	name: z
+		.string()
+		.min(1, "Please give this group a name (e.g., 'Control', 'Version A')")
+		.max(50, "Please use a shorter name (50 characters or less)"),
+
+	count: z
+		.number()
+		.int("Please enter a whole number for the number of gifts or visitors")
+		.min(2, "You need at least 2 gifts or visitors in each group to measure variation"),
+
+	mean: z.number().min(0, "The average can't be negative"),
+
+	standardDeviation: z
+		.number()
+		.min(0, "Standard deviation can't be negative. Enter 0 if every amount was the same")
+});
+
+/**
+ * Zod schema for raw continuous-metric values in one group
+ */
+export const continuousMetricSampleSchema = z
+	.object({
+		name: z
+			.string()
+			.min(1, "Please give this group a name (e.g., 'Control', 'Version A')")
+			.max(50, "Please use a shorter name (50 characters or less)"),
+
+		values: z
+			.array(z.number().min(0, "Amounts can't be negative. Remove refunds before pasting"))
+			.min(2, "Please paste at least 2 amounts for each group")
+			.max(1000000, "Please paste fewer than 1 million amounts"),
+
+		visitors: z
+			.number()
+			.int("Please enter a whole number for visitors (no decimals)")
+			.max(1000000000, "Please enter fewer visitors (less than 1 billion)")
+			.optional()
+	})
+	.refine((data) => data.visitors === undefined || data.visitors >= data.values.length, {
+		message: "Visitors can't be fewer than the number of amounts. Please check your numbers",
+		path: ["visitors"]
+	});
+
+/**
+ * Zod schema for continuous-metric test data validation
+ */
+export const continuousMetricTestDataSchema = z.discriminatedUnion("inputType", [
+	z.object({
+		inputType: z.literal("summary"),
+		control: continuousMetricSummarySchema,
+		variation: continuousMetricSummarySchema,
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%")
+	}),
+	z.object({
+		inputType: z.literal("raw"),
+		control: continuousMetricSampleSchema,
+		variation: continuousMetricSampleSchema,
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%")
+	})
+]);
+
+/**
+ * Zod schema for planning a test's sample size, minimum detectable effect or power
+ */
+export const sampleSizeCalculationSchema = z
+	.object({
+		baselineRate: z
+			.number()
+			.gt(0, "Please enter a baseline conversion rate above 0%")
+			.lt(1, "Baseline conversion rate must be below 100%"),
+
+		minimumDetectableEffect: z
+			.number()
+			.gt(0, "The improvement to detect must be greater than 0%")
+			.max(10, "Please enter an improvement of 1,000% or less")
+			.optional(),
+
+		controlSampleSize: z
+			.number()
+			.int("Please enter a whole number of people")
+			.min(10, "Please enter at least 10 people per group")
+			.max(1000000000, "Please enter a smaller sample size (less than 1 billion)")
+			.optional(),
+
+		power: z
+			.number()
+			.min(0.5, "Power below 50% means you'd miss real effects more often than not")
+			.max(0.999, "Power must be below 100%")
+			.optional(),
+
+		significanceLevel: z
+			.number()
+			.gt(0, "Confidence level must be below 100%")
+			.max(0.2, "We recommend at least 80% confidence; anything lower isn't reliable"),
+
+		sidedness: testSidednessSchema,
+
+		allocationRatio: z
+			.number()
+			.min(0.01, "Each variant needs at least 1% of the control's traffic")
+			.max(100, "Each variant can have at most 100 times the control's traffic"),
+
+		variantCount: z
+			.number()
+			.int("Please enter a whole number of variants")
+			.min(1, "You need at least one variant to compare against your control")
+			.max(10, "Testing more than 10 variations at once makes results hard to interpret"),
+
+		correction: z.enum(["none", "bonferroni"], {
+			message: "Please choose whether to correct for several variants"
+		})
+	})
+	.refine(
+		(data) =>
+			[data.controlSampleSize, data.minimumDetectableEffect, data.power].filter(
+				(value) => value === undefined
+			).length === 1,
+		{
+			message:
+				"Leave exactly one of sample size, improvement to detect and power blank, and we'll work it out",
+			path: ["controlSampleSize"]
+		}
+	)
+	.refine(
+		(data) =>
+			data.minimumDetectableEffect === undefined ||
+			data.baselineRate * (1 + data.minimumDetectableEffect) < 1,
+		{
+			message:
+				"That improvement would take the conversion rate above 100%. Please enter a smaller one",
+			path: ["minimumDetectableEffect"]
+		}
+	);
+
+/**
+ * Zod schema for planning a non-inferiority or equivalence test
+ */
+export const marginSampleSizeSchema = z
+	.object({
+		testType: marginTestTypeSchema,
+
+		baselineRate: z
+			.number()
+			.gt(0, "Please enter a baseline conversion rate above 0%")
+			.lt(1, "Baseline conversion rate must be below 100%"),
+
+		margin: marginSchema,
+
+		expectedDifference: z
+			.number()
+			.gt(-1, "Please enter an expected difference above −100 points")
+			.lt(1, "Please enter an expected difference below 100 points"),
+
+		significanceLevel: z
+			.number()
+			.gt(0, "Confidence level must be below 100%")
+			.max(0.2, "We recommend at least 80% confidence; anything lower isn't reliable"),
+
+		power: z
+			.number()
+			.min(0.5, "Power below 50% means you'd miss real effects more often than not")
+			.max(0.999, "Power must be below 100%")
+	})
+	.refine(
+		(data) =>
+			data.baselineRate + data.expectedDifference > 0 &&
+			data.baselineRate + data.expectedDifference < 1,
+		{
+			message: "The expected difference would take the variant's rate outside 0% to 100%",
+			path: ["expectedDifference"]
+		}
+	)
+	.refine(
+		(data) =>
+			data.testType === "non-inferiority"
+				? data.expectedDifference > -data.margin
+				: Math.abs(data.expectedDifference) < data.margin,
+		{
+			message: "The expected difference must be inside the margin, or the test can't succeed",
+			path: ["expectedDifference"]
+		}
+	);
+
+/**
+ * Zod schema for planning how long a test needs to run
+ */
+export const testDurationSchema = z
+	.object({
+		baselineRate: z
+			.number()
+			.gt(0, "Please enter a baseline conversion rate above 0%")
+			.lt(1, "Baseline conversion rate must be below 100%"),
+
+		minimumDetectableEffect: z
+			.number()
+			.gt(0, "The improvement to detect must be greater than 0%")
+			.max(10, "Please enter an improvement of 1,000% or less"),
+
+		variantCount: z
+			.number()
+			.int("Please enter a whole number of variants")
+			.min(1, "You need at least one variant to compare against your control")
+			.max(10, "Testing more than 10 variations at once makes results hard to interpret"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		power: z
+			.number()
+			.min(0.5, "Power below 50% means you'd miss real effects more often than not")
+			.max(0.99, "Maximum power is 99%")
+			.optional(),
+
+		sidedness: testSidednessSchema,
+
+		trafficSource: z.enum(["daily", "sends"], {
+			message: "Please choose daily visitors or list sends"
+		}),
+
+		trafficPerPeriod: z
+			.number()
+			.int("Please enter a whole number of people")
+			.min(1, "Please enter at least 1 person per day or per send")
+	})
+	.refine((data) => data.baselineRate * (1 + data.minimumDetectableEffect) < 1, {
+		message:
+			"That improvement would take the conversion rate above 100%. Please enter a smaller one",
+		path: ["minimumDetectableEffect"]
+	});
+
+/**
+ * Zod schema for planning a group-sequential test
+ */
+export const sequentialPlanInputSchema = z
+	.object({
+		spendingFunction: z.enum(["obrien-fleming", "pocock"], {
+			message: "Please choose O'Brien–Fleming or Pocock boundaries"
+		}),
+
+		plannedLooks: z
+			.number()
+			.int("Please enter a whole number of looks")
+			.min(2, "Plan at least 2 looks. With 1 look, use the standard calculator")
+			.max(10, "Please plan 10 looks or fewer"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		power: z
+			.number()
+			.min(0.5, "Power below 50% means you'd miss real effects more often than not")
+			.max(0.99, "Maximum power is 99%"),
+
+		baselineRate: z
+			.number()
+			.gt(0, "Please enter a baseline conversion rate above 0%")
+			.lt(1, "Baseline conversion rate must be below 100%"),
+
+		minimumDetectableEffect: z
+			.number()
+			.gt(0, "The improvement to detect must be greater than 0%")
+			.max(10, "Please enter an improvement of 1,000% or less"),
+
+		sidedness: testSidednessSchema.optional()
+	})
+	.refine((data) => data.baselineRate * (1 + data.minimumDetectableEffect) < 1, {
+		message:
+			"That improvement would take the conversion rate above 100%. Please enter a smaller one",
+		path: ["minimumDetectableEffect"]
+	});
+
+/**
+ * Zod schema for the cumulative results entered at each look
+ * Totals can only grow between looks, because each look includes everyone so far
+ */
+export const sequentialLooksSchema = z
+	.array(
+		z.object({
+			control: testVariationSchema,
+			variation: testVariationSchema
+		})
+	)
+	.min(1, "Enter the results for at least one look")
+	.refine(
+		(looks) =>
+			looks.every((look, index) => {
+				const previous = looks[index - 1];
+				if (!previous) return true;
+				return (
+					look.control.visitors >= previous.control.visitors &&
+					look.control.conversions >= previous.control.conversions &&
+					look.variation.visitors >= previous.variation.visitors &&
+					look.variation.conversions >= previous.variation.conversions
+				);
+			}),
+		{
+			message:
+				"Each look's numbers are running totals, so they can't be lower than the previous look's"
+		}
+	)
+	.refine(
+		(looks) =>
+			looks.every((look, index) => {
+				const previous = looks[index - 1];
+				if (!previous) return true;
+				return (
+					look.control.visitors + look.variation.visitors >
+					previous.control.visitors + previous.variation.visitors
+				);
+			}),
+		{
+			message:
+				"Each look should include visitors who arrived since the last one. Please enter the updated running totals"
+		}
+	);
+
+/**
+ * Zod schema for the A/A and false-positive simulator
+ * Limits keep a run to seconds in the browser: at most 10,000 tests of 200,000 people per group
+ */
+export const simulationInputSchema = z
+	.object({
+		trueRates: z
+			.array(
+				z
+					.number()
+					.min(0, "True conversion rates can't be below 0%")
+					.max(1, "True conversion rates can't be above 100%")
+			)
+			.min(2, "Simulate a control and at least one variant")
+			.max(6, "Please simulate 5 variants or fewer"),
+
+		visitorsPerVariation: z
+			.number()
+			.int("Please enter a whole number of people per version")
+			.min(10, "Please simulate at least 10 people per version")
+			.max(200000, "Please simulate 200,000 people per version or fewer"),
+
+		simulations: z
+			.number()
+			.int("Please enter a whole number of simulated tests")
+			.min(100, "Run at least 100 simulated tests, or the rates will be too noisy to read")
+			.max(10000, "Please run 10,000 simulated tests or fewer"),
+
+		confidenceLevel: z
+			.number()
+			.min(0.8, "Please use at least 80% confidence")
+			.max(0.99, "Maximum confidence level is 99%"),
+
+		sidedness: testSidednessSchema,
+
+		correctionMethod: z
+			.enum(["bonferroni", "holm", "hochberg", "benjamini-hochberg"], {
+				message: "Please choose a multiple comparison correction, or none"
+			})
+			.nullable(),
+
+		looks: z
+			.number()
+			.int("Please enter a whole number of looks")
+			.min(1, "Look at the results at least once")
+			.max(30, "Please simulate 30 looks or fewer"),
+
+		seed: z.number().int("The random seed must be a whole number")
+	})
+	.refine((data) => data.looks <= data.visitorsPerVariation, {
+		message: "Each look needs at least one new person per version. Please use fewer looks",
+		path: ["looks"]
+	});
+
+/**
+ * Transform Zod validation errors into helpful messages
+ * Focuses on what users should do, not just what went wrong
+ */
+export function formatValidationErrors(error: z.ZodError): string[] {
+	return error.issues.map((err) => {
+		// Make field names more user-friendly
+		const fieldPath = err.path.join(".");
+		let friendlyField = fieldPath;
+
+		const segmentMatch = fieldPath.match(/^segments\.(\d+)\.(.+)/);
+		const [, segmentIndex, segmentField] = segmentMatch ?? [];
+
+		if (segmentIndex && segmentField) {
+			// In segments the control is listed first, alongside the variations
+			const variationMatch = segmentField.match(/^variations\.(\d+)\.(.+)/);
+			const [, variationIndex, fieldName] = variationMatch ?? [];
+			const variationLabel =
+				variationIndex === "0" ? "Control" : variationIndex ? `Variation ${variationIndex}` : "";
+			friendlyField = `Segment ${parseInt(segmentIndex) + 1} ${
+				variationLabel && fieldName ? `${variationLabel} ${fieldName}` : segmentField
+			}`;
+		} else if (/^variations\.\d+\.stepCounts/.test(fieldPath)) {
+			// In funnels the control is listed first, alongside the variations
+			const [, variationIndex = "", stepIndex] =
+				fieldPath.match(/^variations\.(\d+)\.stepCounts(?:\.(\d+))?/) ?? [];
+			const variationLabel = variationIndex === "0" ? "Control" : `Variation ${variationIndex}`;
+			friendlyField = stepIndex
+				? `${variationLabel} step ${parseInt(stepIndex) + 1} count`
+				: `${variationLabel} step counts`;
+		} else if (/^stepNames\.\d+$/.test(fieldPath)) {
+			friendlyField = `Step ${parseInt(fieldPath.slice("stepNames.".length)) + 1} name`;
+		} else if (/^guardrails\.\d+\./.test(fieldPath)) {
+			const [, guardrailIndex = "0", fieldName] = fieldPath.match(/^guardrails\.(\d+)\.(.+)/) ?? [];
+			friendlyField = `Guardrail ${parseInt(guardrailIndex) + 1} ${fieldName}`;
+		} else if (fieldPath.includes("controlVariation")) {
+			friendlyField = fieldPath.replace("controlVariation.", "Control ");
+		} else if (fieldPath.includes("variations")) {
+			const match = fieldPath.match(/variations\.(\d+)\.(.+)/);
+			const [, variationIndex, fieldName] = match ?? [];
+			if (variationIndex && fieldName) {
+				const variationNum = parseInt(variationIndex) + 1;
+				friendlyField = `Variation ${variationNum} ${fieldName}`;
+			}
+		}
+
+		// Guardrail counts sit on each variation as metrics
+		friendlyField = friendlyField
+			.replace(/metrics\.(\d+)\.(\w+)/, (_, metricIndex: string, fieldName: string) => {
+				return `guardrail ${parseInt(metricIndex) + 1} ${fieldName}`;
+			})
+			.replace(/metrics$/, "guardrail counts");
+
+		return `${friendlyField}: ${err.message}`;
+	});
+}
+
+/**
+ * Safe validation with helpful error messages
+ */
+export function validateABTestInput(
+	input: unknown
+): { success: true; data: ABTestInput } | { success: false; errors: string[] } {
+	const result = abTestInputSchema.safeParse(input);
+
+	if (result.success) {
+		return { success: true, data: normaliseABTestInput(result.data) };
+	} else {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+}
+
+export function validateABTestPermalinkState(
+	input: unknown
+): { success: true; data: ABTestPermalinkState } | { success: false; errors: string[] } {
+	const result = abTestPermalinkSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const { input: testInput, historicalPrior, ...options } = result.data;
+	return {
+		success: true,
+		data: {
+			...options,
+			input: normaliseABTestInput(testInput),
+			...(historicalPrior !== undefined ? { historicalPrior } : {})
+		}
+	};
+}
+
+export function validateTestLogDetails(
+	input: unknown
+): { success: true; data: TestLogDetails } | { success: false; errors: string[] } {
+	const result = testLogDetailsSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return { success: true, data: result.data };
+}
+
+export function validateTestLogExport(
+	input: unknown
+): { success: true; data: TestLogEntry[] } | { success: false; errors: string[] } {
+	const result = testLogExportSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const entries: TestLogEntry[] = [];
+	for (const entry of result.data.entries) {
+		const analysis = validateABTestPermalinkState(entry.analysis);
+		if (!analysis.success) {
+			return analysis;
+		}
+		entries.push({ ...entry, analysis: analysis.data });
+	}
+
+	return { success: true, data: entries };
+}
+
+export function validateTwoProportionTestData(
+	input: unknown
+): { success: true; data: TwoProportionTestData } | { success: false; errors: string[] } {
+	const result = twoProportionTestDataSchema.safeParse(input);
+
+	if (result.success) {
+		return { success: true, data: result.data };
+	} else {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+}
+
+export function validateMarginTestData(
+	input: unknown
+): { success: true; data: MarginTestData } | { success: false; errors: string[] } {
+	const result = marginTestDataSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return { success: true, data: result.data };
+}
+
+export function validateMultiVariationTestData(
+	input: unknown
+): { success: true; data: MultiVariationTestData } | { success: false; errors: string[] } {
+	const result = multiVariationTestDataSchema.safeParse(input);
+
+	if (result.success) {
+		return { success: true, data: normaliseMultiVariationTestData(result.data) };
+	} else {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+}
+
+export function validateSegmentedTestData(
+	input: unknown
+): { success: true; data: SegmentedTestData } | { success: false; errors: string[] } {
+	const result = segmentedTestDataSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return {
+		success: true,
+		data: {
+			...result.data,
+			segments: result.data.segments.map((segment) => ({
+				name: segment.name,
+				variations: segment.variations.map(normaliseVariation)
+			}))
+		}
+	};
+}
+
+export function validateFunnelTestData(
+	input: unknown
+): { success: true; data: FunnelTestData } | { success: false; errors: string[] } {
+	const result = funnelTestDataSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const { correctionMethod, ...data } = result.data;
+	return {
+		success: true,
+		data: { ...data, ...(correctionMethod !== undefined ? { correctionMethod } : {}) }
+	};
+}
+
+export function validateBayesianTestData(
+	input: unknown
+): { success: true; data: BayesianTestData } | { success: false; errors: string[] } {
+	const result = bayesianTestDataSchema.safeParse(input);
+
+	if (result.success) {
+		return {
+			success: true,
+			data: {
+				variations: result.data.variations.map(normaliseVariation),
+				credibleLevel: result.data.credibleLevel,
+				prior: result.data.prior
+			}
+		};
+	} else {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+}
+
+export function validateBanditAllocationInput(
+	input: unknown
+): { success: true; data: BanditAllocationInput } | { success: false; errors: string[] } {
+	const result = banditAllocationInputSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return {
+		success: true,
+		data: { ...result.data, variations: result.data.variations.map(normaliseVariation) }
+	};
+}
+
+export function validateContinuousMetricTestData(
+	input: unknown
+): { success: true; data: ContinuousMetricTestData } | { success: false; errors: string[] } {
+	const result = continuousMetricTestDataSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	if (result.data.inputType === "summary") {
+		return { success: true, data: result.data };
+	}
+
+	const normaliseSample = (
+		sample: z.output<typeof continuousMetricSampleSchema>
+	): ContinuousMetricSample => ({
+		name: sample.name,
+		values: sample.values,
+		...(sample.visitors !== undefined ? { visitors: sample.visitors } : {})
+	});
+
+	return {
+		success: true,
+		data: {
+			inputType: "raw",
+			control: normaliseSample(result.data.control),
+			variation: normaliseSample(result.data.variation),
+			confidenceLevel: result.data.confidenceLevel
+		}
+	};
+}
+
+export function validateSampleSizeCalculationInput(
+	input: unknown
+): { success: true; data: SampleSizeCalculationInput } | { success: false; errors: string[] } {
+	const result = sampleSizeCalculationSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const { controlSampleSize, minimumDetectableEffect, power, ...settings } = result.data;
+	return {
+		success: true,
+		data: {
+			...settings,
+			...(controlSampleSize !== undefined ? { controlSampleSize } : {}),
+			...(minimumDetectableEffect !== undefined ? { minimumDetectableEffect } : {}),
+			...(power !== undefined ? { power } : {})
+		}
+	};
+}
+
+export function validateMarginSampleSizeInput(
+	input: unknown
+): { success: true; data: MarginSampleSizeInput } | { success: false; errors: string[] } {
+	const result = marginSampleSizeSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return { success: true, data: result.data };
+}
+
+export function validateTestDurationInput(
+	input: unknown
+): { success: true; data: TestDurationInput } | { success: false; errors: string[] } {
+	const result = testDurationSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const { power, ...plan } = result.data;
+	return { success: true, data: { ...plan, ...(power !== undefined ? { power } : {}) } };
+}
+
+export function validateSequentialPlanInput(
+	input: unknown
+): { success: true; data: SequentialPlanInput } | { success: false; errors: string[] } {
+	const result = sequentialPlanInputSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	const { sidedness, ...plan } = result.data;
+	return { success: true, data: { ...plan, ...(sidedness !== undefined ? { sidedness } : {}) } };
+}
+
+export function validateSequentialLooks(
+	input: unknown
+): { success: true; data: SequentialLookData[] } | { success: false; errors: string[] } {
+	const result = sequentialLooksSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return {
+		success: true,
+		data: result.data.map((look) => ({
+			control: normaliseVariation(look.control),
+			variation: normaliseVariation(look.variation)
+		}))
+	};
+}
+
+export function validateSimulationInput(
+	input: unknown
+): { success: true; data: SimulationInput } | { success: false; errors: string[] } {
+	const result = simulationInputSchema.safeParse(input);
+
+	if (!result.success) {
+		return { success: false, errors: formatValidationErrors(result.error) };
+	}
+
+	return { success: true, data: result.data };
+}
+
+function normaliseVariation(variation: z.output<typeof testVariationSchema>): TestVariation {
+	return {
+		name: variation.name,
+		visitors: variation.visitors,
+		conversions: variation.conversions,
+		...(variation.conversionRate !== undefined ? { conversionRate: variation.conversionRate } : {}),
+		...(variation.metrics !== undefined ? { metrics: variation.metrics } : {})
+	};
+}
+
+function normaliseABTestInput(data: z.output<typeof abTestInputSchema>): ABTestInput {
+	return {
+		controlVariation: normaliseVariation(data.controlVariation),
+		variations: data.variations.map(normaliseVariation),
+		confidenceLevel: data.confidenceLevel,
+		...(data.allocationRatios !== undefined ? { allocationRatios: data.allocationRatios } : {}),
+		sidedness: data.sidedness,
+		...(data.guardrails !== undefined ? { guardrails: data.guardrails } : {})
+	};
+}
+
+function normaliseMultiVariationTestData(
+	data: z.output<typeof multiVariationTestDataSchema>
+): MultiVariationTestData {
+	return {
+		variations: data.variations.map(normaliseVariation),
+		confidenceLevel: data.confidenceLevel,
+		bonferroniCorrection: data.bonferroniCorrection,
+		...(data.correctionMethod !== undefined ? { correctionMethod: data.correctionMethod } : {})
+	};
+}
+
+/** Smallest expected cell count for which the z-test's normal approximation is trusted */
+export const MINIMUM_EXPECTED_COUNT = 5;
+
+/**
+ * Smallest of the conversions and non-conversions each group would have if both converted at the
+ * same (pooled) rate, with a label naming the group
+ *
+ * @param data - Two-proportion test data
+ * @param controlName - Display name for the control group
+ * @param variationName - Display name for the variation group
+ * @returns The smallest expected cell count and its label
+ */
+export function smallestExpectedCell(
+	data: TwoProportionTestData,
+	controlName: string = "Control",
+	variationName: string = "Variation"
+): { label: string; expected: number } {
+	const { n1, x1, n2, x2 } = data;
+	const pooledRate = (x1 + x2) / (n1 + n2);
+
+	const cells = [
+		{ label: `conversions in ${controlName}`, expected: n1 * pooledRate },
+		{ label: `non-conversions in ${controlName}`, expected: n1 * (1 - pooledRate) },
+		{ label: `conversions in ${variationName}`, expected: n2 * pooledRate },
+		{ label: `non-conversions in ${variationName}`, expected: n2 * (1 - pooledRate) }
+	];
+	return cells.reduce((min, cell) => (cell.expected < min.expected ? cell : min));
+}
+
+/**
+ * Check whether the normal approximation behind the two-proportion z-test is valid
+ *
+ * WHAT THIS DOES: Works out how many conversions and non-conversions we'd expect in each group
+ * if both groups converted at the same rate. If any of those is below 5, the z-test's p-value
+ * can't be trusted and an exact test should be used instead.
+ *
+ * @param data - Two-proportion test data
+ * @param controlName - Display name for the control group
+ * @param variationName - Display name for the variation group
+ * @returns Explanation of the problem, or null if the z-test is appropriate
+ */
+export function getNormalApproximationIssue(
+	data: TwoProportionTestData,
+	controlName: string = "Control",
+	variationName: string = "Variation"
+): string | null {
+	const smallest = smallestExpectedCell(data, controlName, variationName);
+
+	if (smallest.expected >= MINIMUM_EXPECTED_COUNT) {
+		return null;
+	}
+
+	return `The expected number of ${smallest.label} is ${smallest.expected.toFixed(1)}, below the ${MINIMUM_EXPECTED_COUNT} the z-test needs, so Fisher's exact test was used instead.`;
+}
+
+/**
+ * Check for statistical issues and provide helpful guidance
+ * Explains why certain conditions matter and what users can do about them
+ */
+export function validateStatisticalRequirements(data: ABTestInput): string[] {
+	const warnings: string[] = [];
+	const allVariations = [data.controlVariation, ...data.variations];
+
+	// A broken traffic split invalidates everything else, so it's reported first
+	const sampleRatio = sampleRatioMismatchTest(allVariations, data.allocationRatios);
+	if (sampleRatio.isSignificant) {
+		warnings.push(describeSampleRatioMismatch(sampleRatio));
+	}
+
+	allVariations.forEach((variation, index) => {
+		const label = index === 0 ? "Control" : `Variation ${index}`;
+
+		// Small sample size warning with explanation
+		if (variation.visitors < 100) {
+			warnings.push(
+				`${label} has a sample size of only ${variation.visitors}. For reliable results, try to get at least 100 per variation before drawing conclusions.`
+			);
+		}
+
+		// Low conversion warning with context
+		if (variation.conversions < 5) {
+			warnings.push(
+				`${label} has only ${variation.conversions} conversions. With fewer than 5 conversions, the results might change significantly with just a few more data points.`
+			);
+		}
+
+		const nonConversions = variation.visitors - variation.conversions;
+		if (nonConversions < 5) {
+			warnings.push(
+				`${label} has only ${nonConversions} non-conversions. With fewer than 5 non-conversions, normal approximation tests can be unreliable.`
+			);
+		}
+
+		// Very low conversion rate with actionable advice
+		const conversionRate = variation.conversions / variation.visitors;
+		if (conversionRate < 0.005) {
+			warnings.push(
+				`${label} has a ${(conversionRate * 100).toFixed(2)}% conversion rate. Very low rates need much larger sample sizes. Consider running your test longer or checking if your tracking is working correctly.`
+			);
+		}
+
+		// Zero conversions handling
+		if (variation.conversions === 0) {
+			warnings.push(
+				`${label} has zero conversions. The statistical test can still run, but you'll need at least one conversion to calculate meaningful improvement percentages.`
+			);
+		}
+	});
+
+	// Identical rates warning with explanation
+	const controlRate = data.controlVariation.conversions / data.controlVariation.visitors;
+	const identicalRates = data.variations.filter(
+		(v) => Math.abs(v.conversions / v.visitors - controlRate) < 0.0001
+	);
+
+	if (identicalRates.length > 0) {
+		warnings.push(
+			"Some variations have identical conversion rates. This is fine early in a test, but if rates stay identical with large sample sizes, there may be no real difference to detect."
+		);
+	}
+
+	// Unbalanced sample sizes warning
+	const minVisitors = Math.min(...allVariations.map((v) => v.visitors));
+	const maxVisitors = Math.max(...allVariations.map((v) => v.visitors));
+
+	if (maxVisitors > minVisitors * 3) {
+		warnings.push(
+			"Your sample sizes are quite unbalanced. While the test will still work, more balanced groups usually give clearer results."
+		);
+	}
+
+	// Expected counts too small for the z-test: comparisons fall back to Fisher's exact test
+	data.variations.forEach((variation, index) => {
+		const issue = getNormalApproximationIssue(
+			{
+				n1: data.controlVariation.visitors,
+				x1: data.controlVariation.conversions,
+				n2: variation.visitors,
+				x2: variation.conversions,
+				confidenceLevel: data.confidenceLevel
+			},
+			"Control",
+			`Variation ${index + 1}`
+		);
+		if (issue) {
+			warnings.push(
+				`Variation ${index + 1} vs Control: ${issue} Exact tests are reliable with small numbers but can only detect large differences.`
+			);
+		}
+	});
+
+	return warnings;
+}
+
+/**
+ * Simple input sanitisation - handles the most common issues
+ */
+export function sanitiseABTestInput(input: unknown): unknown {
+	if (!input || typeof input !== "object") return input;
+
+	const inputObj = input as Record<string, unknown>;
+
+	return {
+		controlVariation: sanitiseVariation(inputObj.controlVariation),
+		variations: Array.isArray(inputObj.variations)
+			? inputObj.variations.map(sanitiseVariation)
+			: inputObj.variations,
+		confidenceLevel: sanitiseConfidenceLevel(inputObj.confidenceLevel),
+		...(inputObj.allocationRatios !== undefined
+			? {
+					allocationRatios: Array.isArray(inputObj.allocationRatios)
+						? inputObj.allocationRatios.map(sanitiseNumber)
+						: inputObj.allocationRatios
+				}
+			: {}),
+		...(inputObj.sidedness !== undefined ? { sidedness: inputObj.sidedness } : {}),
+		...(inputObj.guardrails !== undefined
+			? {
+					guardrails: Array.isArray(inputObj.guardrails)
+						? inputObj.guardrails.map(sanitiseGuardrail)
+						: inputObj.guardrails
+				}
+			: {})
+	};
+}
+
+function sanitiseVariation(input: unknown): unknown {
+	if (!input || typeof input !== "object") return input;
+
+	const inputObj = input as Record<string, unknown>;
+
+	return {
+		name: typeof inputObj.name === "string" ? inputObj.name.trim() : inputObj.name,
+		visitors: sanitiseNumber(inputObj.visitors),
+		conversions: sanitiseNumber(inputObj.conversions),
+		...(inputObj.conversionRate !== undefined ? { conversionRate: inputObj.conversionRate } : {}),
+		...(inputObj.metrics !== undefined
+			? {
+					metrics: Array.isArray(inputObj.metrics)
+						? inputObj.metrics.map(sanitiseMetric)
+						: inputObj.metrics
+				}
+			: {})
+	};
+}
+
+function sanitiseGuardrail(input: unknown): unknown {
+	if (!input || typeof input !== "object") return input;
+
+	const inputObj = input as Record<string, unknown>;
+
+	return {
+		name: typeof inputObj.name === "string" ? inputObj.name.trim() : inputObj.name,
+		harmfulDirection: inputObj.harmfulDirection
+	};
+}
+
+function sanitiseMetric(input: unknown): unknown {
+	if (!input || typeof input !== "object") return input;
+
+	const inputObj = input as Record<string, unknown>;
+
+	return {
+		name: typeof inputObj.name === "string" ? inputObj.name.trim() : inputObj.name,
+		count: sanitiseNumber(inputObj.count)
+	};
+}
+
+function sanitiseNumber(value: unknown): unknown {
+	if (typeof value === "string") {
+		const cleaned = value.replace(/[,\s]/g, ""); // Remove commas and spaces
+		const parsed = parseFloat(cleaned);
+		return isNaN(parsed) ? value : parsed;
+	}
+	return value;
+}
+
+function sanitiseConfidenceLevel(value: unknown): unknown {
+	if (typeof value === "string" && value.includes("%")) {
+		const parsed = parseFloat(value.replace("%", ""));
+		return isNaN(parsed) ? value : parsed / 100;
+	}
+	if (typeof value === "number" && value > 1 && value <= 100) {
+		return value / 100; // Convert percentage to decimal
+	}
+	return value;
+}
+
+/**
+ * Parse pasted amounts (e.g. a column of gifts copied from a spreadsheet or CRM export)
+ *
+ * WHAT THIS DOES: Accepts one amount per line, or amounts separated by tabs, semicolons, spaces or
+ * commas. Currency symbols are ignored and "1,250.00" is read as one thousand two hundred and fifty.
+ *
+ * @param text - Pasted text
+ * @returns Parsed amounts and any pieces that weren't numbers
+ */
+export function parseAmountList(text: string): { values: number[]; invalidTokens: string[] } {
+	const values: number[] = [];
+	const invalidTokens: string[] = [];
+	const thousandsPattern = /^\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+	for (const rawToken of text.split(/[\s;]+/)) {
+		const token = rawToken.replace(/[£$€]/g, "");
+		if (token === "") continue;
+
+		// Commas are thousands separators only when grouped in threes; otherwise they separate amounts
+		const pieces = thousandsPattern.test(token) ? [token.replace(/,/g, "")] : token.split(",");
+
+		for (const piece of pieces) {
+			if (piece === "") continue;
+			const parsed = Number(piece);
+			if (/^(\d+\.?\d*|\.\d+)$/.test(piece) && Number.isFinite(parsed)) {
+				values.push(parsed);
+			} else {
+				invalidTokens.push(piece);
+			}
+		}
+	}
+
+	return { values, invalidTokens };
+}
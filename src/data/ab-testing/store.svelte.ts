@@ -0,0 +1,24 @@
+import { persisted } from "svelte-persisted-store";
+import type {
+	SequentialLookData,
+	SequentialTestPlan,
+	TestLogEntry
+} from "@mobilisers/ab-testing/types/ab-testing";
+
+export type SequentialTestStoreType = {
+	plan: SequentialTestPlan | null;
+	looks: SequentialLookData[];
+};
+
+/**
+ * The running sequential test, kept between visits so each look is judged against the same plan
+ */
+export const sequentialTestStore = persisted<SequentialTestStoreType>("abTestingSequentialTest", {
+	plan: null,
+	looks: []
+});
+
+/**
+ * Saved analyses with their hypotheses and decisions, newest first
+ */
+export const testLogStore = persisted<TestLogEntry[]>("abTestingTestLog", []);
@@ -1,13 +1,22 @@
 import { test, expect } from "@playwright/test";
 
+const TEST_DIRECTION_LABELS = {
+	"two-sided": "Any difference, better or worse (two-sided)",
+	"one-sided": "Only whether the new version is better (one-sided)"
+};
+
 async function enterTwoVariantTest(
 	page: import("@playwright/test").Page,
 	control: { sampleSize: string; conversions: string },
-	variation: { sampleSize: string; conversions: string }
+	variation: { sampleSize: string; conversions: string },
+	direction: keyof typeof TEST_DIRECTION_LABELS = "two-sided"
 ) {
 	const sampleSizes = page.getByLabel("Sample size");
 	const conversions = page.getByLabel("Number of conversions");
 
+	// The direction has to be chosen before results can be entered
+	await page.getByLabel(TEST_DIRECTION_LABELS[direction]).check();
+
 	await sampleSizes.nth(0).fill(control.sampleSize);
 	await conversions.nth(0).fill(control.conversions);
 	await sampleSizes.nth(1).fill(variation.sampleSize);
@@ -47,6 +56,7 @@ test.describe("A/B testing calculator", () => {
 		await expect(page.getByRole("columnheader", { name: /Conversions/ })).toBeVisible();
 		await expect(dataInputTable.locator(".mobile-cell-label").first()).toBeHidden();
 
+		await page.getByLabel(TEST_DIRECTION_LABELS["two-sided"]).check();
 		await page.getByRole("button", { name: "Add a variant +" }).click();
 		const removeButtonBox = await page
 			.getByRole("button", { name: /Remove variant/ })
@@ -74,6 +84,25 @@ test.describe("A/B testing calculator", () => {
 		await expect(page.getByText("20.0% relative increase")).toBeVisible();
 	});
 
+	test("waits for the test direction before results can be entered", async ({ page }) => {
+		await page.goto("/ab-testing");
+		await page.waitForLoadState("networkidle");
+
+		await expect(page.getByText("Choose what you set out to find")).toBeVisible();
+		await expect(page.getByLabel("Sample size").first()).toBeDisabled();
+		await expect(page.getByRole("button", { name: "Add a variant +" })).toBeDisabled();
+
+		await enterTwoVariantTest(
+			page,
+			{ sampleSize: "10000", conversions: "1200" },
+			{ sampleSize: "10000", conversions: "1440" }
+		);
+		await expect(page.getByText("Choose what you set out to find")).toBeHidden();
+		await page.getByRole("button", { name: "Calculate" }).click();
+
+		await expect(page.getByText("Significant result!")).toBeVisible();
+	});
+
 	test("alerts the user when an added variant has no sample size", async ({ page }) => {
 		await page.goto("/ab-testing");
 		await page.waitForLoadState("networkidle");
@@ -160,4 +189,23 @@ test.describe("A/B testing calculator", () => {
 		await expect(page.getByText("Conversions can't be higher than sample size")).toBeVisible();
 		await expect(page.getByText("Significant result!")).toBeHidden();
 	});
+
+	test("asks for a manual copy when the clipboard is blocked", async ({ page }) => {
+		await page.addInitScript(() => {
+			navigator.clipboard.writeText = () => Promise.reject(new Error("Clipboard blocked"));
+		});
+		await page.goto("/ab-testing");
+		await page.waitForLoadState("networkidle");
+
+		await enterTwoVariantTest(
+			page,
+			{ sampleSize: "10000", conversions: "1200" },
+			{ sampleSize: "10000", conversions: "1440" }
+		);
+		await page.getByRole("button", { name: "Calculate" }).click();
+		await page.getByRole("button", { name: "Copy a link to this analysis" }).click();
+
+		await expect(page.getByText("Please copy it from the address bar")).toBeVisible();
+		await expect(page).toHaveURL(/#/);
+	});
 });
@@ -3,7 +3,11 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
 	test: {
 		// Test files location
-		include: ["src/**/*.{test,spec}.{js,ts}"],
+		include: [
+			"src/**/*.{test,spec}.{js,ts}",
+			"packages/*/src/**/*.{test,spec}.{js,ts}",
+			"netlify/**/*.{test,spec}.{js,ts}"
+		],
 
 		// Test environment for DOM testing if needed
 		environment: "node",
@@ -12,8 +16,8 @@ export default defineConfig({
 		coverage: {
 			provider: "v8",
 			reporter: ["text", "html"],
-			include: ["src/**/*.{js,ts}"],
-			exclude: ["src/**/*.{test,spec}.{js,ts}", "src/**/*.d.ts", "src/env.d.ts"]
+			include: ["src/**/*.{js,ts}", "packages/*/src/**/*.{js,ts}"],
+			exclude: ["**/*.{test,spec}.{js,ts}", "**/*.d.ts", "src/env.d.ts"]
 		},
 
 		// Test timeout